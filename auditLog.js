@@ -0,0 +1,78 @@
+const { insertAuditEntries } = require('./db');
+
+// Audit trail of who changed what through the API. Each entry records the
+// acting user, the record, the action and the fields that changed with their
+// old and new values, computed by comparing the record before and after.
+
+const AUDIT_ENTITY_TYPES = [
+  'quote',
+  'line_item',
+  'attachment',
+  'customer',
+  'contact',
+  'activity',
+  'task',
+  'user',
+  'email_template',
+  'chase_cadence'
+];
+
+// Bookkeeping columns, and names joined in from other tables for display,
+// which change whenever the record they come from does
+const IGNORED_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'version',
+  'stageEnteredAt',
+  'customerName',
+  'createdByName',
+  'assignedToName',
+  'contactName',
+  'quoteTitle'
+]);
+
+// Field-level differences as { field: { from, to } }. `before` is null for
+// records being created and `after` null for records being deleted.
+function diffRecords(before, after) {
+  const changes = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Records one or more entries of the form
+// { entityType, entityId, action, before, after } for the acting user (a
+// req.user, or null for changes nobody signed in made). Pass `changes`
+// instead of before/after for actions that are not a plain edit. Updates that
+// changed nothing are skipped. Never throws: a failure to write the audit
+// trail is logged rather than failing the change that was already made.
+async function recordAudit(actor, entries) {
+  const rows = [].concat(entries)
+    .map(({ entityType, entityId, action, before = null, after = null, changes = null }) => ({
+      actorId: actor ? actor.sub || actor.id : null,
+      actorName: actor ? actor.email : null,
+      entityType,
+      entityId: String(entityId),
+      action,
+      changes: changes || diffRecords(before, after)
+    }))
+    .filter((row) => row.action !== 'update' || Object.keys(row.changes).length > 0);
+  try {
+    await insertAuditEntries(rows);
+  } catch (err) {
+    console.error('[audit] Failed to record audit entries:', err);
+  }
+}
+
+module.exports = {
+  AUDIT_ENTITY_TYPES,
+  diffRecords,
+  recordAudit
+};
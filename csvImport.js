@@ -0,0 +1,242 @@
+// CSV import of customers, contacts and historical quotes.
+//
+// Each CSV row describes one customer and, optionally, a contact at that
+// customer and a quote for them. Columns are mapped to the fields below by
+// the user; this module parses the file, applies the mapping and validates
+// each row. Writing the rows is done by importRows in db.js.
+
+const { STAGE_TITLES } = require('./stages');
+
+const MAX_IMPORT_ROWS = 5000;
+
+const IMPORT_FIELDS = [
+  { key: 'customer.name', label: 'Customer name', required: true, aliases: ['customer', 'company', 'company name', 'organisation', 'organization', 'account', 'client'] },
+  { key: 'customer.email', label: 'Customer email', aliases: ['company email'] },
+  { key: 'customer.phone', label: 'Customer phone', aliases: ['company phone', 'telephone'] },
+  { key: 'customer.website', label: 'Website', aliases: ['web', 'url'] },
+  { key: 'customer.address', label: 'Address', aliases: ['customer address'] },
+  { key: 'customer.industry', label: 'Industry', aliases: ['sector'] },
+  { key: 'customer.notes', label: 'Customer notes', aliases: [] },
+  { key: 'contact.firstName', label: 'Contact first name', aliases: ['first name', 'firstname', 'forename'] },
+  { key: 'contact.lastName', label: 'Contact last name', aliases: ['last name', 'lastname', 'surname'] },
+  { key: 'contact.email', label: 'Contact email', aliases: ['email', 'email address'] },
+  { key: 'contact.phone', label: 'Contact phone', aliases: ['phone', 'mobile'] },
+  { key: 'contact.jobTitle', label: 'Contact job title', aliases: ['job title', 'position', 'role'] },
+  { key: 'quote.title', label: 'Quote title', aliases: ['quote', 'project', 'title'] },
+  { key: 'quote.value', label: 'Quote value', aliases: ['value', 'amount', 'total'] },
+  { key: 'quote.stage', label: 'Quote stage', aliases: ['stage', 'status'] },
+  { key: 'quote.soNumber', label: 'SO number', aliases: ['so', 'so no', 'sales order', 'reference'] },
+  { key: 'quote.reminderEmail', label: 'Reminder email', aliases: ['chase email'] },
+  { key: 'quote.notes', label: 'Quote notes', aliases: ['notes'] },
+  { key: 'quote.createdAt', label: 'Quote date', aliases: ['date', 'created', 'quote created'] }
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// RFC 4180 style: quoted fields may contain the delimiter, newlines and
+// doubled quotes. Semicolon-separated files (Excel in some locales) are
+// detected from the header line.
+function parseCsv(text) {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((value) => value.trim() !== ''));
+  const [headerRow = [], ...records] = nonEmpty;
+  const headers = headerRow.map((h) => h.trim());
+  return {
+    headers,
+    records: records.map((values) => Object.fromEntries(headers.map((h, index) => [h, (values[index] || '').trim()])))
+  };
+}
+
+function escapeCsvValue(value) {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(headers, rows) {
+  return [headers, ...rows.map((row) => headers.map((h) => row[h]))]
+    .map((values) => values.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
+
+const simplify = (value) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Maps each field to the first header matching its label or an alias
+function suggestMapping(headers) {
+  const mapping = {};
+  const used = new Set();
+  for (const field of IMPORT_FIELDS) {
+    const names = [field.label, ...field.aliases].map(simplify);
+    const header = headers.find((h) => !used.has(h) && names.includes(simplify(h)));
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+// Returns { error } for a mapping that points at unknown fields or columns
+function validateMapping(mapping, headers) {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return { error: 'Column mapping is required' };
+  }
+  for (const [key, header] of Object.entries(mapping)) {
+    if (!IMPORT_FIELDS.some((f) => f.key === key)) {
+      return { error: `Unknown import field: ${key}` };
+    }
+    if (header && !headers.includes(header)) {
+      return { error: `Column "${header}" is not in the file` };
+    }
+  }
+  if (!mapping['customer.name']) {
+    return { error: 'Map a column to Customer name' };
+  }
+  return {};
+}
+
+function parseMoney(value) {
+  const number = Number(value.replace(/[£$€,\s]/g, ''));
+  return Number.isFinite(number) ? number : NaN;
+}
+
+// Accepts ISO dates and UK-style DD/MM/YYYY
+function parseDate(value) {
+  const uk = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const date = uk ? new Date(Date.UTC(Number(uk[3]), Number(uk[2]) - 1, Number(uk[1]))) : new Date(value);
+  if (uk && date.getUTCDate() !== Number(uk[1])) return null;
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseStage(value) {
+  const simple = simplify(value).replace(/ /g, '_');
+  if (STAGE_TITLES[simple]) return simple;
+  const byTitle = Object.entries(STAGE_TITLES).find(([, title]) => simplify(title) === simplify(value));
+  return byTitle ? byTitle[0] : null;
+}
+
+// Applies the mapping to each record and validates it. Rows are numbered as
+// in a spreadsheet, so the header is row 1 and the first record row 2.
+function buildImportRows(records, mapping) {
+  return records.map((record, index) => {
+    const get = (key) => (mapping[key] ? record[mapping[key]] || '' : '');
+    const errors = [];
+
+    const customer = {
+      name: get('customer.name'),
+      email: get('customer.email') || null,
+      phone: get('customer.phone') || null,
+      website: get('customer.website') || null,
+      address: get('customer.address') || null,
+      industry: get('customer.industry') || null,
+      notes: get('customer.notes') || null
+    };
+    if (!customer.name) errors.push('Customer name is required');
+    if (customer.email && !EMAIL_PATTERN.test(customer.email)) errors.push('Customer email is not a valid email address');
+
+    let contact = null;
+    if (['firstName', 'lastName', 'email', 'phone', 'jobTitle'].some((f) => get(`contact.${f}`))) {
+      contact = {
+        firstName: get('contact.firstName'),
+        lastName: get('contact.lastName'),
+        email: get('contact.email') || null,
+        phone: get('contact.phone') || null,
+        jobTitle: get('contact.jobTitle') || null
+      };
+      if (!contact.firstName || !contact.lastName) errors.push('Contact first and last name are both required');
+      if (contact.email && !EMAIL_PATTERN.test(contact.email)) errors.push('Contact email is not a valid email address');
+    }
+
+    let quote = null;
+    if (['title', 'value', 'stage', 'soNumber', 'reminderEmail', 'notes', 'createdAt'].some((f) => get(`quote.${f}`))) {
+      quote = {
+        title: get('quote.title'),
+        value: null,
+        stage: 'new',
+        soNumber: get('quote.soNumber') || null,
+        reminderEmail: get('quote.reminderEmail') || null,
+        notes: get('quote.notes') || null,
+        createdAt: null
+      };
+      if (!quote.title) errors.push('Quote title is required when quote columns are filled in');
+      if (get('quote.value')) {
+        quote.value = parseMoney(get('quote.value'));
+        if (Number.isNaN(quote.value) || quote.value < 0) errors.push(`Quote value "${get('quote.value')}" is not a valid amount`);
+      }
+      if (get('quote.stage')) {
+        quote.stage = parseStage(get('quote.stage'));
+        if (!quote.stage) {
+          errors.push(`Quote stage "${get('quote.stage')}" must be one of ${Object.values(STAGE_TITLES).join(', ')}`);
+        }
+      }
+      if (get('quote.createdAt')) {
+        const date = parseDate(get('quote.createdAt'));
+        if (!date) errors.push(`Quote date "${get('quote.createdAt')}" is not a valid date`);
+        else quote.createdAt = date.toISOString();
+      }
+      if (quote.reminderEmail && !EMAIL_PATTERN.test(quote.reminderEmail)) {
+        errors.push('Reminder email is not a valid email address');
+      }
+    }
+
+    return { rowNumber: index + 2, record, customer, contact, quote, errors };
+  });
+}
+
+// The rejected rows as they appeared in the file, with an Errors column
+function buildErrorReport(headers, results) {
+  const failed = results.filter((r) => r.errors.length > 0);
+  if (failed.length === 0) return null;
+  return toCsv(
+    ['Row', ...headers, 'Errors'],
+    failed.map((r) => ({ ...r.record, Row: r.rowNumber, Errors: r.errors.join('; ') }))
+  );
+}
+
+module.exports = {
+  MAX_IMPORT_ROWS,
+  toCsv,
+  IMPORT_FIELDS,
+  parseCsv,
+  suggestMapping,
+  validateMapping,
+  buildImportRows,
+  buildErrorReport
+};
@@ -0,0 +1,132 @@
+// Duplicate detection for customers.
+//
+// Customers are created by name from the quote form, so the same company
+// often ends up under several spellings ("Acme Ltd", "ACME Limited"). Each
+// pair of customers is scored on a normalized name, the domain of their email
+// or website, and their phone number; pairs at or above the threshold are
+// reported as likely duplicates.
+
+const DEFAULT_THRESHOLD = 50;
+
+// Words that say nothing about which company it is
+const NAME_NOISE_WORDS = new Set([
+  'the', 'and', 'ltd', 'limited', 'inc', 'incorporated', 'llc', 'llp', 'plc',
+  'co', 'company', 'corp', 'corporation', 'group', 'holdings', 'gmbh', 'uk'
+]);
+
+// Shared mailbox providers; two customers using gmail.com are not related
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'hotmail.com', 'hotmail.co.uk', 'outlook.com',
+  'live.com', 'live.co.uk', 'msn.com', 'yahoo.com', 'yahoo.co.uk', 'icloud.com',
+  'me.com', 'aol.com', 'btinternet.com', 'protonmail.com', 'proton.me'
+]);
+
+function normalizeCustomerName(name) {
+  const words = (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+  const significant = words.filter((word) => !NAME_NOISE_WORDS.has(word));
+  // A name made only of noise words ("The Company") is still a name
+  return (significant.length > 0 ? significant : words).join(' ');
+}
+
+function customerDomain(customer) {
+  const email = (customer.email || '').trim().toLowerCase();
+  const fromEmail = email.includes('@') ? email.split('@').pop() : null;
+  if (fromEmail && !FREE_MAIL_DOMAINS.has(fromEmail)) {
+    return fromEmail;
+  }
+  const website = (customer.website || '').trim().toLowerCase();
+  if (!website) return null;
+  const host = website.replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0].replace(/^www\./, '');
+  return host.includes('.') ? host : null;
+}
+
+// Compares the last ten digits so "+44 1234 567890" matches "01234 567890"
+function normalizePhone(phone) {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+// Dice coefficient over character bigrams, 0..1
+function nameSimilarity(a, b) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const bigrams = (value) => {
+    const compact = value.replace(/ /g, '');
+    const counts = new Map();
+    for (let i = 0; i < compact.length - 1; i++) {
+      const gram = compact.slice(i, i + 2);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+    return counts;
+  };
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let shared = 0;
+  let total = 0;
+  for (const [gram, count] of left) {
+    shared += Math.min(count, right.get(gram) || 0);
+    total += count;
+  }
+  for (const count of right.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+function matchKeys(customer) {
+  return {
+    name: normalizeCustomerName(customer.name),
+    domain: customerDomain(customer),
+    phone: normalizePhone(customer.phone)
+  };
+}
+
+// Scores one pair out of 100 and explains why
+function scoreCustomerPair(a, b, keysA = matchKeys(a), keysB = matchKeys(b)) {
+  let score = 0;
+  const reasons = [];
+
+  const similarity = nameSimilarity(keysA.name, keysB.name);
+  if (similarity === 1) {
+    score += 60;
+    reasons.push('Same name');
+  } else if (similarity >= 0.75) {
+    score += Math.round(50 * similarity);
+    reasons.push('Similar name');
+  }
+  if (keysA.domain && keysA.domain === keysB.domain) {
+    score += 30;
+    reasons.push(`Same domain (${keysA.domain})`);
+  }
+  if (keysA.phone && keysA.phone === keysB.phone) {
+    score += 30;
+    reasons.push('Same phone number');
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+// Likely duplicate pairs, highest score first
+function findDuplicateCustomers(customers, { threshold = DEFAULT_THRESHOLD } = {}) {
+  const keys = customers.map(matchKeys);
+  const matches = [];
+  for (let i = 0; i < customers.length; i++) {
+    for (let j = i + 1; j < customers.length; j++) {
+      const { score, reasons } = scoreCustomerPair(customers[i], customers[j], keys[i], keys[j]);
+      if (score >= threshold) {
+        matches.push({ customer: customers[i], duplicate: customers[j], score, reasons });
+      }
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+module.exports = {
+  DEFAULT_THRESHOLD,
+  normalizeCustomerName,
+  scoreCustomerPair,
+  findDuplicateCustomers
+};
@@ -1,4 +1,8 @@
 const { Pool } = require('pg');
+const { DEFAULT_ROLE, isValidRole } = require('./roles');
+const { TEMPLATE_KINDS, DEFAULT_TEMPLATES } = require('./emailTemplates');
+const { normalizeCustomerName } = require('./customerMatching');
+const { CLOSED_STAGES, OPEN_STAGES, STAGE_PROBABILITIES } = require('./stages');
 
 const connectionString = process.env.DATABASE_URL;
 
@@ -25,7 +29,33 @@ const pool =
           : undefined
       });
 
+const VERSIONED_TABLES = ['quotes', 'customers', 'tasks'];
+
+// Thrown when an edit was made against an older version of the record.
+// `current` is the record as it is now, for showing the competing values.
+function versionConflict(current) {
+  const err = new Error('Record was changed by someone else');
+  err.code = 'VERSION_CONFLICT';
+  err.current = current;
+  return err;
+}
+
+// Several processes (web replicas, the reminder worker) may start at once;
+// a Postgres advisory lock makes them run the schema setup one at a time.
+const INIT_LOCK_KEY = 'quote-portal:initDb';
+
 async function initDb() {
+  const client = await pool.connect();
+  try {
+    await client.query('select pg_advisory_lock(hashtext($1))', [INIT_LOCK_KEY]);
+    await migrate();
+  } finally {
+    await client.query('select pg_advisory_unlock(hashtext($1))', [INIT_LOCK_KEY]).catch(() => {});
+    client.release();
+  }
+}
+
+async function migrate() {
   // Create customers table first
   await pool.query(`
     create table if not exists customers (
@@ -50,6 +80,16 @@ async function initDb() {
   await pool.query('alter table customers add column if not exists industry text');
   await pool.query('alter table customers add column if not exists notes text');
 
+  // Names of customers merged into another, so new quotes typed with the old
+  // name land on the surviving customer
+  await pool.query(`
+    create table if not exists customer_aliases (
+      name text primary key,
+      customer_id uuid not null references customers(id) on delete cascade,
+      created_at timestamptz not null default now()
+    )
+  `);
+
   // Create contacts table for individual contacts within customers
   await pool.query(`
     create table if not exists contacts (
@@ -172,6 +212,22 @@ async function initDb() {
     'alter table quotes add column if not exists so_number text'
   );
 
+  // Version counter for server-generated PDF quote documents
+  await pool.query(
+    'alter table quotes add column if not exists pdf_version integer not null default 0'
+  );
+
+  // Chase cadence overrides for this quote (falling back to the stage's
+  // cadence in chase_cadences) and the number of chases sent since the quote
+  // last changed stage.
+  await pool.query('alter table quotes add column if not exists chase_interval_days integer');
+  await pool.query('alter table quotes add column if not exists chase_escalate_after integer');
+  await pool.query('alter table quotes add column if not exists chase_count integer not null default 0');
+  await pool.query('alter table quotes add column if not exists chase_escalated_at timestamptz');
+  // Lease taken by a scheduler instance while it sends a quote's reminder
+  await pool.query('alter table quotes add column if not exists chase_claimed_by text');
+  await pool.query('alter table quotes add column if not exists chase_claimed_until timestamptz');
+
   // In case the table already existed without the created_by column, try to add it.
   await pool.query(
     'alter table quotes add column if not exists created_by uuid'
@@ -223,6 +279,117 @@ async function initDb() {
     console.log('[db] Note: Could not add foreign key constraint (may already exist):', err.message);
   }
 
+  // Line items that make up a quote. quotes.value is kept in sync with the
+  // computed total whenever a quote has at least one line item.
+  await pool.query(`
+    create table if not exists quote_line_items (
+      id uuid primary key default gen_random_uuid(),
+      quote_id text not null references quotes(id) on delete cascade,
+      description text not null,
+      quantity numeric not null default 1,
+      unit_price numeric not null default 0,
+      discount_percent numeric not null default 0,
+      tax_rate numeric not null default 0,
+      position integer not null default 0,
+      created_at timestamptz not null default now(),
+      updated_at timestamptz not null default now()
+    )
+  `);
+  await pool.query(
+    'create index if not exists quote_line_items_quote_id_idx on quote_line_items (quote_id)'
+  );
+
+  // Every stage change is recorded so that time-in-stage and win dates are
+  // known rather than inferred from updated_at.
+  await pool.query(`
+    create table if not exists quote_stage_history (
+      id uuid primary key default gen_random_uuid(),
+      quote_id text not null references quotes(id) on delete cascade,
+      from_stage text,
+      to_stage text not null,
+      changed_by uuid references users(id) on delete set null,
+      changed_at timestamptz not null default now()
+    )
+  `);
+  await pool.query(
+    'create index if not exists quote_stage_history_quote_id_idx on quote_stage_history (quote_id, changed_at)'
+  );
+
+  // Admin-editable email templates (see emailTemplates.js). Reminders use the
+  // quote's template, else its stage cadence's template, else the default
+  // template for the kind.
+  await pool.query(`
+    create table if not exists email_templates (
+      id uuid primary key default gen_random_uuid(),
+      name text unique not null,
+      kind text not null default 'reminder',
+      subject text not null,
+      body_text text not null,
+      body_html text,
+      is_default boolean not null default false,
+      created_at timestamptz not null default now(),
+      updated_at timestamptz not null default now()
+    )
+  `);
+  for (const kind of TEMPLATE_KINDS) {
+    const template = DEFAULT_TEMPLATES[kind];
+    await pool.query(
+      `insert into email_templates (name, kind, subject, body_text, body_html, is_default)
+       select $1, $2, $3, $4, $5, true
+       where not exists (select 1 from email_templates where kind = $2)`,
+      [template.name, kind, template.subject, template.bodyText, template.bodyHtml || null]
+    );
+  }
+  await pool.query(
+    'alter table quotes add column if not exists email_template_id uuid references email_templates(id) on delete set null'
+  );
+
+  // Every outbound email attempt (see mailer.js). Failed sends with a
+  // transient error are retried from here with backoff.
+  await pool.query(`
+    create table if not exists email_log (
+      id uuid primary key default gen_random_uuid(),
+      quote_id text references quotes(id) on delete cascade,
+      kind text not null,
+      recipient text not null,
+      template_id uuid references email_templates(id) on delete set null,
+      template_name text,
+      subject text not null,
+      body_text text not null,
+      body_html text,
+      status text not null default 'pending',
+      attempts integer not null default 0,
+      error text,
+      message_id text,
+      next_attempt_at timestamptz,
+      sent_at timestamptz,
+      created_at timestamptz not null default now(),
+      updated_at timestamptz not null default now()
+    )
+  `);
+  await pool.query(
+    'create index if not exists email_log_quote_id_idx on email_log (quote_id, created_at)'
+  );
+  await pool.query(
+    "create index if not exists email_log_retry_idx on email_log (next_attempt_at) where status = 'retrying'"
+  );
+
+  // Default chase cadence per stage. A quote in a stage with an enabled
+  // cadence is chased every interval_days until it leaves the stage; after
+  // escalate_after unanswered chases the owner's manager is emailed too.
+  await pool.query(`
+    create table if not exists chase_cadences (
+      stage text primary key,
+      interval_days integer not null,
+      escalate_after integer,
+      enabled boolean not null default true,
+      updated_at timestamptz not null default now()
+    )
+  `);
+  await pool.query(
+    'alter table chase_cadences add column if not exists email_template_id uuid references email_templates(id) on delete set null'
+  );
+
   // Migrate old stage values to new ones
   // 'sent' -> 'new' (move to new stage)
   // 'negotiation' -> 'tender'
@@ -251,6 +418,15 @@ async function initDb() {
     console.log('[db] Note: Could not migrate stage values (may not be needed):', err.message);
   }
 
+  // Quotes created before history tracking get a starting entry so that
+  // every quote has at least one row to measure from.
+  await pool.query(`
+    insert into quote_stage_history (quote_id, from_stage, to_stage, changed_at)
+    select q.id, null, q.stage, q.created_at
+    from quotes q
+    where not exists (select 1 from quote_stage_history h where h.quote_id = q.id)
+  `);
+
   // Basic users table for auth
   await pool.query(`
     create table if not exists users (
@@ -260,45 +436,389 @@ async function initDb() {
       created_at timestamptz not null default now()
     )
   `);
+
+  // Approval workflow columns. Accounts that existed before the workflow was
+  // introduced are backfilled as approved so nobody gets locked out; new
+  // registrations default to pending until an admin approves them.
+  await pool.query('alter table users add column if not exists contact_email text');
+  await pool.query(
+    "alter table users add column if not exists status text not null default 'approved'"
+  );
+  await pool.query("alter table users alter column status set default 'pending'");
+  await pool.query('alter table users add column if not exists status_reason text');
+  await pool.query('alter table users add column if not exists status_changed_at timestamptz');
+  await pool.query('alter table users add column if not exists status_changed_by uuid');
+
+  // Role-based access control (see roles.js)
+  await pool.query(
+    `alter table users add column if not exists role text not null default '${DEFAULT_ROLE}'`
+  );
+  // Line manager, used to escalate chases on quotes the user owns
+  await pool.query(
+    'alter table users add column if not exists manager_id uuid references users(id) on delete set null'
+  );
+  await pool.query(`
+    create table if not exists setup_tokens (
+      id uuid primary key default gen_random_uuid(),
+      token_hash text unique not null,
+      expires_at timestamptz not null,
+      used_at timestamptz,
+      created_at timestamptz not null default now()
+    )
+  `);
+
+  // Signed-in sessions. Access tokens are short-lived JWTs that name their
+  // session; the refresh token that renews them is stored only as a hash and
+  // changes on every use. The previous hash is kept so that a refresh token
+  // used twice (a sign it was copied) can end the session.
+  await pool.query(`
+    create table if not exists sessions (
+      id uuid primary key default gen_random_uuid(),
+      user_id uuid not null references users(id) on delete cascade,
+      refresh_token_hash text unique not null,
+      previous_token_hash text,
+      user_agent text,
+      ip_address text,
+      created_at timestamptz not null default now(),
+      last_seen_at timestamptz not null default now(),
+      expires_at timestamptz not null,
+      revoked_at timestamptz
+    )
+  `);
+  await pool.query('create index if not exists sessions_user_id_idx on sessions (user_id, last_seen_at)');
+  await pool.query('create index if not exists sessions_previous_token_hash_idx on sessions (previous_token_hash)');
+
+  // Emailed password reset links. Only the hash of each token is stored, and
+  // a token stops working once used, once it expires, or when a newer link
+  // is sent to the same user.
+  await pool.query(`
+    create table if not exists password_reset_tokens (
+      id uuid primary key default gen_random_uuid(),
+      user_id uuid not null references users(id) on delete cascade,
+      token_hash text unique not null,
+      expires_at timestamptz not null,
+      used_at timestamptz,
+      created_at timestamptz not null default now()
+    )
+  `);
+  // Reset emails logged before mailer.js redacted them still hold the link
+  await pool.query(`
+    update email_log
+    set body_text = '[Redacted: this message contained a single-use link and is not stored]', body_html = null
+    where kind = 'password_reset' and body_text like '%#reset-password=%'
+  `);
+
+  // Soft delete: archived rows are hidden from normal lists and can be
+  // restored from the Archived view. Only admins can delete permanently.
+  for (const table of Object.values(ARCHIVABLE_TABLES)) {
+    await pool.query(`alter table ${table} add column if not exists archived_at timestamptz`);
+    await pool.query(
+      `alter table ${table} add column if not exists archived_by uuid references users(id) on delete set null`
+    );
+  }
+
+  // Optimistic concurrency: every change to a quote, customer or task bumps its
+  // version, and edits made from an older version are rejected as conflicts.
+  for (const table of VERSIONED_TABLES) {
+    await pool.query(`alter table ${table} add column if not exists version integer not null default 1`);
+  }
+
+  // Files attached to a quote. A new revision of a file supersedes the
+  // previous one, forming a version chain; the unique constraint stops two
+  // uploads from both claiming to be the next version of the same file.
+  // quotes.attachment_url keeps pointing at the most recent upload.
+  await pool.query(`
+    create table if not exists quote_attachments (
+      id uuid primary key default gen_random_uuid(),
+      quote_id text not null references quotes(id) on delete cascade,
+      file_url text not null,
+      original_name text,
+      mime_type text,
+      size_bytes integer,
+      label text,
+      version integer not null default 1,
+      supersedes_id uuid unique references quote_attachments(id) on delete set null,
+      source text not null default 'upload',
+      uploaded_by uuid references users(id) on delete set null,
+      created_at timestamptz not null default now()
+    )
+  `);
+  await pool.query(
+    'create index if not exists quote_attachments_quote_id_idx on quote_attachments (quote_id, created_at)'
+  );
+  // Images get a small JPEG thumbnail alongside the file
+  await pool.query('alter table quote_attachments add column if not exists thumbnail_url text');
+  // Result of the virus scan made on upload (see virusScanner.js):
+  // 'unscanned', 'clean' or 'blocked'. Blocked files are kept in quarantine
+  // with the signature that was found, and are never served.
+  await pool.query(
+    "alter table quote_attachments add column if not exists scan_status text not null default 'unscanned'"
+  );
+  await pool.query('alter table quote_attachments add column if not exists scan_signature text');
+  // The last upload to an activity that the virus scan blocked, kept beside
+  // the activity's own attachment, which the blocked file did not replace
+  await pool.query('alter table activities add column if not exists blocked_attachment_url text');
+  await pool.query('alter table activities add column if not exists blocked_attachment_name text');
+  await pool.query('alter table activities add column if not exists blocked_attachment_signature text');
+  // Downloads look files up by URL (see findUploadOwner)
+  await pool.query(
+    'create index if not exists quote_attachments_file_url_idx on quote_attachments (file_url)'
+  );
+  // Quotes from before multiple attachments keep their single file
+  await pool.query(`
+    insert into quote_attachments (quote_id, file_url, mime_type, source, uploaded_by, created_at)
+    select q.id, q.attachment_url, 'application/pdf',
+           case when q.attachment_url like '/uploads/quote-%' then 'generated' else 'upload' end,
+           q.created_by, q.updated_at
+    from quotes q
+    where q.attachment_url is not null
+      and not exists (select 1 from quote_attachments a where a.quote_id = q.id)
+  `);
+
+  // Audit trail of changes made through the API (see auditLog.js). Entity IDs
+  // are text since quote IDs are not UUIDs; the actor's username is kept so
+  // entries still read correctly if the account is later renamed.
+  await pool.query(`
+    create table if not exists audit_log (
+      id uuid primary key default gen_random_uuid(),
+      actor_id uuid references users(id) on delete set null,
+      actor_name text,
+      entity_type text not null,
+      entity_id text not null,
+      action text not null,
+      changes jsonb not null default '{}'::jsonb,
+      created_at timestamptz not null default now()
+    )
+  `);
+  await pool.query(
+    'create index if not exists audit_log_created_at_idx on audit_log (created_at desc)'
+  );
+  await pool.query(
+    'create index if not exists audit_log_actor_idx on audit_log (actor_id, created_at desc)'
+  );
+  await pool.query(
+    'create index if not exists audit_log_entity_idx on audit_log (entity_type, entity_id, created_at desc)'
+  );
+
+  // Never leave the system without an administrator: if nobody holds the
+  // admin role yet (e.g. right after this column was added), promote the
+  // built-in admin account.
+  await pool.query(`
+    update users set role = 'admin'
+    where email = 'admin'
+      and not exists (select 1 from users where role = 'admin')
+  `);
 }
 
-async function ensureAdminUser() {
-  const bcrypt = require('bcrypt');
-  const adminEmail = 'admin';
-  const adminPassword = 'admin123';
-  
+const USER_STATUSES = ['pending', 'approved', 'rejected', 'suspended'];
+
+async function hasAdminUser() {
+  const { rows } = await pool.query(
+    "select 1 from users where role = 'admin' and status = 'approved' limit 1"
+  );
+  return rows.length > 0;
+}
+
+// One-time setup tokens used to create the first admin account. Only a hash
+// of the token is stored; the plain value is printed to the console once.
+async function createSetupToken(tokenHash, expiresAt) {
+  await pool.query(
+    'insert into setup_tokens (token_hash, expires_at) values ($1, $2)',
+    [tokenHash, expiresAt]
+  );
+}
+
+async function findValidSetupToken(tokenHash) {
+  const { rows } = await pool.query(
+    `
+      select * from setup_tokens
+      where token_hash = $1 and used_at is null and expires_at > now()
+    `,
+    [tokenHash]
+  );
+  return rows[0] || null;
+}
+
+async function markSetupTokenUsed(id) {
+  await pool.query('update setup_tokens set used_at = now() where id = $1', [id]);
+}
+
+// Sessions
+async function createSession({ userId, refreshTokenHash, userAgent = null, ipAddress = null, expiresAt }) {
+  const { rows } = await pool.query(
+    `insert into sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     values ($1, $2, $3, $4, $5)
+     returning *`,
+    [userId, refreshTokenHash, userAgent, ipAddress, expiresAt]
+  );
+  return toSessionDomain(rows[0]);
+}
+
+// A session that has not been revoked or expired, or null
+async function getActiveSession(id) {
+  const { rows } = await pool.query(
+    'select * from sessions where id = $1 and revoked_at is null and expires_at > now()',
+    [id]
+  );
+  return rows[0] ? toSessionDomain(rows[0]) : null;
+}
+
+// Swaps an active session's refresh token for a new one and extends it to
+// expiresAt. Returns null when no active session has that token, including
+// when another request already swapped it.
+async function rotateSession(refreshTokenHash, newRefreshTokenHash, expiresAt) {
+  const { rows } = await pool.query(
+    `update sessions
+     set previous_token_hash = refresh_token_hash, refresh_token_hash = $2,
+         expires_at = $3, last_seen_at = now()
+     where refresh_token_hash = $1 and revoked_at is null and expires_at > now()
+     returning *`,
+    [refreshTokenHash, newRefreshTokenHash, expiresAt]
+  );
+  return rows[0] ? toSessionDomain(rows[0]) : null;
+}
+
+// Revokes the active session whose refresh token was replaced by a newer
+// one, for when an old refresh token is presented again. Returns the session,
+// or null when the token is not a previous token.
+async function revokeSessionByPreviousToken(refreshTokenHash) {
+  const { rows } = await pool.query(
+    `update sessions set revoked_at = now()
+     where previous_token_hash = $1 and revoked_at is null
+     returning *`,
+    [refreshTokenHash]
+  );
+  return rows[0] ? toSessionDomain(rows[0]) : null;
+}
+
+// last_seen_at is kept to the minute, so most requests do not write
+async function touchSession(id) {
+  await pool.query(
+    "update sessions set last_seen_at = now() where id = $1 and last_seen_at < now() - interval '1 minute'",
+    [id]
+  );
+}
+
+// Ends a session, by id or by its current refresh token. When userId is
+// given, only that user's session is revoked. Returns the revoked session or null.
+async function revokeSession({ id = null, refreshTokenHash = null, userId = null }) {
+  const { rows } = await pool.query(
+    `update sessions set revoked_at = now()
+     where (id = $1 or refresh_token_hash = $2)
+       and ($3::uuid is null or user_id = $3)
+       and revoked_at is null
+     returning *`,
+    [id, refreshTokenHash, userId]
+  );
+  return rows[0] ? toSessionDomain(rows[0]) : null;
+}
+
+// Signs a user out everywhere, or everywhere but exceptSessionId; returns
+// how many sessions were ended
+async function revokeUserSessions(userId, { exceptSessionId = null } = {}) {
+  const { rowCount } = await pool.query(
+    `update sessions set revoked_at = now()
+     where user_id = $1 and revoked_at is null and expires_at > now()
+       and ($2::uuid is null or id <> $2)`,
+    [userId, exceptSessionId]
+  );
+  return rowCount;
+}
+
+// Active sessions, most recently used first
+async function getUserSessions(userId) {
+  const { rows } = await pool.query(
+    `select * from sessions
+     where user_id = $1 and revoked_at is null and expires_at > now()
+     order by last_seen_at desc`,
+    [userId]
+  );
+  return rows.map(toSessionDomain);
+}
+
+// Ended sessions are kept for a month, then removed
+async function pruneSessions() {
+  await pool.query(
+    `delete from sessions
+     where expires_at < now() - interval '30 days' or revoked_at < now() - interval '30 days'`
+  );
+}
+
+// Password reset
+async function createPasswordResetToken(userId, tokenHash, expiresAt) {
+  const client = await pool.connect();
   try {
-    const existing = await findUserByEmail(adminEmail);
-    
-    if (existing) {
-      // Admin exists - update password to ensure it's correct
-      const passwordHash = await bcrypt.hash(adminPassword, 10);
-      await pool.query(
-        'update users set password_hash = $1 where email = $2',
-        [passwordHash, adminEmail]
-      );
-      console.log('[db] Admin user password reset (username: admin, password: admin123)');
-    } else {
-      // Admin doesn't exist - create it
-      const passwordHash = await bcrypt.hash(adminPassword, 10);
-      await createUser({ email: adminEmail, passwordHash });
-      console.log('[db] Default admin user created (username: admin, password: admin123)');
-    }
+    await client.query('BEGIN');
+    // Only the most recent link works
+    await client.query(
+      'update password_reset_tokens set used_at = now() where user_id = $1 and used_at is null',
+      [userId]
+    );
+    await client.query(
+      'insert into password_reset_tokens (user_id, token_hash, expires_at) values ($1, $2, $3)',
+      [userId, tokenHash, expiresAt]
+    );
+    await client.query('COMMIT');
   } catch (err) {
-    console.error('[db] Error ensuring admin user:', err);
-    // Don't throw - allow server to start even if admin creation fails
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
   }
 }
 
-async function createUser({ email, passwordHash }) {
+// Marks a reset token used and returns its user's id, or null when the token
+// is unknown, expired or already used
+async function consumePasswordResetToken(tokenHash) {
+  const { rows } = await pool.query(
+    `update password_reset_tokens set used_at = now()
+     where token_hash = $1 and used_at is null and expires_at > now()
+     returning user_id`,
+    [tokenHash]
+  );
+  return rows[0] ? rows[0].user_id : null;
+}
+
+// Accounts a forgotten-password request could be for: the username, or
+// every account registered with that email address
+async function findUsersByLogin(identifier) {
+  const { rows } = await pool.query(
+    'select * from users where email = lower($1) or lower(contact_email) = lower($1)',
+    [identifier]
+  );
+  return rows;
+}
+
+async function setUserPassword(userId, passwordHash) {
+  const { rows } = await pool.query(
+    'update users set password_hash = $2 where id = $1 returning *',
+    [userId, passwordHash]
+  );
+  return rows[0] || null;
+}
+
+function toSessionDomain(row) {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    userAgent: row.user_agent || null,
+    ipAddress: row.ip_address || null,
+    createdAt: row.created_at.toISOString(),
+    lastSeenAt: row.last_seen_at.toISOString(),
+    expiresAt: row.expires_at.toISOString(),
+    revokedAt: row.revoked_at ? row.revoked_at.toISOString() : null
+  };
+}
+
+async function createUser({ email, passwordHash, contactEmail = null, status = 'pending', role = DEFAULT_ROLE }) {
   try {
     const { rows } = await pool.query(
       `
-        insert into users (email, password_hash)
-        values ($1, $2)
-        returning id, email, created_at
+        insert into users (email, password_hash, contact_email, status, role)
+        values ($1, $2, $3, $4, $5)
+        returning *
       `,
-      [email.toLowerCase(), passwordHash]
+      [email.toLowerCase(), passwordHash, contactEmail ? contactEmail.toLowerCase() : null, status, role]
     );
     return rows[0];
   } catch (err) {
@@ -320,9 +840,87 @@ async function findUserByEmail(email) {
   }
 }
 
+async function findUserById(id) {
+  const { rows } = await pool.query('select * from users where id = $1', [id]);
+  return rows[0] || null;
+}
+
+async function getAllUsers() {
+  const { rows } = await pool.query('select * from users order by created_at desc');
+  return rows.map(toUserDomain);
+}
+
+async function getUsersByStatus(status) {
+  const { rows } = await pool.query(
+    'select * from users where status = $1 order by created_at asc',
+    [status]
+  );
+  return rows.map(toUserDomain);
+}
+
+async function setUserStatus(id, status, { reason = null, changedBy = null } = {}) {
+  if (!USER_STATUSES.includes(status)) {
+    throw new Error(`Invalid user status: ${status}`);
+  }
+  const { rows } = await pool.query(
+    `
+      update users
+      set status = $2,
+          status_reason = $3,
+          status_changed_at = now(),
+          status_changed_by = $4
+      where id = $1
+      returning *
+    `,
+    [id, status, reason, changedBy]
+  );
+  if (!rows[0]) return null;
+  return toUserDomain(rows[0]);
+}
+
+async function setUserRole(id, role) {
+  if (!isValidRole(role)) {
+    throw new Error(`Invalid role: ${role}`);
+  }
+  const { rows } = await pool.query(
+    'update users set role = $2 where id = $1 returning *',
+    [id, role]
+  );
+  if (!rows[0]) return null;
+  return toUserDomain(rows[0]);
+}
+
+async function setUserManager(id, managerId) {
+  const { rows } = await pool.query(
+    'update users set manager_id = $2 where id = $1 returning *',
+    [id, managerId]
+  );
+  if (!rows[0]) return null;
+  return toUserDomain(rows[0]);
+}
+
+// The email column holds the login username (see /api/auth/register); the
+// address supplied at registration lives in contact_email.
+function toUserDomain(row) {
+  return {
+    id: row.id,
+    username: row.email,
+    email: row.contact_email || row.email,
+    role: row.role,
+    managerId: row.manager_id || null,
+    status: row.status,
+    approved: row.status === 'approved',
+    statusReason: row.status_reason || null,
+    statusChangedAt: row.status_changed_at ? row.status_changed_at.toISOString() : null,
+    createdAt: row.created_at.toISOString()
+  };
+}
+
 // Customer functions
 async function getAllCustomers() {
-  const { rows } = await pool.query('select * from customers order by name asc');
+  const { rows } = await pool.query(
+    'select * from customers where archived_at is null order by name asc'
+  );
   return rows.map(toCustomerDomain);
 }
 
@@ -332,20 +930,47 @@ async function getCustomerById(id) {
   return toCustomerDomain(rows[0]);
 }
 
+// The customer with this name, or the one a customer of this name was merged
+// into, archived or not. Returns the raw row.
+async function findCustomerRowByName(name) {
+  const { rows: existing } = await pool.query(
+    'select * from customers where lower(name) = lower($1)',
+    [name.trim()]
+  );
+  if (existing[0]) return existing[0];
+  const { rows: aliased } = await pool.query(
+    `select c.* from customer_aliases a
+     join customers c on a.customer_id = c.id
+     where a.name = lower($1)`,
+    [name.trim()]
+  );
+  return aliased[0] || null;
+}
+
+async function findCustomerByName(name) {
+  const row = await findCustomerRowByName(name);
+  return row ? toCustomerDomain(row) : null;
+}
+
 async function findOrCreateCustomer(name) {
   try {
     if (!name || !name.trim()) {
       throw new Error('Customer name is required');
     }
     
-    // Try to find existing customer
-    const { rows: existing } = await pool.query(
-      'select * from customers where lower(name) = lower($1)',
-      [name.trim()]
-    );
-    
-    if (existing[0]) {
-      return toCustomerDomain(existing[0]);
+    // Try to find existing customer, then one it was merged into
+    const existing = await findCustomerRowByName(name);
+
+    if (existing) {
+      // Names are unique, so reusing an archived customer's name restores it
+      if (existing.archived_at) {
+        const { rows: restored } = await pool.query(
+          'update customers set archived_at = null, archived_by = null, updated_at = now(), version = version + 1 where id = $1 returning *',
+          [existing.id]
+        );
+        return toCustomerDomain(restored[0]);
+      }
+      return toCustomerDomain(existing);
     }
     
     // Create new customer
@@ -361,20 +986,246 @@ async function findOrCreateCustomer(name) {
   }
 }
 
+const MERGE_FILL_FIELDS = ['email', 'phone', 'website', 'address', 'industry'];
+
+// Moves quotes, contacts, activities and tasks from the duplicates onto the
+// surviving customer and deletes the duplicates, all in one transaction.
+// Blank fields on the survivor are filled from the duplicates and notes are
+// combined. Returns null when any of the customers does not exist.
+async function mergeCustomers(survivorId, duplicateIds) {
+  const ids = [survivorId, ...duplicateIds];
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // Lock in id order so concurrent merges cannot deadlock
+    const { rows } = await client.query(
+      'select * from customers where id = any($1::uuid[]) order by id for update',
+      [ids]
+    );
+    if (rows.length !== ids.length) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const survivor = rows.find((row) => row.id === survivorId);
+    const duplicates = duplicateIds.map((id) => rows.find((row) => row.id === id));
+
+    const moved = {};
+    for (const table of ['quotes', 'contacts', 'activities', 'tasks']) {
+      const { rowCount } = await client.query(
+        `update ${table}
+         set customer_id = $1, updated_at = now()${VERSIONED_TABLES.includes(table) ? ', version = version + 1' : ''}
+         where customer_id = any($2::uuid[])`,
+        [survivorId, duplicateIds]
+      );
+      moved[table] = rowCount;
+    }
+
+    const filled = {};
+    for (const field of MERGE_FILL_FIELDS) {
+      filled[field] = survivor[field] || duplicates.map((d) => d[field]).find(Boolean) || null;
+    }
+    const notes = [survivor, ...duplicates]
+      .map((row) => (row.notes || '').trim())
+      .filter((note, index, all) => note && all.indexOf(note) === index)
+      .join('\n\n');
+
+    // Old names, and anything already aliased to them, now point at the survivor
+    await client.query(
+      'update customer_aliases set customer_id = $1 where customer_id = any($2::uuid[])',
+      [survivorId, duplicateIds]
+    );
+    await client.query(
+      `insert into customer_aliases (name, customer_id)
+       select lower(name), $1 from customers where id = any($2::uuid[])
+       on conflict (name) do update set customer_id = excluded.customer_id`,
+      [survivorId, duplicateIds]
+    );
+    await client.query('delete from customers where id = any($1::uuid[])', [duplicateIds]);
+
+    const { rows: updated } = await client.query(
+      `update customers
+       set email = $2, phone = $3, website = $4, address = $5, industry = $6, notes = $7,
+           updated_at = now(), version = version + 1
+       where id = $1
+       returning *`,
+      [survivorId, filled.email, filled.phone, filled.website, filled.address, filled.industry, notes || null]
+    );
+    await client.query('COMMIT');
+    return { customer: toCustomerDomain(updated[0]), moved };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Imports rows prepared by csvImport.buildImportRows in one transaction.
+// Customers are matched on their normalized name (or a merged-away name),
+// contacts on email or full name, and quotes on SO number or on title and
+// date, so running the same file twice creates nothing new. A row that
+// fails is rolled back to its savepoint and reported without affecting the
+// others. With dryRun everything is rolled back, which previews the import.
+async function importRows(rows, { createdBy = null, dryRun = false } = {}) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows: known } = await client.query(`
+      select c.id, c.name, c.name as match_name, c.archived_at from customers c
+      union all
+      select c.id, c.name, a.name as match_name, c.archived_at
+      from customer_aliases a
+      join customers c on a.customer_id = c.id
+    `);
+    const customersByName = new Map();
+    for (const customer of known) {
+      const key = normalizeCustomerName(customer.match_name);
+      // Prefer a live customer over an archived one with the same name
+      if (!customersByName.has(key) || customersByName.get(key).archived_at) {
+        customersByName.set(key, customer);
+      }
+    }
+    const createdCustomerIds = new Set();
+
+    const results = [];
+    for (const row of rows) {
+      const result = { rowNumber: row.rowNumber, errors: [...row.errors], customer: null, contact: null, quote: null };
+      results.push(result);
+      if (result.errors.length > 0) continue;
+
+      await client.query('savepoint import_row');
+      try {
+        const key = normalizeCustomerName(row.customer.name);
+        let customer = customersByName.get(key);
+        if (customer) {
+          // Fill in what the existing customer is missing; importing restores an archived one
+          await client.query(
+            `update customers
+             set email = coalesce(email, $2), phone = coalesce(phone, $3), website = coalesce(website, $4),
+                 address = coalesce(address, $5), industry = coalesce(industry, $6), notes = coalesce(notes, $7),
+                 archived_at = null, archived_by = null, updated_at = now(), version = version + 1
+             where id = $1`,
+            [
+              customer.id,
+              row.customer.email,
+              row.customer.phone,
+              row.customer.website,
+              row.customer.address,
+              row.customer.industry,
+              row.customer.notes
+            ]
+          );
+        } else {
+          const { rows: inserted } = await client.query(
+            `insert into customers (name, email, phone, website, address, industry, notes)
+             values ($1, $2, $3, $4, $5, $6, $7)
+             returning id, name, archived_at`,
+            [
+              row.customer.name,
+              row.customer.email,
+              row.customer.phone,
+              row.customer.website,
+              row.customer.address,
+              row.customer.industry,
+              row.customer.notes
+            ]
+          );
+          customer = inserted[0];
+        }
+        const isNewCustomer = !customersByName.has(key) || createdCustomerIds.has(customer.id);
+        result.customer = { id: customer.id, name: customer.name, action: isNewCustomer ? 'new' : 'existing' };
+
+        if (row.contact) {
+          const { rows: contacts } = await client.query(
+            `select id from contacts
+             where customer_id = $1
+               and ((email is not null and lower(email) = lower($2))
+                 or (lower(first_name) = lower($3) and lower(last_name) = lower($4)))
+             limit 1`,
+            [customer.id, row.contact.email, row.contact.firstName, row.contact.lastName]
+          );
+          if (contacts[0]) {
+            result.contact = 'existing';
+          } else {
+            await client.query(
+              `insert into contacts (customer_id, first_name, last_name, email, phone, job_title)
+               values ($1, $2, $3, $4, $5, $6)`,
+              [
+                customer.id,
+                row.contact.firstName,
+                row.contact.lastName,
+                row.contact.email,
+                row.contact.phone,
+                row.contact.jobTitle
+              ]
+            );
+            result.contact = 'new';
+          }
+        }
+
+        if (row.quote) {
+          const { rows: quotes } = row.quote.soNumber
+            ? await client.query('select id from quotes where so_number = $1 limit 1', [row.quote.soNumber])
+            : await client.query(
+                `select id from quotes
+                 where customer_id = $1 and lower(title) = lower($2) and created_at::date = $3::date
+                 limit 1`,
+                [customer.id, row.quote.title, row.quote.createdAt]
+              );
+          if (quotes[0]) {
+            result.quote = 'duplicate';
+          } else {
+            await insertQuote(
+              { ...row.quote, customerId: customer.id, clientName: customer.name, createdBy },
+              client
+            );
+            result.quote = 'new';
+          }
+        }
+        await client.query('release savepoint import_row');
+        // Only remember a new customer once its row has gone in
+        if (isNewCustomer) {
+          customersByName.set(key, customer);
+          createdCustomerIds.add(customer.id);
+        }
+      } catch (err) {
+        await client.query('rollback to savepoint import_row');
+        console.error(`[db] Import of row ${row.rowNumber} failed:`, err.message);
+        result.errors.push(`Could not be imported: ${err.message}`);
+        result.customer = null;
+        result.contact = null;
+        result.quote = null;
+      }
+    }
+
+    await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+    return results;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 async function getQuotesByCustomerId(customerId) {
   const { rows } = await pool.query(`
-    select q.*, u.email as created_by_name
+    select q.*, u.email as created_by_name, ${QUOTE_STAGE_COLUMNS}
     from quotes q
     left join users u on q.created_by = u.id
-    where q.customer_id = $1
+    where q.customer_id = $1 and q.archived_at is null
     order by q.created_at desc
   `, [customerId]);
   return rows.map(toQuoteDomain);
 }
 
-async function updateCustomer(id, patch) {
+// expectedVersion works as for updateQuote
+async function updateCustomer(id, patch, { expectedVersion = null } = {}) {
   const existing = await pool.query('select * from customers where id = $1', [id]);
   if (!existing.rows[0]) return null;
+  if (expectedVersion != null && existing.rows[0].version !== expectedVersion) {
+    throw versionConflict(toCustomerDomain(existing.rows[0]));
+  }
 
   const updated = {
     ...existing.rows[0],
@@ -382,7 +1233,7 @@ async function updateCustomer(id, patch) {
     updated_at: new Date()
   };
 
-  await pool.query(
+  const { rowCount } = await pool.query(
     `update customers
      set name = coalesce($2, name), 
          email = $3, 
@@ -391,8 +1242,9 @@ async function updateCustomer(id, patch) {
          address = $6, 
          industry = $7, 
          notes = $8, 
-         updated_at = $9
-     where id = $1`,
+         updated_at = $9,
+         version = version + 1
+     where id = $1 and ($10::integer is null or version = $10)`,
     [
       id,
       updated.name,
@@ -402,10 +1254,13 @@ async function updateCustomer(id, patch) {
       updated.address || null,
       updated.industry || null,
       updated.notes || null,
-      updated.updated_at
+      updated.updated_at,
+      expectedVersion
     ]
   );
   const { rows } = await pool.query('select * from customers where id = $1', [id]);
+  if (!rows[0]) return null;
+  if (rowCount === 0) throw versionConflict(toCustomerDomain(rows[0]));
   return toCustomerDomain(rows[0]);
 }
 
@@ -419,39 +1274,52 @@ function toCustomerDomain(row) {
     address: row.address || null,
     industry: row.industry || null,
     notes: row.notes || null,
+    version: row.version,
+    archivedAt: row.archived_at ? row.archived_at.toISOString() : null,
     createdAt: row.created_at.toISOString(),
     updatedAt: row.updated_at.toISOString()
   };
 }
 
+// Derived from quote_stage_history: when the quote entered its current stage
+// and when it was (most recently) won.
+const QUOTE_STAGE_COLUMNS = `
+  (select max(h.changed_at) from quote_stage_history h
+    where h.quote_id = q.id and h.to_stage = q.stage) as stage_entered_at,
+  (select max(h.changed_at) from quote_stage_history h
+    where h.quote_id = q.id and h.to_stage = 'won') as won_at
+`;
+
 async function getAllQuotes() {
   const { rows } = await pool.query(`
-    select q.*, c.name as customer_name, c.id as customer_id, u.email as created_by_name
+    select q.*, c.name as customer_name, c.id as customer_id, u.email as created_by_name, ${QUOTE_STAGE_COLUMNS}
     from quotes q
     left join customers c on q.customer_id = c.id
     left join users u on q.created_by = u.id
+    where q.archived_at is null
     order by q.stage, q.position asc, q.next_chase_at nulls last, q.created_at desc
   `);
   return rows.map(toQuoteDomain);
 }
 
-async function insertQuote(quote) {
+async function insertQuote(quote, db = pool) {
   try {
     // Get the max position for this stage to add new quote at the end
-    const { rows: maxPos } = await pool.query(
+    const { rows: maxPos } = await db.query(
       'select coalesce(max(position), 0) as max_pos from quotes where stage = $1',
       [quote.stage]
     );
     const newPosition = (maxPos[0]?.max_pos || 0) + 1;
 
-    await pool.query(
+    await db.query(
       `
         insert into quotes (
           id, title, client_name, customer_id, created_by, value, stage, position, so_number,
           last_chased_at, next_chase_at, reminder_email,
-          attachment_url, status, notes, created_at, updated_at
+          attachment_url, status, notes, created_at, updated_at,
+          chase_interval_days, chase_escalate_after, email_template_id
         )
-        values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17)
+        values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20)
       `,
       [
         quote.id,
@@ -470,9 +1338,20 @@ async function insertQuote(quote) {
         quote.status ?? null,
         quote.notes ?? null,
         new Date(quote.createdAt),
-        new Date(quote.updatedAt)
+        new Date(quote.updatedAt),
+        quote.chaseIntervalDays ?? null,
+        quote.chaseEscalateAfter ?? null,
+        quote.emailTemplateId ?? null
       ]
     );
+    await recordStageChange(db, {
+      quoteId: quote.id,
+      fromStage: null,
+      toStage: quote.stage,
+      changedBy: quote.createdBy ?? null,
+      changedAt: new Date(quote.createdAt)
+    });
+    await resetChaseForStage(db, quote.id, quote.stage);
   } catch (err) {
     console.error('[db] Error inserting quote:', err);
     console.error('[db] Quote data:', {
@@ -486,9 +1365,14 @@ async function insertQuote(quote) {
   }
 }
 
-async function updateQuote(id, patch) {
+// With expectedVersion, the update only applies if nobody has changed the
+// quote since that version; otherwise a VERSION_CONFLICT error is thrown.
+async function updateQuote(id, patch, { changedBy = null, expectedVersion = null } = {}) {
   const existing = await getQuoteById(id);
   if (!existing) return null;
+  if (expectedVersion != null && existing.version !== expectedVersion) {
+    throw versionConflict(existing);
+  }
 
   const updated = {
     ...existing,
@@ -496,7 +1380,7 @@ async function updateQuote(id, patch) {
     updatedAt: new Date().toISOString()
   };
 
-  await pool.query(
+  const { rows: saved } = await pool.query(
     `
       update quotes
       set title = $2,
@@ -512,8 +1396,13 @@ async function updateQuote(id, patch) {
           attachment_url = $12,
           status = $13,
           notes = $14,
-          updated_at = $15
-      where id = $1
+          updated_at = $15,
+          chase_interval_days = $16,
+          chase_escalate_after = $17,
+          email_template_id = $18,
+          version = version + 1
+      where id = $1 and ($19::integer is null or version = $19)
+      returning version
     `,
     [
       updated.id,
@@ -530,33 +1419,136 @@ async function updateQuote(id, patch) {
       updated.attachmentUrl,
       updated.status ?? null,
       updated.notes ?? null,
-      new Date(updated.updatedAt)
+      new Date(updated.updatedAt),
+      updated.chaseIntervalDays ?? null,
+      updated.chaseEscalateAfter ?? null,
+      updated.emailTemplateId ?? null,
+      expectedVersion
     ]
   );
+  // Changed between the read above and the update
+  if (saved.length === 0) {
+    const current = await getQuoteById(id);
+    if (!current) return null;
+    throw versionConflict(current);
+  }
+  updated.version = saved[0].version;
+
+  if (updated.stage !== existing.stage) {
+    await recordStageChange(pool, {
+      quoteId: id,
+      fromStage: existing.stage,
+      toStage: updated.stage,
+      changedBy
+    });
+    await resetChaseForStage(pool, id, updated.stage);
+    return getQuoteById(id);
+  }
 
   return updated;
 }
 
-async function updateQuotePositions(updates) {
+async function updateQuotePositions(updates, { changedBy = null } = {}) {
   // updates is an array of { id, position, stage }
+  // Use a dedicated client so that BEGIN/COMMIT apply to the same connection
+  const client = await pool.connect();
   try {
-    await pool.query('BEGIN');
+    await client.query('BEGIN');
     for (const { id, position, stage } of updates) {
-      await pool.query(
-        'update quotes set position = $1, stage = $2, updated_at = now() where id = $3',
+      const { rows } = await client.query(
+        'select stage from quotes where id = $1 for update',
+        [id]
+      );
+      if (!rows[0]) continue;
+      await client.query(
+        'update quotes set position = $1, stage = $2, updated_at = now(), version = version + 1 where id = $3',
         [position, stage, id]
       );
+      if (rows[0].stage !== stage) {
+        await recordStageChange(client, {
+          quoteId: id,
+          fromStage: rows[0].stage,
+          toStage: stage,
+          changedBy
+        });
+        await resetChaseForStage(client, id, stage);
+      }
     }
-    await pool.query('COMMIT');
+    await client.query('COMMIT');
   } catch (err) {
-    await pool.query('ROLLBACK');
+    await client.query('ROLLBACK');
     throw err;
+  } finally {
+    client.release();
   }
 }
 
+// Stage history. `db` is either the pool or a client inside a transaction.
+async function recordStageChange(db, { quoteId, fromStage, toStage, changedBy = null, changedAt = new Date() }) {
+  await db.query(
+    `insert into quote_stage_history (quote_id, from_stage, to_stage, changed_by, changed_at)
+     values ($1, $2, $3, $4, $5)`,
+    [quoteId, fromStage, toStage, changedBy, changedAt]
+  );
+}
+
+// SQL for a quote's effective chase interval: its own override, otherwise the
+// enabled cadence for the given stage expression.
+const chaseIntervalSql = (stageSql) => `coalesce(
+  q.chase_interval_days,
+  (select c.interval_days from chase_cadences c where c.stage = ${stageSql} and c.enabled)
+)`;
+
+// Called after a stage change: the unanswered-chase count starts again, and
+// the next chase is cleared for closed stages or scheduled from the stage's
+// cadence if none is set yet.
+async function resetChaseForStage(db, quoteId, stage) {
+  await db.query(
+    `update quotes q
+     set chase_count = 0,
+         chase_escalated_at = null,
+         next_chase_at = case
+           when $2 = any($3::text[]) then null
+           else coalesce(q.next_chase_at, now() + make_interval(days => ${chaseIntervalSql('$2')}))
+         end
+     where q.id = $1`,
+    [quoteId, stage, CLOSED_STAGES]
+  );
+}
+
+// Returns the stage changes oldest first, each with the time spent in the
+// stage it moved into (up to now for the current stage).
+async function getQuoteStageHistory(quoteId) {
+  const { rows } = await pool.query(
+    `select h.*, u.email as changed_by_name
+     from quote_stage_history h
+     left join users u on h.changed_by = u.id
+     where h.quote_id = $1
+     order by h.changed_at asc`,
+    [quoteId]
+  );
+  const now = new Date();
+  return rows.map((row, index) => {
+    const next = rows[index + 1];
+    const leftAt = next ? next.changed_at : null;
+    const durationMs = (leftAt || now).getTime() - row.changed_at.getTime();
+    return {
+      id: row.id,
+      quoteId: row.quote_id,
+      fromStage: row.from_stage || null,
+      toStage: row.to_stage,
+      changedBy: row.changed_by || null,
+      changedByName: row.changed_by_name || null,
+      changedAt: row.changed_at.toISOString(),
+      leftAt: leftAt ? leftAt.toISOString() : null,
+      daysInStage: Math.round((durationMs / (24 * 60 * 60 * 1000)) * 10) / 10
+    };
+  });
+}
+
 async function getQuoteById(id) {
   const { rows } = await pool.query(`
-    select q.*, c.name as customer_name, c.id as customer_id, u.email as created_by_name
+    select q.*, c.name as customer_name, c.id as customer_id, u.email as created_by_name, ${QUOTE_STAGE_COLUMNS}
     from quotes q
     left join customers c on q.customer_id = c.id
     left join users u on q.created_by = u.id
@@ -566,32 +1558,350 @@ async function getQuoteById(id) {
   return toQuoteDomain(rows[0]);
 }
 
-async function getDueReminders(now = new Date()) {
+// Archived quotes included, so callers can tell a quote was archived
+async function getQuotesByIds(ids) {
+  const { rows } = await pool.query(`
+    select q.*, c.name as customer_name, c.id as customer_id, u.email as created_by_name, ${QUOTE_STAGE_COLUMNS}
+    from quotes q
+    left join customers c on q.customer_id = c.id
+    left join users u on q.created_by = u.id
+    where q.id = any($1)
+  `, [ids]);
+  return rows.map(toQuoteDomain);
+}
+
+// Atomically reserve the next PDF version number for a quote
+async function nextQuotePdfVersion(id) {
   const { rows } = await pool.query(
+    'update quotes set pdf_version = pdf_version + 1 where id = $1 returning pdf_version',
+    [id]
+  );
+  return rows[0] ? rows[0].pdf_version : null;
+}
+
+// Reminder dispatch may run in several processes at once. Each instance
+// claims due quotes with `for update skip locked` and stamps a lease on them,
+// so a quote is only handed to one instance at a time. A lease that runs out
+// (the instance crashed mid-send) makes the quote claimable again.
+const CHASE_LEASE_SECONDS = 5 * 60;
+
+// Claims up to `limit` due quotes for workerId and returns them with the
+// effective escalation threshold and reminder template, and the contact
+// emails of the quote owner and their manager.
+async function claimDueReminders(workerId, { now = new Date(), limit = 50, leaseSeconds = CHASE_LEASE_SECONDS } = {}) {
+  const { rows: claimed } = await pool.query(
     `
-      select *
-      from quotes
-      where reminder_email is not null
-        and next_chase_at is not null
-        and next_chase_at <= $1
+      with due as (
+        select q.id
+        from quotes q
+        where q.reminder_email is not null
+          and q.next_chase_at is not null
+          and q.next_chase_at <= $1
+          and not (q.stage = any($2::text[]))
+          and q.archived_at is null
+          and (q.chase_claimed_until is null or q.chase_claimed_until < $1)
+        order by q.next_chase_at asc
+        limit $3
+        for update skip locked
+      )
+      update quotes q
+      set chase_claimed_by = $4,
+          chase_claimed_until = $1::timestamptz + make_interval(secs => $5)
+      from due
+      where q.id = due.id
+      returning q.id
     `,
-    [now]
+    [now, CLOSED_STAGES, limit, workerId, leaseSeconds]
   );
-  return rows.map(toQuoteDomain);
+  if (claimed.length === 0) return [];
+
+  const { rows } = await pool.query(
+    `
+      select q.*,
+        coalesce(q.chase_escalate_after, c.escalate_after) as effective_escalate_after,
+        coalesce(q.email_template_id, c.email_template_id) as effective_template_id,
+        owner.email as owner_name,
+        owner.contact_email as owner_email,
+        manager.contact_email as manager_email
+      from quotes q
+      left join chase_cadences c on c.stage = q.stage and c.enabled
+      left join users owner on owner.id = q.created_by
+      left join users manager on manager.id = owner.manager_id
+      where q.id = any($1::text[])
+      order by q.next_chase_at asc
+    `,
+    [claimed.map((row) => row.id)]
+  );
+  return rows.map((row) => ({
+    ...toQuoteDomain(row),
+    ownerName: row.owner_name || null,
+    ownerEmail: row.owner_email || null,
+    managerEmail: row.manager_email || null,
+    reminderTemplateId: row.effective_template_id || null,
+    escalateAfter: row.effective_escalate_after != null ? Number(row.effective_escalate_after) : null
+  }));
 }
 
-async function markReminderSent(id, at) {
-  const updatedAt = new Date();
+// Gives a claimed quote back without recording a chase, e.g. after an error
+async function releaseReminderClaim(id, workerId) {
   await pool.query(
+    `update quotes set chase_claimed_by = null, chase_claimed_until = null
+     where id = $1 and chase_claimed_by = $2`,
+    [id, workerId]
+  );
+}
+
+// Records a sent chase and schedules the next one from the effective cadence.
+// Without a cadence the reminder is one-off and next_chase_at is cleared.
+// Returns false when workerId no longer holds the claim, e.g. because the
+// send outlasted the lease and another worker claimed the quote.
+async function markReminderSent(id, workerId, at, { escalated = false } = {}) {
+  const { rowCount } = await pool.query(
     `
-      update quotes
+      update quotes q
       set last_chased_at = $2,
-          next_chase_at = null,
-          updated_at = $3
+          chase_count = q.chase_count + 1,
+          chase_escalated_at = case when $3 then coalesce(q.chase_escalated_at, $2) else q.chase_escalated_at end,
+          next_chase_at = $2::timestamptz + make_interval(days => ${chaseIntervalSql('q.stage')}),
+          chase_claimed_by = null,
+          chase_claimed_until = null,
+          updated_at = now(),
+          version = q.version + 1
+      where q.id = $1 and q.chase_claimed_by = $4
+    `,
+    [id, at, escalated, workerId]
+  );
+  return rowCount > 0;
+}
+
+// Email log functions
+async function createEmailLog(entry) {
+  const { rows } = await pool.query(
+    `
+      insert into email_log (
+        quote_id, kind, recipient, template_id, template_name, subject, body_text, body_html
+      )
+      values ($1, $2, $3, $4, $5, $6, $7, $8)
+      returning *
+    `,
+    [
+      entry.quoteId ?? null,
+      entry.kind,
+      entry.recipient,
+      entry.templateId ?? null,
+      entry.templateName ?? null,
+      entry.subject,
+      entry.bodyText,
+      entry.bodyHtml ?? null
+    ]
+  );
+  return toEmailLogDomain(rows[0]);
+}
+
+// Records the outcome of one delivery attempt
+async function recordEmailAttempt(id, { status, error = null, messageId = null, nextAttemptAt = null }) {
+  const { rows } = await pool.query(
+    `
+      update email_log
+      set status = $2,
+          attempts = attempts + 1,
+          error = $3,
+          message_id = coalesce($4, message_id),
+          next_attempt_at = $5,
+          sent_at = case when $2 = 'sent' then now() else sent_at end,
+          updated_at = now()
       where id = $1
+      returning *
     `,
-    [id, at, updatedAt]
+    [id, status, error, messageId, nextAttemptAt]
   );
+  return rows[0] ? toEmailLogDomain(rows[0]) : null;
+}
+
+// Claims failed emails that are due for another attempt. Claiming pushes
+// next_attempt_at out by the lease so that other scheduler instances skip
+// them; recordEmailAttempt then sets the real outcome.
+async function claimEmailRetries({ now = new Date(), limit = 50, leaseSeconds = CHASE_LEASE_SECONDS } = {}) {
+  const { rows } = await pool.query(
+    `
+      with due as (
+        select id from email_log
+        where status = 'retrying' and next_attempt_at <= $1
+        order by next_attempt_at asc
+        limit $2
+        for update skip locked
+      )
+      update email_log e
+      set next_attempt_at = $1::timestamptz + make_interval(secs => $3)
+      from due
+      where e.id = due.id
+      returning e.*
+    `,
+    [now, limit, leaseSeconds]
+  );
+  return rows.map(toEmailLogDomain);
+}
+
+async function getEmailLogByQuoteId(quoteId) {
+  const { rows } = await pool.query(
+    'select * from email_log where quote_id = $1 order by created_at desc',
+    [quoteId]
+  );
+  return rows.map(toEmailLogDomain);
+}
+
+function toEmailLogDomain(row) {
+  return {
+    id: row.id,
+    quoteId: row.quote_id || null,
+    kind: row.kind,
+    recipient: row.recipient,
+    templateId: row.template_id || null,
+    templateName: row.template_name || null,
+    subject: row.subject,
+    bodyText: row.body_text,
+    bodyHtml: row.body_html || null,
+    status: row.status,
+    attempts: Number(row.attempts),
+    error: row.error || null,
+    messageId: row.message_id || null,
+    nextAttemptAt: row.next_attempt_at ? row.next_attempt_at.toISOString() : null,
+    sentAt: row.sent_at ? row.sent_at.toISOString() : null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString()
+  };
+}
+
+// Chase cadence functions
+async function getChaseCadences() {
+  const { rows } = await pool.query('select * from chase_cadences order by stage');
+  return rows.map(toChaseCadenceDomain);
+}
+
+async function upsertChaseCadence(stage, { intervalDays, escalateAfter = null, enabled = true, emailTemplateId = null }) {
+  const { rows } = await pool.query(
+    `
+      insert into chase_cadences (stage, interval_days, escalate_after, enabled, email_template_id, updated_at)
+      values ($1, $2, $3, $4, $5, now())
+      on conflict (stage) do update
+        set interval_days = excluded.interval_days,
+            escalate_after = excluded.escalate_after,
+            enabled = excluded.enabled,
+            email_template_id = excluded.email_template_id,
+            updated_at = now()
+      returning *
+    `,
+    [stage, intervalDays, escalateAfter, enabled, emailTemplateId]
+  );
+  return toChaseCadenceDomain(rows[0]);
+}
+
+async function deleteChaseCadence(stage) {
+  const { rowCount } = await pool.query('delete from chase_cadences where stage = $1', [stage]);
+  return rowCount > 0;
+}
+
+function toChaseCadenceDomain(row) {
+  return {
+    stage: row.stage,
+    intervalDays: Number(row.interval_days),
+    escalateAfter: row.escalate_after != null ? Number(row.escalate_after) : null,
+    enabled: row.enabled,
+    emailTemplateId: row.email_template_id || null,
+    updatedAt: row.updated_at.toISOString()
+  };
+}
+
+// Email template functions
+async function getEmailTemplates() {
+  const { rows } = await pool.query('select * from email_templates order by kind, name');
+  return rows.map(toEmailTemplateDomain);
+}
+
+async function getEmailTemplateById(id) {
+  const { rows } = await pool.query('select * from email_templates where id = $1', [id]);
+  return rows[0] ? toEmailTemplateDomain(rows[0]) : null;
+}
+
+async function getDefaultEmailTemplate(kind) {
+  const { rows } = await pool.query(
+    'select * from email_templates where kind = $1 order by is_default desc, created_at asc limit 1',
+    [kind]
+  );
+  return rows[0] ? toEmailTemplateDomain(rows[0]) : null;
+}
+
+// Only one template per kind can be the default; marking one clears the rest.
+// An update without isDefault keeps the template's current default flag
+async function saveEmailTemplate(id, template) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const values = [
+      template.name,
+      template.kind,
+      template.subject,
+      template.bodyText,
+      template.bodyHtml || null,
+      id ? template.isDefault ?? null : !!template.isDefault
+    ];
+    const { rows } = id
+      ? await client.query(
+          `update email_templates
+           set name = $2, kind = $3, subject = $4, body_text = $5, body_html = $6,
+               is_default = coalesce($7, is_default), updated_at = now()
+           where id = $1
+           returning *`,
+          [id, ...values]
+        )
+      : await client.query(
+          `insert into email_templates (name, kind, subject, body_text, body_html, is_default)
+           values ($1, $2, $3, $4, $5, $6)
+           returning *`,
+          values
+        );
+    // One default per kind
+    if (rows[0] && rows[0].is_default) {
+      await client.query(
+        'update email_templates set is_default = false where kind = $1 and id <> $2',
+        [rows[0].kind, rows[0].id]
+      );
+    }
+    await client.query('COMMIT');
+    return rows[0] ? toEmailTemplateDomain(rows[0]) : null;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function createEmailTemplate(template) {
+  return saveEmailTemplate(null, template);
+}
+
+async function updateEmailTemplate(id, template) {
+  return saveEmailTemplate(id, template);
+}
+
+async function deleteEmailTemplate(id) {
+  const { rowCount } = await pool.query('delete from email_templates where id = $1', [id]);
+  return rowCount > 0;
+}
+
+function toEmailTemplateDomain(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    subject: row.subject,
+    bodyText: row.body_text,
+    bodyHtml: row.body_html || null,
+    isDefault: row.is_default,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString()
+  };
 }
 
 function toQuoteDomain(row) {
@@ -605,17 +1915,532 @@ function toQuoteDomain(row) {
     createdByName: row.created_by_name || null,
     value: row.value != null ? Number(row.value) : null,
     stage: row.stage,
+    stageEnteredAt: row.stage_entered_at ? row.stage_entered_at.toISOString() : null,
+    wonAt: row.won_at ? row.won_at.toISOString() : null,
     position: row.position != null ? Number(row.position) : 0,
     soNumber: row.so_number || null,
+    pdfVersion: row.pdf_version != null ? Number(row.pdf_version) : 0,
     lastChasedAt: row.last_chased_at ? row.last_chased_at.toISOString() : null,
     nextChaseAt: row.next_chase_at ? row.next_chase_at.toISOString() : null,
     reminderEmail: row.reminder_email,
+    chaseIntervalDays: row.chase_interval_days != null ? Number(row.chase_interval_days) : null,
+    chaseEscalateAfter: row.chase_escalate_after != null ? Number(row.chase_escalate_after) : null,
+    chaseCount: row.chase_count != null ? Number(row.chase_count) : 0,
+    chaseEscalatedAt: row.chase_escalated_at ? row.chase_escalated_at.toISOString() : null,
+    emailTemplateId: row.email_template_id || null,
     attachmentUrl: row.attachment_url,
     status: row.status || null,
     notes: row.notes || null,
+    version: row.version,
+    archivedAt: row.archived_at ? row.archived_at.toISOString() : null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString()
+  };
+}
+
+// Quote line item functions
+function roundMoney(amount) {
+  return Math.round(amount * 100) / 100;
+}
+
+// Per line: gross = quantity x unit price, the discount is taken off the
+// gross, and tax is charged on the discounted amount.
+function calculateLineTotals(item) {
+  const gross = roundMoney(item.quantity * item.unitPrice);
+  const discount = roundMoney(gross * (item.discountPercent / 100));
+  const net = roundMoney(gross - discount);
+  const tax = roundMoney(net * (item.taxRate / 100));
+  return { gross, discount, net, tax, total: roundMoney(net + tax) };
+}
+
+function calculateQuoteTotals(items) {
+  const totals = items.reduce(
+    (acc, item) => {
+      const line = calculateLineTotals(item);
+      acc.subtotal += line.gross;
+      acc.discount += line.discount;
+      acc.tax += line.tax;
+      acc.total += line.total;
+      return acc;
+    },
+    { subtotal: 0, discount: 0, tax: 0, total: 0 }
+  );
+  return {
+    subtotal: roundMoney(totals.subtotal),
+    discount: roundMoney(totals.discount),
+    tax: roundMoney(totals.tax),
+    total: roundMoney(totals.total)
+  };
+}
+
+async function getLineItemsByQuoteId(quoteId) {
+  const { rows } = await pool.query(
+    'select * from quote_line_items where quote_id = $1 order by position asc, created_at asc',
+    [quoteId]
+  );
+  return rows.map(toLineItemDomain);
+}
+
+async function createLineItem(quoteId, item) {
+  const { rows: maxPos } = await pool.query(
+    'select coalesce(max(position), 0) as max_pos from quote_line_items where quote_id = $1',
+    [quoteId]
+  );
+  const { rows } = await pool.query(
+    `insert into quote_line_items (quote_id, description, quantity, unit_price, discount_percent, tax_rate, position)
+     values ($1, $2, $3, $4, $5, $6, $7) returning *`,
+    [
+      quoteId,
+      item.description,
+      item.quantity ?? 1,
+      item.unitPrice ?? 0,
+      item.discountPercent ?? 0,
+      item.taxRate ?? 0,
+      item.position ?? Number(maxPos[0].max_pos) + 1
+    ]
+  );
+  await syncQuoteValue(quoteId);
+  return toLineItemDomain(rows[0]);
+}
+
+async function updateLineItem(quoteId, itemId, patch) {
+  const { rows: existingRows } = await pool.query(
+    'select * from quote_line_items where id = $1 and quote_id = $2',
+    [itemId, quoteId]
+  );
+  if (!existingRows[0]) return null;
+
+  const updated = {
+    ...toLineItemDomain(existingRows[0]),
+    ...patch
+  };
+
+  const { rows } = await pool.query(
+    `update quote_line_items
+     set description = $3, quantity = $4, unit_price = $5, discount_percent = $6,
+         tax_rate = $7, position = $8, updated_at = now()
+     where id = $1 and quote_id = $2
+     returning *`,
+    [
+      itemId,
+      quoteId,
+      updated.description,
+      updated.quantity,
+      updated.unitPrice,
+      updated.discountPercent,
+      updated.taxRate,
+      updated.position
+    ]
+  );
+  await syncQuoteValue(quoteId);
+  return toLineItemDomain(rows[0]);
+}
+
+async function deleteLineItem(quoteId, itemId) {
+  const { rowCount } = await pool.query(
+    'delete from quote_line_items where id = $1 and quote_id = $2',
+    [itemId, quoteId]
+  );
+  if (rowCount > 0) {
+    await syncQuoteValue(quoteId);
+  }
+  return rowCount > 0;
+}
+
+// Recompute quotes.value from the line items. Quotes without line items keep
+// their free-form value, so removing the last item leaves the value as-is.
+async function syncQuoteValue(quoteId) {
+  const items = await getLineItemsByQuoteId(quoteId);
+  if (items.length === 0) return null;
+  const totals = calculateQuoteTotals(items);
+  await pool.query(
+    'update quotes set value = $2, updated_at = now(), version = version + 1 where id = $1',
+    [quoteId, totals.total]
+  );
+  return totals;
+}
+
+function toLineItemDomain(row) {
+  const item = {
+    id: row.id,
+    quoteId: row.quote_id,
+    description: row.description,
+    quantity: Number(row.quantity),
+    unitPrice: Number(row.unit_price),
+    discountPercent: Number(row.discount_percent),
+    taxRate: Number(row.tax_rate),
+    position: row.position != null ? Number(row.position) : 0,
     createdAt: row.created_at.toISOString(),
     updatedAt: row.updated_at.toISOString()
   };
+  return { ...item, ...calculateLineTotals(item) };
+}
+
+// Quote attachment functions
+const QUOTE_ATTACHMENT_SELECT = `
+  select a.*, u.email as uploaded_by_name,
+         not exists (select 1 from quote_attachments n where n.supersedes_id = a.id) as latest
+  from quote_attachments a
+  left join users u on a.uploaded_by = u.id
+`;
+
+// Newest first
+async function getQuoteAttachments(quoteId) {
+  const { rows } = await pool.query(
+    `${QUOTE_ATTACHMENT_SELECT} where a.quote_id = $1 order by a.created_at desc, a.version desc`,
+    [quoteId]
+  );
+  return rows.map(toQuoteAttachmentDomain);
+}
+
+async function getQuoteAttachmentById(quoteId, id) {
+  const { rows } = await pool.query(
+    `${QUOTE_ATTACHMENT_SELECT} where a.quote_id = $1 and a.id = $2`,
+    [quoteId, id]
+  );
+  return rows[0] ? toQuoteAttachmentDomain(rows[0]) : null;
+}
+
+// Adds a file to a quote, as the next version of supersedesId when given, and
+// makes it the quote's current attachment. Returns null when supersedesId is
+// not an attachment of this quote. Throws a unique violation (23505) when
+// that attachment already has a newer version. Blocked files are recorded
+// but never become the current attachment.
+async function createQuoteAttachment(quoteId, {
+  fileUrl,
+  thumbnailUrl = null,
+  originalName = null,
+  mimeType = null,
+  sizeBytes = null,
+  label = null,
+  supersedesId = null,
+  source = 'upload',
+  uploadedBy = null,
+  scanStatus = 'unscanned',
+  scanSignature = null
+}) {
+  const client = await pool.connect();
+  let id;
+  try {
+    await client.query('BEGIN');
+    let version = 1;
+    if (supersedesId) {
+      const { rows } = await client.query(
+        'select version from quote_attachments where id = $1 and quote_id = $2',
+        [supersedesId, quoteId]
+      );
+      if (!rows[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      version = rows[0].version + 1;
+    }
+    const { rows } = await client.query(
+      `insert into quote_attachments
+         (quote_id, file_url, thumbnail_url, original_name, mime_type, size_bytes, label, version, supersedes_id,
+          source, uploaded_by, scan_status, scan_signature)
+       values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       returning id`,
+      [
+        quoteId, fileUrl, thumbnailUrl, originalName, mimeType, sizeBytes, label, version, supersedesId,
+        source, uploadedBy, scanStatus, scanSignature
+      ]
+    );
+    id = rows[0].id;
+    if (scanStatus !== 'blocked') {
+      await client.query(
+        'update quotes set attachment_url = $2, updated_at = now(), version = version + 1 where id = $1',
+        [quoteId, fileUrl]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+  return getQuoteAttachmentById(quoteId, id);
+}
+
+// Removes an attachment, linking the version after it to the one before so
+// the chain stays intact. If it was the quote's current attachment, the most
+// recent remaining file takes its place. Returns the deleted attachment so
+// the caller can remove the file, or null when it does not exist.
+async function deleteQuoteAttachment(quoteId, id) {
+  const attachment = await getQuoteAttachmentById(quoteId, id);
+  if (!attachment) return null;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows: next } = await client.query(
+      'select id from quote_attachments where supersedes_id = $1',
+      [id]
+    );
+    const { rowCount } = await client.query(
+      'delete from quote_attachments where id = $1 and quote_id = $2',
+      [id, quoteId]
+    );
+    if (rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    if (next[0]) {
+      await client.query(
+        'update quote_attachments set supersedes_id = $2 where id = $1',
+        [next[0].id, attachment.supersedesId]
+      );
+    }
+    await client.query(
+      `update quotes
+       set attachment_url = (
+             select file_url from quote_attachments
+             where quote_id = $1 and scan_status <> 'blocked'
+             order by created_at desc, version desc
+             limit 1
+           ),
+           updated_at = now(), version = version + 1
+       where id = $1 and attachment_url = $2`,
+      [quoteId, attachment.url]
+    );
+    await client.query('COMMIT');
+    return attachment;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// The quote or activity an uploaded file (by its /uploads/... URL) belongs
+// to, with the name and type it was uploaded with and whether it was blocked
+// by the virus scan, or null when no record refers to it. Thumbnails belong
+// to the quote of the image they show.
+async function findUploadOwner(fileUrl) {
+  const { rows: attachments } = await pool.query(
+    `select quote_id, file_url, original_name, mime_type, scan_status from quote_attachments
+     where file_url = $1 or thumbnail_url = $1
+     limit 1`,
+    [fileUrl]
+  );
+  if (attachments[0]) {
+    const row = attachments[0];
+    const isThumbnail = row.file_url !== fileUrl;
+    return {
+      entityType: 'quote',
+      entityId: row.quote_id,
+      originalName: isThumbnail ? null : row.original_name || null,
+      mimeType: isThumbnail ? 'image/jpeg' : row.mime_type || null,
+      blocked: row.scan_status === 'blocked'
+    };
+  }
+  const { rows: quotes } = await pool.query('select id from quotes where attachment_url = $1 limit 1', [fileUrl]);
+  if (quotes[0]) {
+    return { entityType: 'quote', entityId: quotes[0].id, originalName: null, mimeType: null, blocked: false };
+  }
+  const { rows: activities } = await pool.query(
+    `select id, blocked_attachment_url = $1 as blocked from activities
+     where attachment_url = $1 or blocked_attachment_url = $1
+     limit 1`,
+    [fileUrl]
+  );
+  if (activities[0]) {
+    return {
+      entityType: 'activity',
+      entityId: activities[0].id,
+      originalName: null,
+      mimeType: null,
+      blocked: activities[0].blocked
+    };
+  }
+  return null;
+}
+
+function toQuoteAttachmentDomain(row) {
+  return {
+    id: row.id,
+    quoteId: row.quote_id,
+    url: row.file_url,
+    thumbnailUrl: row.thumbnail_url || null,
+    originalName: row.original_name || null,
+    mimeType: row.mime_type || null,
+    sizeBytes: row.size_bytes != null ? Number(row.size_bytes) : null,
+    label: row.label || null,
+    version: row.version,
+    supersedesId: row.supersedes_id || null,
+    latest: row.latest,
+    source: row.source,
+    scanStatus: row.scan_status,
+    scanSignature: row.scan_signature || null,
+    uploadedBy: row.uploaded_by || null,
+    uploadedByName: row.uploaded_by_name || null,
+    createdAt: row.created_at.toISOString()
+  };
+}
+
+// Pipeline analytics
+//
+// Closing dates come from quote_stage_history: a quote counts as won or lost
+// on the date it last entered its current won/lost stage.
+
+const CLOSED_QUOTES_CTE = `
+  closed as (
+    select q.*,
+      (select max(h.changed_at) from quote_stage_history h
+        where h.quote_id = q.id and h.to_stage = q.stage) as closed_at
+    from quotes q
+    where q.stage in ('won', 'lost') and q.archived_at is null
+  )
+`;
+
+function toRate(won, lost) {
+  const decided = won + lost;
+  return decided > 0 ? Math.round((won / decided) * 1000) / 10 : null;
+}
+
+async function getWinLossByPeriod({ period, from, to }) {
+  const { rows } = await pool.query(
+    `
+      with ${CLOSED_QUOTES_CTE}
+      select date_trunc($1, closed_at) as period,
+             count(*) filter (where stage = 'won')::int as won,
+             count(*) filter (where stage = 'lost')::int as lost,
+             coalesce(sum(value) filter (where stage = 'won'), 0) as won_value,
+             coalesce(sum(value) filter (where stage = 'lost'), 0) as lost_value
+      from closed
+      where closed_at >= $2 and closed_at < $3
+      group by 1
+      order by 1
+    `,
+    [period, from, to]
+  );
+  const periods = rows.map((row) => ({
+    period: row.period.toISOString(),
+    won: row.won,
+    lost: row.lost,
+    wonValue: Number(row.won_value),
+    lostValue: Number(row.lost_value),
+    winRate: toRate(row.won, row.lost)
+  }));
+  const won = periods.reduce((sum, p) => sum + p.won, 0);
+  const lost = periods.reduce((sum, p) => sum + p.lost, 0);
+  return {
+    periods,
+    totals: {
+      won,
+      lost,
+      wonValue: periods.reduce((sum, p) => sum + p.wonValue, 0),
+      winRate: toRate(won, lost)
+    }
+  };
+}
+
+// Days from creation to the win, for quotes won within the range
+async function getCycleTime({ from, to }) {
+  const { rows } = await pool.query(
+    `
+      with ${CLOSED_QUOTES_CTE},
+      won as (
+        select extract(epoch from (closed_at - created_at)) / 86400 as days
+        from closed
+        where stage = 'won' and closed_at >= $1 and closed_at < $2
+      )
+      select count(*)::int as count,
+             avg(days) as average_days,
+             percentile_cont(0.5) within group (order by days) as median_days,
+             min(days) as min_days,
+             max(days) as max_days
+      from won
+    `,
+    [from, to]
+  );
+  const row = rows[0];
+  const round = (value) => (value != null ? Math.round(Number(value) * 10) / 10 : null);
+  return {
+    count: row.count,
+    averageDays: round(row.average_days),
+    medianDays: round(row.median_days),
+    minDays: round(row.min_days),
+    maxDays: round(row.max_days)
+  };
+}
+
+async function getPipelineByStage() {
+  const { rows } = await pool.query(`
+    select stage, count(*)::int as count, coalesce(sum(value), 0) as value
+    from quotes
+    where archived_at is null
+    group by stage
+  `);
+  const byStage = Object.fromEntries(rows.map((row) => [row.stage, row]));
+  return Object.keys(STAGE_PROBABILITIES).map((stage) => ({
+    stage,
+    count: byStage[stage] ? byStage[stage].count : 0,
+    value: byStage[stage] ? Number(byStage[stage].value) : 0
+  }));
+}
+
+// Open pipeline value weighted by the probability of each stage closing as won
+async function getWeightedForecast() {
+  const pipeline = await getPipelineByStage();
+  const stages = pipeline
+    .filter((row) => OPEN_STAGES.includes(row.stage))
+    .map((row) => {
+      const probability = STAGE_PROBABILITIES[row.stage];
+      return {
+        ...row,
+        probability,
+        weightedValue: Math.round(row.value * probability * 100) / 100
+      };
+    });
+  return {
+    stages,
+    openValue: stages.reduce((sum, row) => sum + row.value, 0),
+    weightedValue: Math.round(stages.reduce((sum, row) => sum + row.weightedValue, 0) * 100) / 100
+  };
+}
+
+const BREAKDOWN_DIMENSIONS = {
+  customer: `coalesce(c.name, q.client_name)`,
+  industry: `coalesce(nullif(c.industry, ''), 'Unspecified')`,
+  creator: `coalesce(u.email, 'Unknown')`
+};
+
+// Quotes created within the range, grouped by customer, industry or creator
+async function getPipelineBreakdown({ by, from, to }) {
+  const dimension = BREAKDOWN_DIMENSIONS[by];
+  if (!dimension) {
+    throw new Error(`Unknown breakdown dimension: ${by}`);
+  }
+  const { rows } = await pool.query(
+    `
+      select ${dimension} as label,
+             count(*)::int as quotes,
+             count(*) filter (where q.stage = any($3))::int as open,
+             count(*) filter (where q.stage = 'won')::int as won,
+             count(*) filter (where q.stage = 'lost')::int as lost,
+             coalesce(sum(q.value) filter (where q.stage = any($3)), 0) as open_value,
+             coalesce(sum(q.value) filter (where q.stage = 'won'), 0) as won_value
+      from quotes q
+      left join customers c on q.customer_id = c.id
+      left join users u on q.created_by = u.id
+      where q.created_at >= $1 and q.created_at < $2 and q.archived_at is null
+      group by 1
+      order by won_value desc, open_value desc, label asc
+    `,
+    [from, to, OPEN_STAGES]
+  );
+  return rows.map((row) => ({
+    label: row.label,
+    quotes: row.quotes,
+    open: row.open,
+    won: row.won,
+    lost: row.lost,
+    openValue: Number(row.open_value),
+    wonValue: Number(row.won_value),
+    winRate: toRate(row.won, row.lost)
+  }));
 }
 
 // Contact functions
@@ -627,6 +2452,18 @@ async function getContactsByCustomerId(customerId) {
   return rows.map(toContactDomain);
 }
 
+// Contacts of every live customer, for exports
+async function getAllContacts() {
+  const { rows } = await pool.query(
+    `select c.*
+     from contacts c
+     join customers cust on c.customer_id = cust.id
+     where cust.archived_at is null
+     order by cust.name, c.last_name, c.first_name`
+  );
+  return rows.map(toContactDomain);
+}
+
 async function createContact(contact) {
   const { rows } = await pool.query(
     `insert into contacts (customer_id, first_name, last_name, email, phone, job_title, notes)
@@ -672,8 +2509,17 @@ async function updateContact(id, patch) {
   return toContactDomain(updated);
 }
 
+async function getContactById(id) {
+  const { rows } = await pool.query('select * from contacts where id = $1', [id]);
+  if (!rows[0]) return null;
+  return toContactDomain(rows[0]);
+}
+
+// Returns the deleted contact, or null when it did not exist
 async function deleteContact(id) {
-  await pool.query('delete from contacts where id = $1', [id]);
+  const { rows } = await pool.query('delete from contacts where id = $1 returning *', [id]);
+  if (!rows[0]) return null;
+  return toContactDomain(rows[0]);
 }
 
 function toContactDomain(row) {
@@ -698,13 +2544,40 @@ async function getActivitiesByCustomerId(customerId) {
      from activities a
      left join contacts c on a.contact_id = c.id
      left join quotes q on a.quote_id = q.id
-     where a.customer_id = $1
+     where a.customer_id = $1 and a.archived_at is null
      order by a.activity_date desc`,
     [customerId]
   );
   return rows.map(toActivityDomain);
 }
 
+async function getAllActivities() {
+  const { rows } = await pool.query(
+    `select a.*, c.first_name, c.last_name, q.title as quote_title, cust.name as customer_name
+     from activities a
+     left join contacts c on a.contact_id = c.id
+     left join quotes q on a.quote_id = q.id
+     left join customers cust on a.customer_id = cust.id
+     where a.archived_at is null
+     order by a.activity_date desc`
+  );
+  return rows.map(toActivityDomain);
+}
+
+// Archived activities included, as for getQuotesByIds
+async function getActivitiesByIds(ids) {
+  const { rows } = await pool.query(
+    `select a.*, c.first_name, c.last_name, q.title as quote_title, cust.name as customer_name
+     from activities a
+     left join contacts c on a.contact_id = c.id
+     left join quotes q on a.quote_id = q.id
+     left join customers cust on a.customer_id = cust.id
+     where a.id = any($1)`,
+    [ids]
+  );
+  return rows.map(toActivityDomain);
+}
+
 async function createActivity(activity) {
   const { rows } = await pool.query(
     `insert into activities (customer_id, contact_id, quote_id, type, subject, description, attachment_url, activity_date)
@@ -733,9 +2606,18 @@ function toActivityDomain(row) {
     subject: row.subject || null,
     description: row.description || null,
     attachmentUrl: row.attachment_url || null,
+    blockedAttachment: row.blocked_attachment_url
+      ? {
+          url: row.blocked_attachment_url,
+          name: row.blocked_attachment_name || null,
+          signature: row.blocked_attachment_signature || null
+        }
+      : null,
     activityDate: row.activity_date.toISOString(),
     contactName: row.first_name && row.last_name ? `${row.first_name} ${row.last_name}` : null,
     quoteTitle: row.quote_title || null,
+    customerName: row.customer_name || null,
+    archivedAt: row.archived_at ? row.archived_at.toISOString() : null,
     createdAt: row.created_at.toISOString(),
     updatedAt: row.updated_at.toISOString()
   };
@@ -749,14 +2631,31 @@ async function getTasksByCustomerId(customerId) {
      left join contacts c on t.contact_id = c.id
      left join quotes q on t.quote_id = q.id
      left join users u on t.assigned_to = u.id
-     where t.customer_id = $1
+     where t.customer_id = $1 and t.archived_at is null
      order by t.due_date nulls last, t.created_at desc`,
     [customerId]
   );
   return rows.map(toTaskDomain);
 }
 
-async function getAllTasks() {
+// Open tasks only, unless includeCompleted is set
+async function getAllTasks({ includeCompleted = false } = {}) {
+  const { rows } = await pool.query(
+    `select t.*, c.first_name, c.last_name, q.title as quote_title, cust.name as customer_name, u.email as assigned_to_name
+     from tasks t
+     left join contacts c on t.contact_id = c.id
+     left join quotes q on t.quote_id = q.id
+     left join customers cust on t.customer_id = cust.id
+     left join users u on t.assigned_to = u.id
+     where ($1 or t.completed = false) and t.archived_at is null
+     order by t.due_date nulls last, t.created_at desc`,
+    [includeCompleted]
+  );
+  return rows.map(toTaskDomain);
+}
+
+// Archived tasks included, as for getQuotesByIds
+async function getTasksByIds(ids) {
   const { rows } = await pool.query(
     `select t.*, c.first_name, c.last_name, q.title as quote_title, cust.name as customer_name, u.email as assigned_to_name
      from tasks t
@@ -764,8 +2663,8 @@ async function getAllTasks() {
      left join quotes q on t.quote_id = q.id
      left join customers cust on t.customer_id = cust.id
      left join users u on t.assigned_to = u.id
-     where t.completed = false
-     order by t.due_date nulls last, t.created_at desc`
+     where t.id = any($1)`,
+    [ids]
   );
   return rows.map(toTaskDomain);
 }
@@ -778,7 +2677,7 @@ async function getTasksByUserId(userId) {
      left join quotes q on t.quote_id = q.id
      left join customers cust on t.customer_id = cust.id
      left join users u on t.assigned_to = u.id
-     where t.assigned_to = $1 and t.completed = false
+     where t.assigned_to = $1 and t.completed = false and t.archived_at is null
      order by t.due_date nulls last, t.created_at desc`,
     [userId]
   );
@@ -803,20 +2702,26 @@ async function createTask(task) {
   return toTaskDomain(rows[0]);
 }
 
-async function updateTask(id, patch) {
+// expectedVersion works as for updateQuote
+async function updateTask(id, patch, { expectedVersion = null } = {}) {
   const existing = await pool.query('select * from tasks where id = $1', [id]);
   if (!existing.rows[0]) return null;
+  if (expectedVersion != null && existing.rows[0].version !== expectedVersion) {
+    throw versionConflict(toTaskDomain(existing.rows[0]));
+  }
 
   const updated = {
     ...existing.rows[0],
     ...patch,
+    due_date: patch.dueDate !== undefined ? patch.dueDate : existing.rows[0].due_date,
     updated_at: new Date()
   };
 
-  await pool.query(
+  const { rowCount } = await pool.query(
     `update tasks
-     set title = $2, description = $3, due_date = $4, completed = $5, priority = $6, updated_at = $7
-     where id = $1`,
+     set title = $2, description = $3, due_date = $4, completed = $5, priority = $6, updated_at = $7,
+         version = version + 1
+     where id = $1 and ($8::integer is null or version = $8)`,
     [
       id,
       updated.title,
@@ -824,10 +2729,13 @@ async function updateTask(id, patch) {
       updated.due_date ? new Date(updated.due_date) : null,
       updated.completed !== undefined ? updated.completed : existing.rows[0].completed,
       updated.priority || 'medium',
-      updated.updated_at
+      updated.updated_at,
+      expectedVersion
     ]
   );
   const { rows } = await pool.query('select * from tasks where id = $1', [id]);
+  if (!rows[0]) return null;
+  if (rowCount === 0) throw versionConflict(toTaskDomain(rows[0]));
   return toTaskDomain(rows[0]);
 }
 
@@ -847,11 +2755,244 @@ function toTaskDomain(row) {
     contactName: row.first_name && row.last_name ? `${row.first_name} ${row.last_name}` : null,
     quoteTitle: row.quote_title || null,
     customerName: row.customer_name || null,
+    version: row.version,
+    archivedAt: row.archived_at ? row.archived_at.toISOString() : null,
     createdAt: row.created_at.toISOString(),
     updatedAt: row.updated_at.toISOString()
   };
 }
 
+// Archive (soft delete) and permanent delete
+const ARCHIVABLE_TABLES = {
+  quote: 'quotes',
+  customer: 'customers',
+  task: 'tasks',
+  activity: 'activities'
+};
+
+// Rows archived along with their customer
+const CUSTOMER_CHILD_TABLES = ['quotes', 'tasks', 'activities'];
+
+// Archives or restores one row. Returns false when it does not exist.
+//
+// Archiving a customer also archives its quotes, tasks and activities, with
+// the customer's archived_at. Restoring it restores the ones archived with
+// it; anything archived on its own beforehand stays archived.
+async function setArchived(entity, id, { archived, archivedBy = null }) {
+  const table = ARCHIVABLE_TABLES[entity];
+  if (!table) {
+    throw new Error(`Unknown archivable entity: ${entity}`);
+  }
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows: current } = await client.query(`select archived_at from ${table} where id = $1 for update`, [id]);
+    if (current.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+    const archivedAt = current[0].archived_at;
+    // Archiving something already archived is not an error
+    if (archived && !archivedAt) {
+      await client.query(`update ${table} set archived_at = now(), archived_by = $2 where id = $1`, [id, archivedBy]);
+      if (entity === 'customer') {
+        for (const child of CUSTOMER_CHILD_TABLES) {
+          await client.query(
+            `update ${child} set archived_at = now(), archived_by = $2 where customer_id = $1 and archived_at is null`,
+            [id, archivedBy]
+          );
+        }
+      }
+    } else if (!archived && archivedAt) {
+      await client.query(`update ${table} set archived_at = null, archived_by = null where id = $1`, [id]);
+      if (entity === 'customer') {
+        for (const child of CUSTOMER_CHILD_TABLES) {
+          await client.query(
+            `update ${child} set archived_at = null, archived_by = null where customer_id = $1 and archived_at = $2`,
+            [id, archivedAt]
+          );
+        }
+      }
+    }
+    await client.query('COMMIT');
+    return true;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Everything archived, newest first, with who archived it
+async function getArchivedItems() {
+  const [quotes, customers, tasks, activities] = await Promise.all([
+    pool.query(`
+      select q.*, c.name as customer_name, u.email as created_by_name, a.email as archived_by_name, ${QUOTE_STAGE_COLUMNS}
+      from quotes q
+      left join customers c on q.customer_id = c.id
+      left join users u on q.created_by = u.id
+      left join users a on q.archived_by = a.id
+      where q.archived_at is not null
+      order by q.archived_at desc
+    `),
+    pool.query(`
+      select c.*, a.email as archived_by_name
+      from customers c
+      left join users a on c.archived_by = a.id
+      where c.archived_at is not null
+      order by c.archived_at desc
+    `),
+    pool.query(`
+      select t.*, q.title as quote_title, cust.name as customer_name, u.email as assigned_to_name, a.email as archived_by_name
+      from tasks t
+      left join quotes q on t.quote_id = q.id
+      left join customers cust on t.customer_id = cust.id
+      left join users u on t.assigned_to = u.id
+      left join users a on t.archived_by = a.id
+      where t.archived_at is not null
+      order by t.archived_at desc
+    `),
+    pool.query(`
+      select act.*, c.first_name, c.last_name, q.title as quote_title, cust.name as customer_name, a.email as archived_by_name
+      from activities act
+      left join contacts c on act.contact_id = c.id
+      left join quotes q on act.quote_id = q.id
+      left join customers cust on act.customer_id = cust.id
+      left join users a on act.archived_by = a.id
+      where act.archived_at is not null
+      order by act.archived_at desc
+    `)
+  ]);
+  const withArchivedBy = (toDomain) => (row) => ({
+    ...toDomain(row),
+    archivedByName: row.archived_by_name || null
+  });
+  return {
+    quotes: quotes.rows.map(withArchivedBy(toQuoteDomain)),
+    customers: customers.rows.map(withArchivedBy(toCustomerDomain)),
+    tasks: tasks.rows.map(withArchivedBy(toTaskDomain)),
+    activities: activities.rows.map(withArchivedBy(toActivityDomain))
+  };
+}
+
+// Permanent deletes. Each returns null when the row does not exist, otherwise
+// the upload URLs that belonged to it so the caller can remove the files.
+// Line items, attachments, stage history and email log rows go with the quote
+// (on delete cascade); tasks and activities that referenced it are kept.
+async function deleteQuote(id) {
+  const { rows: attachments } = await pool.query(
+    'select file_url, thumbnail_url from quote_attachments where quote_id = $1',
+    [id]
+  );
+  const { rows } = await pool.query('delete from quotes where id = $1 returning attachment_url', [id]);
+  if (!rows[0]) return null;
+  return {
+    attachmentUrls: [
+      rows[0].attachment_url,
+      ...attachments.flatMap((row) => [row.file_url, row.thumbnail_url])
+    ].filter(Boolean)
+  };
+}
+
+// Contacts, activities and tasks are removed with the customer; its quotes
+// are kept but unlinked.
+async function deleteCustomer(id) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows: activities } = await client.query(
+      'select attachment_url from activities where customer_id = $1 and attachment_url is not null',
+      [id]
+    );
+    const { rowCount } = await client.query('delete from customers where id = $1', [id]);
+    await client.query('COMMIT');
+    if (rowCount === 0) return null;
+    return { attachmentUrls: activities.map((row) => row.attachment_url) };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function deleteTask(id) {
+  const { rowCount } = await pool.query('delete from tasks where id = $1', [id]);
+  return rowCount > 0 ? { attachmentUrls: [] } : null;
+}
+
+async function deleteActivity(id) {
+  const { rows } = await pool.query('delete from activities where id = $1 returning attachment_url', [id]);
+  if (!rows[0]) return null;
+  return { attachmentUrls: [rows[0].attachment_url].filter(Boolean) };
+}
+
+// Audit log
+async function insertAuditEntries(entries) {
+  if (entries.length === 0) return;
+  const values = [];
+  const params = [];
+  entries.forEach((entry, index) => {
+    const base = index * 6;
+    values.push(`($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6})`);
+    params.push(
+      entry.actorId,
+      entry.actorName,
+      entry.entityType,
+      entry.entityId,
+      entry.action,
+      JSON.stringify(entry.changes)
+    );
+  });
+  await pool.query(
+    `insert into audit_log (actor_id, actor_name, entity_type, entity_id, action, changes)
+     values ${values.join(', ')}`,
+    params
+  );
+}
+
+// Newest first. `to` is exclusive. Returns one page of entries and the total
+// number that match.
+async function searchAuditLog({ actorId = null, entityType = null, entityId = null, from = null, to = null, limit = 50, offset = 0 } = {}) {
+  const conditions = [];
+  const params = [];
+  const add = (sql, value) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+  if (actorId) add('actor_id = ?', actorId);
+  if (entityType) add('entity_type = ?', entityType);
+  if (entityId) add('entity_id = ?', entityId);
+  if (from) add('created_at >= ?', from);
+  if (to) add('created_at < ?', to);
+  const where = conditions.length > 0 ? `where ${conditions.join(' and ')}` : '';
+
+  const [{ rows }, { rows: count }] = await Promise.all([
+    pool.query(
+      `select * from audit_log ${where}
+       order by created_at desc, id
+       limit $${params.length + 1} offset $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    pool.query(`select count(*)::int as total from audit_log ${where}`, params)
+  ]);
+  return { entries: rows.map(toAuditEntryDomain), total: count[0].total };
+}
+
+function toAuditEntryDomain(row) {
+  return {
+    id: row.id,
+    actorId: row.actor_id || null,
+    actorName: row.actor_name || null,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    action: row.action,
+    changes: row.changes,
+    createdAt: row.created_at.toISOString()
+  };
+}
+
 module.exports = {
   pool,
   initDb,
@@ -859,27 +3000,98 @@ module.exports = {
   insertQuote,
   updateQuote,
   updateQuotePositions,
+  getQuoteStageHistory,
   getQuoteById,
-  getDueReminders,
+  getQuotesByIds,
+  nextQuotePdfVersion,
+  setArchived,
+  getArchivedItems,
+  deleteQuote,
+  deleteCustomer,
+  deleteTask,
+  deleteActivity,
+  claimDueReminders,
+  releaseReminderClaim,
   markReminderSent,
+  createEmailLog,
+  recordEmailAttempt,
+  claimEmailRetries,
+  getEmailLogByQuoteId,
+  getChaseCadences,
+  upsertChaseCadence,
+  deleteChaseCadence,
+  getEmailTemplates,
+  getEmailTemplateById,
+  getDefaultEmailTemplate,
+  createEmailTemplate,
+  updateEmailTemplate,
+  deleteEmailTemplate,
+  getQuoteAttachments,
+  getQuoteAttachmentById,
+  createQuoteAttachment,
+  deleteQuoteAttachment,
+  findUploadOwner,
+  getLineItemsByQuoteId,
+  createLineItem,
+  updateLineItem,
+  deleteLineItem,
+  calculateQuoteTotals,
+  getWinLossByPeriod,
+  getCycleTime,
+  getPipelineByStage,
+  getWeightedForecast,
+  getPipelineBreakdown,
   createUser,
   findUserByEmail,
-  ensureAdminUser,
+  findUserById,
+  getAllUsers,
+  getUsersByStatus,
+  setUserStatus,
+  setUserRole,
+  setUserManager,
+  toUserDomain,
+  hasAdminUser,
+  createSetupToken,
+  findValidSetupToken,
+  markSetupTokenUsed,
+  createSession,
+  getActiveSession,
+  rotateSession,
+  revokeSessionByPreviousToken,
+  touchSession,
+  revokeSession,
+  revokeUserSessions,
+  getUserSessions,
+  pruneSessions,
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  findUsersByLogin,
+  setUserPassword,
   getAllCustomers,
   getCustomerById,
+  findCustomerByName,
   findOrCreateCustomer,
+  mergeCustomers,
+  importRows,
   updateCustomer,
   getQuotesByCustomerId,
   getContactsByCustomerId,
+  getAllContacts,
+  getContactById,
   createContact,
   updateContact,
   deleteContact,
   getActivitiesByCustomerId,
+  getAllActivities,
+  getActivitiesByIds,
   createActivity,
   pool,
   getTasksByCustomerId,
   getAllTasks,
+  getTasksByIds,
   getTasksByUserId,
   createTask,
-  updateTask
+  updateTask,
+  insertAuditEntries,
+  searchAuditLog
 };
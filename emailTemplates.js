@@ -0,0 +1,151 @@
+// Email templates for quote reminders and escalations.
+//
+// Templates are stored in the email_templates table and edited by admins.
+// Subjects and bodies may contain {{placeholders}} such as {{quote.title}} or
+// {{contact.firstName}}; unknown or empty placeholders render as blank text.
+// Values inserted into the HTML part are escaped.
+
+const { STAGE_TITLES } = require('./stages');
+
+const TEMPLATE_KINDS = ['reminder', 'escalation'];
+
+const PLACEHOLDERS = [
+  { key: 'quote.title', description: 'Quote title' },
+  { key: 'quote.reference', description: 'SO number, or the quote ID when there is none' },
+  { key: 'quote.clientName', description: 'Client name entered on the quote' },
+  { key: 'quote.value', description: 'Quote value, formatted as currency' },
+  { key: 'quote.stage', description: 'Current stage' },
+  { key: 'quote.notes', description: 'Quote notes' },
+  { key: 'quote.lastChasedAt', description: 'Date the quote was last chased' },
+  { key: 'quote.chaseNumber', description: 'Number of this chase in the current stage' },
+  { key: 'quote.chaseCount', description: 'Chases already sent in the current stage' },
+  { key: 'quote.reminderEmail', description: 'Address reminders are sent to' },
+  { key: 'customer.name', description: 'Customer name' },
+  { key: 'customer.email', description: 'Customer email' },
+  { key: 'customer.phone', description: 'Customer phone' },
+  { key: 'customer.address', description: 'Customer address' },
+  { key: 'customer.industry', description: 'Customer industry' },
+  { key: 'contact.firstName', description: 'Contact first name' },
+  { key: 'contact.lastName', description: 'Contact last name' },
+  { key: 'contact.fullName', description: 'Contact full name' },
+  { key: 'contact.email', description: 'Contact email' },
+  { key: 'contact.phone', description: 'Contact phone' },
+  { key: 'contact.jobTitle', description: 'Contact job title' },
+  { key: 'owner.name', description: 'Username of the quote owner' },
+  { key: 'owner.email', description: 'Email of the quote owner' },
+  { key: 'company.name', description: 'COMPANY_NAME setting' }
+];
+
+// Built-in templates, used to seed email_templates and as a fallback when no
+// stored template exists for a kind.
+const DEFAULT_TEMPLATES = {
+  reminder: {
+    name: 'Default reminder',
+    subject: 'Quote follow-up: {{quote.title}} for {{quote.clientName}}',
+    bodyText: [
+      'This is a reminder to chase the quote "{{quote.title}}" for client "{{quote.clientName}}".',
+      '',
+      'Current stage: {{quote.stage}}',
+      'Value: {{quote.value}}',
+      '',
+      'Last chased: {{quote.lastChasedAt}}',
+      'Chase number: {{quote.chaseNumber}}'
+    ].join('\n'),
+    bodyHtml: ''
+  },
+  escalation: {
+    name: 'Default escalation',
+    subject: 'Escalation: {{quote.title}} for {{quote.clientName}} has not responded',
+    bodyText: [
+      'The quote "{{quote.title}}" for client "{{quote.clientName}}" has been chased {{quote.chaseCount}} times without a response.',
+      '',
+      'Owner: {{owner.name}}',
+      'Current stage: {{quote.stage}}',
+      'Value: {{quote.value}}',
+      'Chases sent to: {{quote.reminderEmail}}'
+    ].join('\n'),
+    bodyHtml: ''
+  }
+};
+
+function formatMoney(amount) {
+  if (amount == null) return 'N/A';
+  return `£${Number(amount).toLocaleString('en-GB', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  })}`;
+}
+
+function formatDate(value) {
+  if (!value) return 'Never';
+  return new Date(value).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  });
+}
+
+// Flattens the records a template can refer to into placeholder values
+function buildTemplateContext({ quote, customer = null, contact = null, owner = null }) {
+  const chaseCount = quote.chaseCount || 0;
+  return {
+    'quote.title': quote.title,
+    'quote.reference': quote.soNumber || quote.id,
+    'quote.clientName': quote.clientName,
+    'quote.value': formatMoney(quote.value),
+    'quote.stage': STAGE_TITLES[quote.stage] || quote.stage,
+    'quote.notes': quote.notes,
+    'quote.lastChasedAt': formatDate(quote.lastChasedAt),
+    'quote.chaseNumber': String(chaseCount + 1),
+    'quote.chaseCount': String(chaseCount),
+    'quote.reminderEmail': quote.reminderEmail,
+    'customer.name': customer?.name || quote.customerName,
+    'customer.email': customer?.email,
+    'customer.phone': customer?.phone,
+    'customer.address': customer?.address,
+    'customer.industry': customer?.industry,
+    'contact.firstName': contact?.firstName,
+    'contact.lastName': contact?.lastName,
+    'contact.fullName': contact ? `${contact.firstName} ${contact.lastName}` : null,
+    'contact.email': contact?.email,
+    'contact.phone': contact?.phone,
+    'contact.jobTitle': contact?.jobTitle,
+    'owner.name': owner?.username || 'Unknown',
+    'owner.email': owner?.email,
+    'company.name': process.env.COMPANY_NAME || 'Quote Portal'
+  };
+}
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function fillPlaceholders(source, context, { html = false } = {}) {
+  return (source || '').replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, key) => {
+    const value = context[key];
+    if (value == null) return '';
+    return html ? escapeHtml(value) : String(value);
+  });
+}
+
+// Renders { subject, text, html }. html is null when the template has no HTML part.
+function renderTemplate(template, context) {
+  return {
+    subject: fillPlaceholders(template.subject, context).replace(/\s+/g, ' ').trim(),
+    text: fillPlaceholders(template.bodyText, context),
+    html: template.bodyHtml ? fillPlaceholders(template.bodyHtml, context, { html: true }) : null
+  };
+}
+
+module.exports = {
+  TEMPLATE_KINDS,
+  PLACEHOLDERS,
+  DEFAULT_TEMPLATES,
+  buildTemplateContext,
+  renderTemplate
+};
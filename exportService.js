@@ -0,0 +1,213 @@
+const ExcelJS = require('exceljs');
+const {
+  getAllQuotes,
+  getAllCustomers,
+  getAllContacts,
+  getAllActivities,
+  getAllTasks
+} = require('./db');
+const { toCsv } = require('./csvImport');
+const { STAGE_TITLES } = require('./stages');
+
+// CSV and Excel exports of the pipeline and CRM data.
+//
+// Each dataset is described as one or more sheets of typed columns. Excel
+// files get one worksheet per sheet with real numbers and dates; CSV files
+// hold a single sheet, so customers and their contacts are flattened to one
+// row per contact.
+
+const EXPORT_FORMATS = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: {
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  }
+};
+
+const QUOTE_COLUMNS = [
+  { header: 'Quote ID', value: (q) => q.id },
+  { header: 'Title', value: (q) => q.title },
+  { header: 'Client', value: (q) => q.clientName },
+  { header: 'Customer', value: (q) => q.customerName },
+  { header: 'Stage', value: (q) => STAGE_TITLES[q.stage] || q.stage },
+  { header: 'Value', type: 'money', value: (q) => q.value },
+  { header: 'SO number', value: (q) => q.soNumber },
+  { header: 'Status', value: (q) => q.status },
+  { header: 'Created by', value: (q) => q.createdByName },
+  { header: 'Created', type: 'date', value: (q) => q.createdAt },
+  { header: 'In stage since', type: 'date', value: (q) => q.stageEnteredAt },
+  { header: 'Won', type: 'date', value: (q) => q.wonAt },
+  { header: 'Last chased', type: 'date', value: (q) => q.lastChasedAt },
+  { header: 'Next chase', type: 'date', value: (q) => q.nextChaseAt },
+  { header: 'Reminder email', value: (q) => q.reminderEmail },
+  { header: 'Chases sent', type: 'number', value: (q) => q.chaseCount },
+  { header: 'Notes', value: (q) => q.notes }
+];
+
+const CUSTOMER_COLUMNS = [
+  { header: 'Customer', value: (c) => c.name },
+  { header: 'Email', value: (c) => c.email },
+  { header: 'Phone', value: (c) => c.phone },
+  { header: 'Website', value: (c) => c.website },
+  { header: 'Address', value: (c) => c.address },
+  { header: 'Industry', value: (c) => c.industry },
+  { header: 'Notes', value: (c) => c.notes },
+  { header: 'Created', type: 'date', value: (c) => c.createdAt }
+];
+
+const CONTACT_COLUMNS = [
+  { header: 'First name', value: (c) => c.firstName },
+  { header: 'Last name', value: (c) => c.lastName },
+  { header: 'Contact email', value: (c) => c.email },
+  { header: 'Contact phone', value: (c) => c.phone },
+  { header: 'Job title', value: (c) => c.jobTitle },
+  { header: 'Contact notes', value: (c) => c.notes }
+];
+
+const ACTIVITY_COLUMNS = [
+  { header: 'Date', type: 'date', value: (a) => a.activityDate },
+  { header: 'Customer', value: (a) => a.customerName },
+  { header: 'Type', value: (a) => a.type },
+  { header: 'Subject', value: (a) => a.subject },
+  { header: 'Description', value: (a) => a.description },
+  { header: 'Contact', value: (a) => a.contactName },
+  { header: 'Quote', value: (a) => a.quoteTitle },
+  { header: 'Has attachment', type: 'boolean', value: (a) => Boolean(a.attachmentUrl) }
+];
+
+const TASK_COLUMNS = [
+  { header: 'Title', value: (t) => t.title },
+  { header: 'Customer', value: (t) => t.customerName },
+  { header: 'Quote', value: (t) => t.quoteTitle },
+  { header: 'Contact', value: (t) => t.contactName },
+  { header: 'Assigned to', value: (t) => t.assignedToName },
+  { header: 'Due', type: 'date', value: (t) => t.dueDate },
+  { header: 'Priority', value: (t) => t.priority },
+  { header: 'Completed', type: 'boolean', value: (t) => t.completed },
+  { header: 'Description', value: (t) => t.description },
+  { header: 'Created', type: 'date', value: (t) => t.createdAt }
+];
+
+// Same fields and matching as the keyword search on the board
+function matchesQuoteSearch(quote, search) {
+  if (!(search || '').trim()) return true;
+  const term = search.toLowerCase();
+  return [
+    quote.title,
+    quote.clientName,
+    quote.customerName,
+    quote.notes,
+    quote.soNumber,
+    quote.status,
+    quote.createdByName,
+    quote.reminderEmail,
+    quote.value != null ? quote.value.toString() : ''
+  ].some((field) => (field || '').toLowerCase().includes(term));
+}
+
+const DATASETS = {
+  quotes: async ({ search }) => {
+    const quotes = (await getAllQuotes()).filter((q) => matchesQuoteSearch(q, search));
+    return [{ name: 'Quotes', columns: QUOTE_COLUMNS, rows: quotes }];
+  },
+  customers: async ({ format }) => {
+    const [customers, contacts] = await Promise.all([getAllCustomers(), getAllContacts()]);
+    if (format === 'xlsx') {
+      const names = new Map(customers.map((c) => [c.id, c.name]));
+      return [
+        { name: 'Customers', columns: CUSTOMER_COLUMNS, rows: customers },
+        {
+          name: 'Contacts',
+          columns: [{ header: 'Customer', value: (c) => names.get(c.customerId) }, ...CONTACT_COLUMNS],
+          rows: contacts
+        }
+      ];
+    }
+    // One row per contact, or a single row for a customer without contacts
+    const rows = customers.flatMap((customer) => {
+      const own = contacts.filter((c) => c.customerId === customer.id);
+      return own.length > 0 ? own.map((contact) => ({ customer, contact })) : [{ customer, contact: null }];
+    });
+    return [
+      {
+        name: 'Customers',
+        columns: [
+          ...CUSTOMER_COLUMNS.map((col) => ({ ...col, value: (row) => col.value(row.customer) })),
+          ...CONTACT_COLUMNS.map((col) => ({ ...col, value: (row) => (row.contact ? col.value(row.contact) : null) }))
+        ],
+        rows
+      }
+    ];
+  },
+  activities: async () => [{ name: 'Activities', columns: ACTIVITY_COLUMNS, rows: await getAllActivities() }],
+  tasks: async () => [
+    { name: 'Tasks', columns: TASK_COLUMNS, rows: await getAllTasks({ includeCompleted: true }) }
+  ]
+};
+
+const EXPORT_DATASETS = Object.keys(DATASETS);
+
+function csvValue(column, value) {
+  if (value == null) return '';
+  if (column.type === 'boolean') return value ? 'Yes' : 'No';
+  // Text that a spreadsheet would run as a formula is prefixed with a quote
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(value)) return `'${value}`;
+  return value;
+}
+
+function excelValue(column, value) {
+  if (value == null) return null;
+  if (column.type === 'date') return new Date(value);
+  if (column.type === 'boolean') return value ? 'Yes' : 'No';
+  return value;
+}
+
+async function toWorkbook(sheets) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    worksheet.columns = sheet.columns.map((column) => ({
+      header: column.header,
+      width: column.type === 'date' ? 18 : Math.max(12, column.header.length + 2),
+      style:
+        column.type === 'date'
+          ? { numFmt: 'yyyy-mm-dd hh:mm' }
+          : column.type === 'money'
+            ? { numFmt: '#,##0.00' }
+            : {}
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    for (const row of sheet.rows) {
+      worksheet.addRow(sheet.columns.map((column) => excelValue(column, column.value(row))));
+    }
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function toCsvFile(sheet) {
+  const headers = sheet.columns.map((column) => column.header);
+  const rows = sheet.rows.map((row) =>
+    Object.fromEntries(sheet.columns.map((column) => [column.header, csvValue(column, column.value(row))]))
+  );
+  // The byte order mark makes Excel open the file as UTF-8
+  return Buffer.from(`\uFEFF${toCsv(headers, rows)}\r\n`, 'utf8');
+}
+
+// Resolves { filename, contentType, body } for a dataset in csv or xlsx
+async function exportDataset(dataset, format, { search = '' } = {}) {
+  const sheets = await DATASETS[dataset]({ format, search });
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    filename: `${dataset}-${date}.${extension}`,
+    contentType,
+    body: format === 'xlsx' ? await toWorkbook(sheets) : toCsvFile(sheets[0])
+  };
+}
+
+module.exports = {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  exportDataset
+};
@@ -0,0 +1,186 @@
+const fs = require('fs');
+const path = require('path');
+const sharp = require('sharp');
+
+// File types accepted as attachments. Uploads are identified from their
+// content (magic bytes), not the mimetype the browser declares. Types that
+// share a container, e.g. Word and Excel 97-2003 files (both OLE compound
+// files) or CSV and plain text, are told apart by their extension.
+//
+// Which types are allowed, and how large they may be, is configured per kind
+// of attachment with a comma-separated list of type IDs, each optionally
+// followed by a size limit in MB:
+//
+//   QUOTE_ATTACHMENT_TYPES=pdf:50,dwg:200,docx,xlsx,png,jpeg
+//   ACTIVITY_ATTACHMENT_TYPES=eml,msg,pdf,txt
+
+const MB = 1024 * 1024;
+
+const FILE_TYPES = {
+  pdf: { label: 'PDF', extensions: ['.pdf'], mimeType: 'application/pdf', format: 'pdf', maxMb: 25 },
+  dwg: { label: 'AutoCAD drawing', extensions: ['.dwg'], mimeType: 'image/vnd.dwg', format: 'dwg', maxMb: 50 },
+  docx: {
+    label: 'Word document',
+    extensions: ['.docx'],
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    format: 'docx',
+    maxMb: 20
+  },
+  doc: { label: 'Word 97-2003 document', extensions: ['.doc'], mimeType: 'application/msword', format: 'ole', maxMb: 20 },
+  xlsx: {
+    label: 'Excel workbook',
+    extensions: ['.xlsx'],
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    format: 'xlsx',
+    maxMb: 20
+  },
+  xls: { label: 'Excel 97-2003 workbook', extensions: ['.xls'], mimeType: 'application/vnd.ms-excel', format: 'ole', maxMb: 20 },
+  csv: { label: 'CSV', extensions: ['.csv'], mimeType: 'text/csv', format: 'text', maxMb: 10 },
+  png: { label: 'PNG image', extensions: ['.png'], mimeType: 'image/png', format: 'png', maxMb: 15, image: true },
+  jpeg: { label: 'JPEG image', extensions: ['.jpg', '.jpeg'], mimeType: 'image/jpeg', format: 'jpeg', maxMb: 15, image: true },
+  gif: { label: 'GIF image', extensions: ['.gif'], mimeType: 'image/gif', format: 'gif', maxMb: 10, image: true },
+  webp: { label: 'WebP image', extensions: ['.webp'], mimeType: 'image/webp', format: 'webp', maxMb: 15, image: true },
+  eml: { label: 'Email', extensions: ['.eml'], mimeType: 'message/rfc822', format: 'text', maxMb: 25 },
+  msg: { label: 'Outlook email', extensions: ['.msg'], mimeType: 'application/vnd.ms-outlook', format: 'ole', maxMb: 25 },
+  txt: { label: 'Text file', extensions: ['.txt'], mimeType: 'text/plain', format: 'text', maxMb: 5 }
+};
+
+const DEFAULT_QUOTE_ATTACHMENT_TYPES = 'pdf,dwg,docx,doc,xlsx,xls,csv,png,jpeg,gif,webp';
+const DEFAULT_ACTIVITY_ATTACHMENT_TYPES = 'eml,msg,pdf,txt';
+
+// Formats whose content alone says what the file is. Anything else (plain
+// text, OLE and bare ZIP containers) must also have a matching extension.
+const SELF_DESCRIBING_FORMATS = new Set(['pdf', 'dwg', 'docx', 'xlsx', 'png', 'jpeg', 'gif', 'webp']);
+
+// Parses an allow-list setting into the allowed types with their size limit
+// in bytes. Unknown type IDs are reported and skipped.
+function parseAllowList(value, fallback) {
+  const types = [];
+  for (const entry of String(value || fallback).split(',')) {
+    const [rawId, rawMb] = entry.split(':').map((part) => part.trim());
+    const id = rawId.toLowerCase();
+    if (!id) continue;
+    const type = FILE_TYPES[id];
+    if (!type) {
+      console.warn(`[files] Ignoring unknown attachment type "${rawId}"`);
+      continue;
+    }
+    let maxMb = rawMb ? Number(rawMb) : type.maxMb;
+    if (!Number.isFinite(maxMb) || maxMb <= 0) {
+      console.warn(`[files] Ignoring invalid size limit for "${rawId}"; using ${type.maxMb} MB`);
+      maxMb = type.maxMb;
+    }
+    types.push({
+      id,
+      label: type.label,
+      extensions: type.extensions,
+      mimeType: type.mimeType,
+      format: type.format,
+      image: !!type.image,
+      maxBytes: Math.round(maxMb * MB)
+    });
+  }
+  return types;
+}
+
+const QUOTE_ATTACHMENT_TYPES = parseAllowList(process.env.QUOTE_ATTACHMENT_TYPES, DEFAULT_QUOTE_ATTACHMENT_TYPES);
+const ACTIVITY_ATTACHMENT_TYPES = parseAllowList(process.env.ACTIVITY_ATTACHMENT_TYPES, DEFAULT_ACTIVITY_ATTACHMENT_TYPES);
+
+// The largest file any of the lists allows, for the upload size cap
+function largestAllowedSize(...lists) {
+  return Math.max(...lists.flat().map((type) => type.maxBytes), 0);
+}
+
+const startsWith = (buffer, bytes, offset = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+// Printable text in any ASCII-compatible encoding: no NUL bytes and few
+// control characters besides tabs, line breaks and form feeds
+function looksLikeText(buffer) {
+  if (buffer.length === 0) return false;
+  let control = 0;
+  for (const byte of buffer) {
+    if (byte === 0) return false;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) {
+      control += 1;
+    }
+  }
+  return control / buffer.length < 0.01;
+}
+
+// Reads the start of the file, and for ZIP archives also the end, where the
+// central directory lists the entries that tell a .docx from an .xlsx
+async function sniffFormat(filePath) {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const head = Buffer.alloc(Math.min(size, 8192));
+    await handle.read(head, 0, head.length, 0);
+
+    if (head.subarray(0, 1024).includes('%PDF-')) return 'pdf';
+    if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+    if (startsWith(head, [0xff, 0xd8, 0xff])) return 'jpeg';
+    if (/^GIF8[79]a/.test(head.subarray(0, 6).toString('latin1'))) return 'gif';
+    if (head.subarray(0, 4).toString('latin1') === 'RIFF' && head.subarray(8, 12).toString('latin1') === 'WEBP') {
+      return 'webp';
+    }
+    if (/^AC10\d\d/.test(head.subarray(0, 6).toString('latin1'))) return 'dwg';
+    if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'ole';
+    if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+      const tail = Buffer.alloc(Math.min(size, 256 * 1024));
+      await handle.read(tail, 0, tail.length, size - tail.length);
+      if (tail.includes('word/document.xml')) return 'docx';
+      if (tail.includes('xl/workbook.xml')) return 'xlsx';
+      return 'zip';
+    }
+    if (looksLikeText(head)) return 'text';
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+// The allowed type an uploaded file is, or null when it is none of them
+async function identifyFile(filePath, originalName, allowedTypes) {
+  const format = await sniffFormat(filePath);
+  if (!format) return null;
+  const candidates = allowedTypes.filter((type) => type.format === format);
+  const extension = path.extname(originalName || '').toLowerCase();
+  const byExtension = candidates.find((type) => type.extensions.includes(extension));
+  if (byExtension) return byExtension;
+  return SELF_DESCRIBING_FORMATS.has(format) ? candidates[0] || null : null;
+}
+
+// e.g. "PDF (.pdf, up to 25 MB), JPEG image (.jpg/.jpeg, up to 15 MB)"
+function describeTypes(types) {
+  return types
+    .map((type) => `${type.label} (${type.extensions.join('/')}, up to ${formatMegabytes(type.maxBytes)})`)
+    .join(', ');
+}
+
+function formatMegabytes(bytes) {
+  return `${Math.round((bytes / MB) * 10) / 10} MB`;
+}
+
+// A JPEG thumbnail of an image, at most 320px on each side. Photos are
+// turned upright according to their EXIF orientation first.
+function createThumbnail(sourcePath) {
+  return sharp(sourcePath)
+    .rotate()
+    .resize(320, 320, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+}
+
+module.exports = {
+  FILE_TYPES,
+  QUOTE_ATTACHMENT_TYPES,
+  ACTIVITY_ATTACHMENT_TYPES,
+  parseAllowList,
+  largestAllowedSize,
+  identifyFile,
+  describeTypes,
+  formatMegabytes,
+  createThumbnail
+};
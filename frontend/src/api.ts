@@ -20,12 +20,78 @@ const getApiUrl = () => {
   return 'http://localhost:4000/api';
 };
 
+export const API_BASE_URL = getApiUrl();
+
 const api = axios.create({
-  baseURL: getApiUrl()
+  baseURL: API_BASE_URL
 });
 
+// Signing in returns a short-lived access token and a refresh token that
+// renews it. Both are kept in localStorage, shared by all tabs.
+const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+export type SessionTokens = { token: string; refreshToken: string };
+
+export function saveSession({ token, refreshToken }: SessionTokens) {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+}
+
+function clearSession() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+let refreshing: Promise<string | null> | null = null;
+
+// Trades the refresh token for new tokens after `expiredToken` was refused,
+// and resolves with the new access token. When the session has ended the app
+// goes back to sign-in. Each refresh token works once, so tabs take turns: a
+// tab that waited for another one uses the token it got rather than
+// refreshing again.
+export function refreshSession(expiredToken: string | null): Promise<string | null> {
+  if (!refreshing) {
+    const run = async () => {
+      const current = localStorage.getItem(TOKEN_KEY);
+      if (current && current !== expiredToken) return current;
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) return null;
+      try {
+        const res = await axios.post<SessionTokens>(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+        saveSession(res.data);
+        return res.data.token;
+      } catch (err: any) {
+        // The server refused the refresh token; network errors keep the session
+        if (err?.response?.status === 401) {
+          clearSession();
+          window.location.reload();
+        }
+        return null;
+      }
+    };
+    const pending = async () =>
+      'locks' in navigator ? navigator.locks.request('quoteportal-auth-refresh', run) : run();
+    refreshing = pending().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+// Ends the session on the server and returns to the sign-in screen
+export async function logout() {
+  try {
+    await api.post('/auth/logout', { refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY) });
+  } catch (err) {
+    console.error('Logout error:', err);
+  }
+  clearSession();
+  window.location.reload();
+}
+
 api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('auth_token');
+  const token = localStorage.getItem(TOKEN_KEY);
   if (token) {
     config.headers = config.headers ?? {};
     config.headers.Authorization = `Bearer ${token}`;
@@ -33,9 +99,29 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+// Requests refused because the access token expired are retried once with a
+// renewed token. The sign-in endpoints answer 401 for bad credentials, so
+// their refusals are final; changing the password needs a session like any
+// other request.
+const retriedRequests = new WeakSet<object>();
+const isSignInRequest = (url: string) => url.startsWith('/auth/') && url !== '/auth/change-password';
+
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const config = error.config;
+    if (
+      error.response?.status === 401 &&
+      config &&
+      !retriedRequests.has(config) &&
+      !isSignInRequest(String(config.url || ''))
+    ) {
+      retriedRequests.add(config);
+      const sentToken = String(config.headers?.Authorization || '').replace(/^Bearer /, '') || null;
+      if (await refreshSession(sentToken)) {
+        return api.request(config);
+      }
+    }
     // Log the full error for debugging
     console.error('API Error:', {
       message: error.message,
@@ -48,6 +134,13 @@ api.interceptors.response.use(
   }
 );
 
+// The saved record from a 409 response to an edit made against an older
+// version, or null for any other error
+export function getVersionConflict<T>(err: unknown): T | null {
+  const response = (err as { response?: { status?: number; data?: { current?: T } } })?.response;
+  return response?.status === 409 && response.data?.current ? response.data.current : null;
+}
+
 export async function fetchQuotes(): Promise<QuoteCard[]> {
   const res = await api.get<QuoteCard[]>('/quotes');
   return res.data;
@@ -73,13 +166,214 @@ export async function createQuote(payload: Partial<QuoteCard>) {
   return res.data;
 }
 
-export async function uploadQuoteAttachment(id: string, file: File) {
+export type QuoteAttachment = {
+  id: string;
+  quoteId: string;
+  url: string;
+  // A small JPEG preview, for images
+  thumbnailUrl: string | null;
+  originalName: string | null;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  label: string | null;
+  version: number;
+  // The earlier version this file replaced
+  supersedesId: string | null;
+  // False once a newer version has been uploaded
+  latest: boolean;
+  source: 'upload' | 'generated';
+  // Blocked files contained a virus; they are quarantined and cannot be downloaded
+  scanStatus: 'unscanned' | 'clean' | 'blocked';
+  // What the virus scan found in a blocked file
+  scanSignature: string | null;
+  uploadedBy: string | null;
+  uploadedByName: string | null;
+  createdAt: string;
+};
+
+// A file type the server accepts as an attachment. Files are checked by
+// content on upload; the extensions are for file pickers and quick feedback.
+export type AttachmentType = {
+  id: string;
+  label: string;
+  extensions: string[];
+  maxBytes: number;
+  image: boolean;
+};
+
+export type AttachmentTypes = { quote: AttachmentType[]; activity: AttachmentType[] };
+
+export async function fetchAttachmentTypes(): Promise<AttachmentTypes> {
+  const res = await api.get<AttachmentTypes>('/attachment-types');
+  return res.data;
+}
+
+// The `accept` attribute for a file input
+export function attachmentAccept(types: AttachmentType[]) {
+  return types.flatMap((type) => type.extensions).join(',');
+}
+
+// Why a file cannot be attached, or null when its extension and size are allowed
+export function checkAttachmentFile(file: File, types: AttachmentType[]): string | null {
+  // Not loaded yet; the server still checks the file
+  if (types.length === 0) return null;
+  const extension = '.' + (file.name.split('.').pop() || '').toLowerCase();
+  const type = types.find((t) => t.extensions.includes(extension));
+  if (!type) {
+    return `Invalid file type. Allowed: ${types.flatMap((t) => t.extensions).join(', ')}`;
+  }
+  if (file.size > type.maxBytes) {
+    return `${type.label} files are limited to ${Math.round((type.maxBytes / (1024 * 1024)) * 10) / 10} MB`;
+  }
+  return null;
+}
+
+// Files are served through the API to signed-in users only. Browsers do not
+// send the Authorization header for links, images and iframes, so those use
+// short-lived signed URLs. `inline` lets PDFs and images show in the browser
+// instead of downloading.
+export async function signFileUrls(urls: string[], options: { inline?: boolean } = {}): Promise<Record<string, string>> {
+  if (urls.length === 0) return {};
+  const res = await api.post<{ urls: Record<string, string>; expiresAt: string }>('/files/sign', {
+    urls,
+    inline: !!options.inline
+  });
+  const base = new URL(API_BASE_URL, window.location.href);
+  return Object.fromEntries(Object.entries(res.data.urls).map(([url, signed]) => [url, new URL(signed, base).toString()]));
+}
+
+async function signFileUrl(url: string, options: { inline?: boolean } = {}) {
+  const signed = (await signFileUrls([url], options))[url];
+  if (!signed) throw new Error('File not found');
+  return signed;
+}
+
+// Downloads a file under its original name
+export async function downloadFile(url: string) {
+  window.location.assign(await signFileUrl(url));
+}
+
+// Opens a file in a new tab. The tab is opened while the click still counts
+// as a user action, so it is not blocked, and pointed at the file once signed.
+export async function openFile(url: string) {
+  const tab = window.open('', '_blank');
+  try {
+    const signed = await signFileUrl(url, { inline: true });
+    if (!tab) return window.location.assign(signed);
+    tab.opener = null;
+    tab.location.href = signed;
+  } catch (err) {
+    tab?.close();
+    throw err;
+  }
+}
+
+// A signed URL for showing a PDF or image in the page, e.g. in an iframe
+export function previewFileUrl(url: string) {
+  return signFileUrl(url, { inline: true });
+}
+
+export async function fetchQuoteAttachments(quoteId: string): Promise<QuoteAttachment[]> {
+  const res = await api.get<QuoteAttachment[]>(`/quotes/${quoteId}/attachments`);
+  return res.data;
+}
+
+// Adds a file to the quote, as a new version of `supersedesId` when given
+export async function uploadQuoteAttachment(
+  quoteId: string,
+  file: File,
+  options: { label?: string; supersedesId?: string } = {}
+): Promise<{ attachment: QuoteAttachment; quote: QuoteCard }> {
   const formData = new FormData();
+  if (options.label) formData.append('label', options.label);
+  if (options.supersedesId) formData.append('supersedesId', options.supersedesId);
   formData.append('file', file);
 
-  const res = await api.post<QuoteCard>(`/quotes/${id}/attachment`, formData, {
-    headers: { 'Content-Type': 'multipart/form-data' }
-  });
+  const res = await api.post<{ attachment: QuoteAttachment; quote: QuoteCard }>(
+    `/quotes/${quoteId}/attachments`,
+    formData,
+    { headers: { 'Content-Type': 'multipart/form-data' } }
+  );
+  return res.data;
+}
+
+export async function deleteQuoteAttachment(quoteId: string, attachmentId: string): Promise<{ quote: QuoteCard }> {
+  const res = await api.delete<{ quote: QuoteCard }>(`/quotes/${quoteId}/attachments/${attachmentId}`);
+  return res.data;
+}
+
+export type LineItem = {
+  id: string;
+  quoteId: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent: number;
+  taxRate: number;
+  position: number;
+  gross: number;
+  discount: number;
+  net: number;
+  tax: number;
+  total: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type LineItemInput = Pick<LineItem, 'description' | 'quantity' | 'unitPrice' | 'discountPercent' | 'taxRate'>;
+
+export type QuoteTotals = {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+};
+
+export type LineItemsState = {
+  items: LineItem[];
+  totals: QuoteTotals;
+  quote: QuoteCard;
+};
+
+export async function fetchLineItems(quoteId: string): Promise<LineItemsState> {
+  const res = await api.get<LineItemsState>(`/quotes/${quoteId}/items`);
+  return res.data;
+}
+
+export async function createLineItem(quoteId: string, payload: LineItemInput): Promise<LineItemsState> {
+  const res = await api.post<LineItemsState>(`/quotes/${quoteId}/items`, payload);
+  return res.data;
+}
+
+export async function updateLineItem(quoteId: string, itemId: string, payload: Partial<LineItemInput>): Promise<LineItemsState> {
+  const res = await api.put<LineItemsState>(`/quotes/${quoteId}/items/${itemId}`, payload);
+  return res.data;
+}
+
+export async function deleteLineItem(quoteId: string, itemId: string): Promise<LineItemsState> {
+  const res = await api.delete<LineItemsState>(`/quotes/${quoteId}/items/${itemId}`);
+  return res.data;
+}
+
+export type StageHistoryEntry = {
+  id: string;
+  quoteId: string;
+  fromStage: QuoteCard['stage'] | null;
+  toStage: QuoteCard['stage'];
+  changedBy?: string | null;
+  changedByName?: string | null;
+  changedAt: string;
+  leftAt?: string | null;
+  daysInStage: number;
+};
+
+export async function fetchQuoteHistory(id: string): Promise<StageHistoryEntry[]> {
+  const res = await api.get<StageHistoryEntry[]>(`/quotes/${id}/history`);
+  return res.data;
+}
+
+export async function generateQuotePdf(id: string) {
+  const res = await api.post<QuoteCard>(`/quotes/${id}/pdf`);
   return res.data;
 }
 
@@ -96,18 +390,62 @@ export async function register(username: string, email: string, password: string
 export async function login(username: string, password: string) {
   try {
     const res = await api.post('/auth/login', { username, password });
-    return res.data as { token: string; user: { id: string; email: string; approved: boolean } };
+    return res.data as SessionTokens & { user: { id: string; email: string; approved: boolean } };
   } catch (error: any) {
     console.error('Login API error:', error);
     throw error;
   }
 }
 
+// Emails a reset link to the account with this username or email address
+export async function requestPasswordReset(username: string): Promise<{ message: string }> {
+  const res = await api.post<{ message: string }>('/auth/forgot-password', { username });
+  return res.data;
+}
+
+// Sets a new password with the token from a reset link
+export async function resetPassword(token: string, password: string): Promise<{ message: string }> {
+  const res = await api.post<{ message: string }>('/auth/reset-password', { token, password });
+  return res.data;
+}
+
+// Other devices are signed out; this one stays signed in
+export async function changePassword(currentPassword: string, newPassword: string): Promise<{ message: string }> {
+  const res = await api.post<{ message: string }>('/auth/change-password', { currentPassword, newPassword });
+  return res.data;
+}
+
+export async function fetchSetupStatus(): Promise<{ needsSetup: boolean }> {
+  const res = await api.get<{ needsSetup: boolean }>('/auth/setup');
+  return res.data;
+}
+
+export async function completeSetup(setupToken: string, username: string, email: string, password: string) {
+  const res = await api.post('/auth/setup', { setupToken, username, email, password });
+  return res.data as SessionTokens & { user: User };
+}
+
+export type UserStatus = 'pending' | 'approved' | 'rejected' | 'suspended';
+
+export type UserRole = 'admin' | 'sales_manager' | 'sales_rep' | 'viewer';
+
+export const USER_ROLES: { id: UserRole; title: string }[] = [
+  { id: 'admin', title: 'Admin' },
+  { id: 'sales_manager', title: 'Sales manager' },
+  { id: 'sales_rep', title: 'Sales rep' },
+  { id: 'viewer', title: 'Read-only viewer' }
+];
+
 export type User = {
   id: string;
   username: string;
   email: string;
+  role: UserRole;
+  managerId?: string | null;
+  status: UserStatus;
   approved: boolean;
+  statusReason?: string | null;
+  statusChangedAt?: string | null;
   createdAt: string;
 };
 
@@ -127,6 +465,107 @@ export async function approveUser(userId: string): Promise<{ message: string; us
   return res.data;
 }
 
+export async function rejectUser(userId: string, reason: string): Promise<{ message: string; user: User }> {
+  const res = await api.post<{ message: string; user: User }>(`/admin/users/${userId}/reject`, { reason });
+  return res.data;
+}
+
+export async function updateUserRole(userId: string, role: UserRole): Promise<{ message: string; user: User }> {
+  const res = await api.put<{ message: string; user: User }>(`/admin/users/${userId}/role`, { role });
+  return res.data;
+}
+
+export async function updateUserManager(userId: string, managerId: string | null): Promise<{ message: string; user: User }> {
+  const res = await api.put<{ message: string; user: User }>(`/admin/users/${userId}/manager`, { managerId });
+  return res.data;
+}
+
+export async function suspendUser(userId: string, reason: string): Promise<{ message: string; user: User }> {
+  const res = await api.post<{ message: string; user: User }>(`/admin/users/${userId}/suspend`, { reason });
+  return res.data;
+}
+
+// A signed-in browser. `current` is the session making the request.
+export type UserSession = {
+  id: string;
+  // e.g. "Chrome on Windows"
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+export async function fetchUserSessions(userId: string): Promise<UserSession[]> {
+  const res = await api.get<UserSession[]>(`/admin/users/${userId}/sessions`);
+  return res.data;
+}
+
+export async function endUserSession(userId: string, sessionId: string): Promise<void> {
+  await api.delete(`/admin/users/${userId}/sessions/${sessionId}`);
+}
+
+// Signs the user out on every device
+export async function signOutUserEverywhere(userId: string): Promise<{ message: string; count: number }> {
+  const res = await api.post<{ message: string; count: number }>(`/admin/users/${userId}/sign-out`);
+  return res.data;
+}
+
+// Audit log
+export type AuditEntityType =
+  | 'quote'
+  | 'line_item'
+  | 'attachment'
+  | 'customer'
+  | 'contact'
+  | 'activity'
+  | 'task'
+  | 'user'
+  | 'email_template'
+  | 'chase_cadence';
+
+export const AUDIT_ENTITY_TYPES: { id: AuditEntityType; title: string }[] = [
+  { id: 'quote', title: 'Quote' },
+  { id: 'line_item', title: 'Line item' },
+  { id: 'attachment', title: 'Attachment' },
+  { id: 'customer', title: 'Customer' },
+  { id: 'contact', title: 'Contact' },
+  { id: 'activity', title: 'Activity' },
+  { id: 'task', title: 'Task' },
+  { id: 'user', title: 'User' },
+  { id: 'email_template', title: 'Email template' },
+  { id: 'chase_cadence', title: 'Chase cadence' }
+];
+
+export type AuditEntry = {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  // Field name -> old and new value
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+};
+
+export type AuditLogFilters = {
+  userId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export async function fetchAuditLog(filters: AuditLogFilters): Promise<{ entries: AuditEntry[]; total: number }> {
+  const res = await api.get<{ entries: AuditEntry[]; total: number }>('/admin/audit-log', { params: filters });
+  return res.data;
+}
+
 export type Customer = {
   id: string;
   name: string;
@@ -136,6 +575,8 @@ export type Customer = {
   address?: string | null;
   industry?: string | null;
   notes?: string | null;
+  version?: number;
+  archivedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -166,9 +607,13 @@ export type Activity = {
   subject?: string | null;
   description?: string | null;
   attachmentUrl?: string | null;
+  // The last upload the virus scan blocked; it never replaces attachmentUrl
+  blockedAttachment?: { url: string; name: string | null; signature: string | null } | null;
   activityDate: string;
   contactName?: string | null;
   quoteTitle?: string | null;
+  customerName?: string | null;
+  archivedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -188,6 +633,8 @@ export type Task = {
   contactName?: string | null;
   quoteTitle?: string | null;
   customerName?: string | null;
+  version?: number;
+  archivedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -213,6 +660,29 @@ export async function updateCustomer(id: string, payload: Partial<Customer>): Pr
 }
 
 // Contact API functions
+export type DuplicateCustomerMatch = {
+  customer: Customer;
+  duplicate: Customer;
+  score: number;
+  reasons: string[];
+};
+
+export type CustomerMergeResult = {
+  customer: Customer;
+  moved: { quotes: number; contacts: number; activities: number; tasks: number };
+};
+
+export async function fetchDuplicateCustomers(threshold?: number): Promise<DuplicateCustomerMatch[]> {
+  const res = await api.get<DuplicateCustomerMatch[]>('/customers/duplicates', { params: { threshold } });
+  return res.data;
+}
+
+// Moves everything from the duplicates onto the surviving customer and deletes the duplicates
+export async function mergeCustomers(survivorId: string, duplicateIds: string[]): Promise<CustomerMergeResult> {
+  const res = await api.post<CustomerMergeResult>(`/customers/${survivorId}/merge`, { duplicateIds });
+  return res.data;
+}
+
 export async function fetchContactsByCustomerId(customerId: string): Promise<Contact[]> {
   const res = await api.get<Contact[]>(`/customers/${customerId}/contacts`);
   return res.data;
@@ -279,3 +749,326 @@ export async function updateTask(id: string, payload: Partial<Task>): Promise<Ta
   return res.data;
 }
 
+// Analytics API functions
+export type AnalyticsPeriod = 'week' | 'month' | 'quarter' | 'year';
+export type AnalyticsBreakdownBy = 'customer' | 'industry' | 'creator';
+export type DateRange = { from?: string; to?: string };
+
+export type WinLossPeriod = {
+  period: string;
+  won: number;
+  lost: number;
+  wonValue: number;
+  lostValue: number;
+  winRate: number | null;
+};
+
+export type WinLossReport = {
+  periods: WinLossPeriod[];
+  totals: { won: number; lost: number; wonValue: number; winRate: number | null };
+};
+
+export type CycleTimeReport = {
+  count: number;
+  averageDays: number | null;
+  medianDays: number | null;
+  minDays: number | null;
+  maxDays: number | null;
+};
+
+export type PipelineStage = {
+  stage: QuoteCard['stage'];
+  count: number;
+  value: number;
+};
+
+export type ForecastReport = {
+  stages: Array<PipelineStage & { probability: number; weightedValue: number }>;
+  openValue: number;
+  weightedValue: number;
+};
+
+export type BreakdownRow = {
+  label: string;
+  quotes: number;
+  open: number;
+  won: number;
+  lost: number;
+  openValue: number;
+  wonValue: number;
+  winRate: number | null;
+};
+
+export async function fetchWinRate(period: AnalyticsPeriod, range: DateRange): Promise<WinLossReport> {
+  const res = await api.get<WinLossReport>('/analytics/win-rate', { params: { period, ...range } });
+  return res.data;
+}
+
+export async function fetchCycleTime(range: DateRange): Promise<CycleTimeReport> {
+  const res = await api.get<CycleTimeReport>('/analytics/cycle-time', { params: range });
+  return res.data;
+}
+
+export async function fetchPipeline(): Promise<PipelineStage[]> {
+  const res = await api.get<PipelineStage[]>('/analytics/pipeline');
+  return res.data;
+}
+
+export async function fetchForecast(): Promise<ForecastReport> {
+  const res = await api.get<ForecastReport>('/analytics/forecast');
+  return res.data;
+}
+
+export async function fetchBreakdown(by: AnalyticsBreakdownBy, range: DateRange): Promise<BreakdownRow[]> {
+  const res = await api.get<BreakdownRow[]>('/analytics/breakdown', { params: { by, ...range } });
+  return res.data;
+}
+
+// Chase cadence API functions
+export type ChaseCadence = {
+  stage: QuoteCard['stage'];
+  intervalDays: number;
+  escalateAfter: number | null;
+  enabled: boolean;
+  emailTemplateId: string | null;
+  updatedAt: string;
+};
+
+export type ChaseCadenceInput = Pick<ChaseCadence, 'intervalDays' | 'escalateAfter' | 'enabled' | 'emailTemplateId'>;
+
+export async function fetchChaseCadences(): Promise<ChaseCadence[]> {
+  const res = await api.get<ChaseCadence[]>('/chase-cadences');
+  return res.data;
+}
+
+export async function saveChaseCadence(stage: QuoteCard['stage'], payload: ChaseCadenceInput): Promise<ChaseCadence> {
+  const res = await api.put<ChaseCadence>(`/chase-cadences/${stage}`, payload);
+  return res.data;
+}
+
+export async function deleteChaseCadence(stage: QuoteCard['stage']): Promise<void> {
+  await api.delete(`/chase-cadences/${stage}`);
+}
+
+// Email template API functions
+export type EmailTemplateKind = 'reminder' | 'escalation';
+
+export type EmailTemplate = {
+  id: string;
+  name: string;
+  kind: EmailTemplateKind;
+  subject: string;
+  bodyText: string;
+  bodyHtml: string | null;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EmailTemplateInput = Pick<EmailTemplate, 'name' | 'kind' | 'subject' | 'bodyText' | 'bodyHtml' | 'isDefault'>;
+
+export type EmailPlaceholder = { key: string; description: string };
+
+export type EmailPreview = {
+  subject: string;
+  text: string;
+  html: string | null;
+  to: string | null;
+  templateId: string | null;
+  templateName: string;
+};
+
+export async function fetchEmailTemplates(): Promise<EmailTemplate[]> {
+  const res = await api.get<EmailTemplate[]>('/email-templates');
+  return res.data;
+}
+
+export async function fetchEmailPlaceholders(): Promise<EmailPlaceholder[]> {
+  const res = await api.get<EmailPlaceholder[]>('/email-templates/placeholders');
+  return res.data;
+}
+
+export async function createEmailTemplate(payload: EmailTemplateInput): Promise<EmailTemplate> {
+  const res = await api.post<EmailTemplate>('/email-templates', payload);
+  return res.data;
+}
+
+export async function updateEmailTemplate(id: string, payload: EmailTemplateInput): Promise<EmailTemplate> {
+  const res = await api.put<EmailTemplate>(`/email-templates/${id}`, payload);
+  return res.data;
+}
+
+export async function deleteEmailTemplate(id: string): Promise<void> {
+  await api.delete(`/email-templates/${id}`);
+}
+
+// Renders either a saved template or an unsaved draft against a quote
+export async function previewEmailTemplate(payload: {
+  quoteId: string;
+  kind: EmailTemplateKind;
+  templateId?: string;
+  template?: Pick<EmailTemplate, 'subject' | 'bodyText' | 'bodyHtml'>;
+}): Promise<EmailPreview> {
+  const res = await api.post<EmailPreview>('/email-templates/preview', payload);
+  return res.data;
+}
+
+// Email log API functions
+export type EmailLogStatus = 'pending' | 'sent' | 'retrying' | 'failed' | 'logged';
+
+export type EmailLogEntry = {
+  id: string;
+  quoteId: string | null;
+  kind: EmailTemplateKind;
+  recipient: string;
+  templateId: string | null;
+  templateName: string | null;
+  subject: string;
+  bodyText: string;
+  bodyHtml: string | null;
+  status: EmailLogStatus;
+  attempts: number;
+  error: string | null;
+  messageId: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export async function fetchQuoteEmails(quoteId: string): Promise<EmailLogEntry[]> {
+  const res = await api.get<EmailLogEntry[]>(`/quotes/${quoteId}/emails`);
+  return res.data;
+}
+
+export type ArchivableEntity = 'quote' | 'customer' | 'task' | 'activity';
+
+type Archived<T> = T & { archivedAt: string; archivedByName: string | null };
+
+export type ArchivedItems = {
+  quotes: Archived<QuoteCard>[];
+  customers: Archived<Customer>[];
+  tasks: Archived<Task>[];
+  activities: Archived<Activity & { customerName: string | null }>[];
+};
+
+const ARCHIVE_PATHS: Record<ArchivableEntity, string> = {
+  quote: 'quotes',
+  customer: 'customers',
+  task: 'tasks',
+  activity: 'activities'
+};
+
+export async function fetchArchivedItems(): Promise<ArchivedItems> {
+  const res = await api.get<ArchivedItems>('/archive');
+  return res.data;
+}
+
+export async function archiveItem(entity: ArchivableEntity, id: string): Promise<void> {
+  await api.post(`/${ARCHIVE_PATHS[entity]}/${id}/archive`);
+}
+
+export async function restoreItem(entity: ArchivableEntity, id: string): Promise<void> {
+  await api.post(`/${ARCHIVE_PATHS[entity]}/${id}/restore`);
+}
+
+// Admin only; also removes the record's uploaded files
+export async function deleteItemPermanently(entity: ArchivableEntity, id: string): Promise<void> {
+  await api.delete(`/${ARCHIVE_PATHS[entity]}/${id}`);
+}
+
+export type ImportField = { key: string; label: string; required: boolean };
+
+// Import field key -> CSV column header
+export type ImportMapping = Record<string, string>;
+
+export type ImportParseResult = {
+  headers: string[];
+  rowCount: number;
+  sampleRows: Record<string, string>[];
+  fields: ImportField[];
+  suggestedMapping: ImportMapping;
+};
+
+export type ImportRowResult = {
+  rowNumber: number;
+  errors: string[];
+  customer: { id: string; name: string; action: 'new' | 'existing' } | null;
+  contact: 'new' | 'existing' | null;
+  quote: 'new' | 'duplicate' | null;
+};
+
+export type ImportResult = {
+  dryRun: boolean;
+  summary: {
+    rows: number;
+    failed: number;
+    customersCreated: number;
+    customersMatched: number;
+    contactsCreated: number;
+    quotesCreated: number;
+    quotesSkipped: number;
+  };
+  rows: ImportRowResult[];
+  // CSV of the rows that were not imported, with an Errors column
+  errorReport: string | null;
+};
+
+function importForm(file: File, mapping?: ImportMapping) {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (mapping) {
+    formData.append('mapping', JSON.stringify(mapping));
+  }
+  return formData;
+}
+
+export async function parseImportFile(file: File): Promise<ImportParseResult> {
+  const res = await api.post<ImportParseResult>('/import/parse', importForm(file), {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return res.data;
+}
+
+// Runs the import and rolls it back, so nothing is saved
+export async function previewImport(file: File, mapping: ImportMapping): Promise<ImportResult> {
+  const res = await api.post<ImportResult>('/import/preview', importForm(file, mapping), {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return res.data;
+}
+
+export async function commitImport(file: File, mapping: ImportMapping): Promise<ImportResult> {
+  const res = await api.post<ImportResult>('/import', importForm(file, mapping), {
+    headers: { 'Content-Type': 'multipart/form-data' }
+  });
+  return res.data;
+}
+
+export type ExportDataset = 'quotes' | 'customers' | 'activities' | 'tasks';
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Fetched through axios rather than a plain link so the auth header is sent
+export async function downloadExport(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  params: { search?: string } = {}
+): Promise<void> {
+  const res = await api.get<Blob>(`/export/${dataset}`, {
+    params: { format, ...(params.search ? { search: params.search } : {}) },
+    responseType: 'blob'
+  });
+  const disposition: string = res.headers['content-disposition'] || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${dataset}.${format}`;
+  const url = URL.createObjectURL(res.data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Tells other users which quote this browser tab has open (quoteId null when none)
+export async function updatePresence(tabId: string, quoteId: string | null, editing = false): Promise<void> {
+  await api.put('/presence', { tabId, quoteId, editing });
+}
@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react';
+import { API_BASE_URL, refreshSession, updatePresence } from './api';
+
+// Live updates from GET /api/events. One stream per browser tab is shared by
+// every component that subscribes; it is read with fetch rather than
+// EventSource so the auth header can be sent.
+
+export type LiveEntity = 'quote' | 'task' | 'activity';
+
+export type LiveChange<T> = {
+  entity: LiveEntity;
+  // 'reload' means refetch the whole list, e.g. after an import or merge
+  action: 'upsert' | 'remove' | 'reload';
+  items?: T[];
+  ids?: string[];
+  actor: { id: string; email: string } | null;
+};
+
+export type PresenceEntry = {
+  userId: string;
+  email: string;
+  tabId: string;
+  quoteId: string;
+  editing: boolean;
+};
+
+type StreamMessage =
+  | { type: 'change'; change: LiveChange<unknown> }
+  | { type: 'presence'; presence: PresenceEntry[] };
+
+const RETRY_MS = 5000;
+// The server drops presence that is not refreshed within 75 seconds
+const PRESENCE_REFRESH_MS = 30 * 1000;
+const ENTITIES: LiveEntity[] = ['quote', 'task', 'activity'];
+
+const createTabId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `tab-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const TAB_ID = createTabId();
+
+const listeners = new Set<(message: StreamMessage) => void>();
+let currentPresence: PresenceEntry[] = [];
+let controller: AbortController | null = null;
+let retryTimer: number | undefined;
+
+function emit(message: StreamMessage) {
+  if (message.type === 'presence') {
+    currentPresence = message.presence;
+  }
+  listeners.forEach((listener) => listener(message));
+}
+
+function handleEvent(event: string, data: string, reconnected: boolean) {
+  const payload = JSON.parse(data);
+  if (event === 'ready') {
+    emit({ type: 'presence', presence: payload.presence });
+    // Changes made while disconnected were missed
+    if (reconnected) {
+      ENTITIES.forEach((entity) => emit({ type: 'change', change: { entity, action: 'reload', actor: null } }));
+    }
+  } else if (event === 'presence') {
+    emit({ type: 'presence', presence: payload });
+  } else if (event === 'change') {
+    emit({ type: 'change', change: payload });
+  }
+}
+
+async function connect(reconnected: boolean, renewed = false) {
+  const token = localStorage.getItem('auth_token');
+  if (!token || listeners.size === 0) return;
+  const abort = new AbortController();
+  controller = abort;
+  try {
+    const res = await fetch(`${API_BASE_URL}/events?tab=${encodeURIComponent(TAB_ID)}`, {
+      headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+      signal: abort.signal
+    });
+    // The access token expired: renew it once and reconnect
+    if (res.status === 401 && !renewed && (await refreshSession(token))) {
+      return connect(reconnected, true);
+    }
+    // Signed out or no longer allowed: stop rather than retry
+    if (res.status === 401 || res.status === 403) return;
+    if (!res.ok || !res.body) throw new Error(`Event stream failed with status ${res.status}`);
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        }
+        if (data.length > 0) handleEvent(event, data.join('\n'), reconnected);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } catch (err) {
+    if (abort.signal.aborted) return;
+    console.error('Live updates disconnected:', err);
+  }
+  if (abort.signal.aborted || listeners.size === 0) return;
+  retryTimer = window.setTimeout(() => connect(true), RETRY_MS);
+}
+
+function subscribe(listener: (message: StreamMessage) => void) {
+  listeners.add(listener);
+  if (!controller || controller.signal.aborted) {
+    window.clearTimeout(retryTimer);
+    connect(false);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.clearTimeout(retryTimer);
+      controller?.abort();
+      controller = null;
+    }
+  };
+}
+
+// Applies an upsert or remove to a list of records; reloads are left to the
+// caller. Upserted records that fail `belongs` (e.g. a task completed or moved
+// to another customer) are dropped from the list instead of added.
+export function applyLiveChange<T extends { id: string }>(
+  list: T[],
+  change: LiveChange<T>,
+  belongs: (item: T) => boolean = () => true
+): T[] {
+  if (change.action === 'remove') {
+    const ids = new Set(change.ids ?? []);
+    return list.filter((item) => !ids.has(item.id));
+  }
+  if (change.action === 'upsert') {
+    const items = change.items ?? [];
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const dropped = new Set(items.filter((item) => !belongs(item)).map((item) => item.id));
+    const updated = list.filter((item) => !dropped.has(item.id)).map((item) => byId.get(item.id) ?? item);
+    const added = items.filter((item) => !dropped.has(item.id) && !list.some((existing) => existing.id === item.id));
+    return [...updated, ...added];
+  }
+  return list;
+}
+
+// Calls onChange for every live change to the given kind of record
+export function useLiveChanges<T>(entity: LiveEntity, onChange: (change: LiveChange<T>) => void) {
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(
+    () =>
+      subscribe((message) => {
+        if (message.type === 'change' && message.change.entity === entity) {
+          handler.current(message.change as LiveChange<T>);
+        }
+      }),
+    [entity]
+  );
+}
+
+// Who has which quote open, excluding this tab
+export function usePresence(): PresenceEntry[] {
+  const others = (entries: PresenceEntry[]) => entries.filter((entry) => entry.tabId !== TAB_ID);
+  const [presence, setPresence] = useState<PresenceEntry[]>(() => others(currentPresence));
+
+  useEffect(
+    () =>
+      subscribe((message) => {
+        if (message.type === 'presence') setPresence(others(message.presence));
+      }),
+    []
+  );
+
+  return presence;
+}
+
+// Presence updates are sent one at a time so a clear cannot overtake the
+// update that follows it
+let presenceQueue: Promise<void> = Promise.resolve();
+
+function sendPresence(quoteId: string | null, editing = false) {
+  presenceQueue = presenceQueue
+    .then(() => updatePresence(TAB_ID, quoteId, editing))
+    .catch((err) => console.error('Failed to update presence:', err));
+}
+
+// Reports that this tab is viewing (or editing) a quote until quoteId changes
+// to null or the component unmounts
+export function useQuotePresence(quoteId: string | null, editing: boolean) {
+  const editingRef = useRef(editing);
+  editingRef.current = editing;
+
+  useEffect(() => {
+    if (!quoteId) return;
+    const timer = window.setInterval(() => sendPresence(quoteId, editingRef.current), PRESENCE_REFRESH_MS);
+    return () => {
+      window.clearInterval(timer);
+      sendPresence(null);
+    };
+  }, [quoteId]);
+
+  useEffect(() => {
+    if (quoteId) sendPresence(quoteId, editing);
+  }, [quoteId, editing]);
+}
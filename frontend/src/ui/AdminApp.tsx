@@ -1,13 +1,26 @@
 import React, { useEffect, useState } from 'react';
-import { fetchAllUsers, fetchPendingUsers, approveUser, type User } from '../api';
+import { fetchAllUsers, fetchPendingUsers, approveUser, rejectUser, suspendUser, updateUserRole, updateUserManager, logout, USER_ROLES, type User, type UserRole, type UserStatus } from '../api';
+import { ChaseCadencesPanel } from './ChaseCadencesPanel';
+import { EmailTemplatesPanel } from './EmailTemplatesPanel';
+import { AuditLogPanel } from './AuditLogPanel';
+import { UserSessionsPanel } from './UserSessionsPanel';
 import { Footer } from './Footer';
 
+const STATUS_STYLES: Record<UserStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-700' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Rejected', className: 'bg-slate-200 text-slate-700' },
+  suspended: { label: 'Suspended', className: 'bg-red-100 text-red-700' }
+};
+
 export const AdminApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavigateToDashboard }) => {
   const [users, setUsers] = useState<User[]>([]);
   const [pendingUsers, setPendingUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'pending' | 'all'>('pending');
+  const [activeTab, setActiveTab] = useState<'pending' | 'all' | 'chasing' | 'templates' | 'audit'>('pending');
+  // The user whose sessions are shown below their row
+  const [sessionsUserId, setSessionsUserId] = useState<string | null>(null);
 
   useEffect(() => {
     loadUsers();
@@ -40,12 +53,58 @@ export const AdminApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
     }
   };
 
+  const handleReject = async (user: User) => {
+    const reason = window.prompt(`Reason for rejecting ${user.username}:`);
+    if (!reason || !reason.trim()) return;
+    try {
+      await rejectUser(user.id, reason.trim());
+      await loadUsers();
+    } catch (err) {
+      console.error(err);
+      setError('Unable to reject user. Please try again.');
+    }
+  };
+
+  const handleSuspend = async (user: User) => {
+    const reason = window.prompt(`Reason for suspending ${user.username}:`);
+    if (!reason || !reason.trim()) return;
+    try {
+      await suspendUser(user.id, reason.trim());
+      await loadUsers();
+    } catch (err) {
+      console.error(err);
+      setError('Unable to suspend user. Please try again.');
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: UserRole) => {
+    try {
+      const { user: updated } = await updateUserRole(userId, role);
+      setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+      setPendingUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to update role. Please try again.');
+    }
+  };
+
+  const handleManagerChange = async (userId: string, managerId: string) => {
+    try {
+      const { user: updated } = await updateUserManager(userId, managerId || null);
+      setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+      setPendingUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to update manager. Please try again.');
+    }
+  };
+
   const handleLogout = () => {
-    localStorage.removeItem('auth_token');
-    window.location.reload();
+    logout();
   };
 
   const displayUsers = activeTab === 'pending' ? pendingUsers : users;
+  const managerOptions = users.filter((u) => u.status === 'approved');
 
   return (
     <div className="min-h-screen bg-slate-100 flex flex-col">
@@ -62,7 +121,7 @@ export const AdminApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
                 Admin Panel
               </h1>
               <p className="text-xs text-slate-500">
-                User management and approvals
+                User management, roles, approvals and audit log
               </p>
             </div>
           </div>
@@ -115,9 +174,48 @@ export const AdminApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
           >
             All Users ({users.length})
           </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('chasing')}
+            className={`px-4 py-2 text-sm font-medium transition ${
+              activeTab === 'chasing'
+                ? 'border-b-2 border-blue-600 text-blue-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            Chase Cadences
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('templates')}
+            className={`px-4 py-2 text-sm font-medium transition ${
+              activeTab === 'templates'
+                ? 'border-b-2 border-blue-600 text-blue-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            Email Templates
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('audit')}
+            className={`px-4 py-2 text-sm font-medium transition ${
+              activeTab === 'audit'
+                ? 'border-b-2 border-blue-600 text-blue-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            Audit Log
+          </button>
         </div>
 
-        {loading ? (
+        {activeTab === 'chasing' ? (
+          <ChaseCadencesPanel />
+        ) : activeTab === 'templates' ? (
+          <EmailTemplatesPanel />
+        ) : activeTab === 'audit' ? (
+          <AuditLogPanel users={users} />
+        ) : loading ? (
           <div className="text-center py-12 text-slate-500">Loading users...</div>
         ) : displayUsers.length === 0 ? (
           <div className="text-center py-12 text-slate-500">
@@ -130,44 +228,110 @@ export const AdminApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
                 <tr>
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Username</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Email</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Role</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Manager</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Status</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Created</th>
-                  {activeTab === 'pending' && (
-                    <th className="px-4 py-3 text-right text-xs font-medium text-slate-600">Action</th>
-                  )}
+                  <th className="px-4 py-3 text-right text-xs font-medium text-slate-600">Action</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-200">
                 {displayUsers.map((user) => (
-                  <tr key={user.id} className="hover:bg-slate-50">
-                    <td className="px-4 py-3 text-sm text-slate-900">{user.username || user.email}</td>
-                    <td className="px-4 py-3 text-sm text-slate-600">{user.email}</td>
-                    <td className="px-4 py-3">
-                      <span
-                        className={`inline-flex rounded-full px-2 py-1 text-xs font-medium ${
-                          user.approved
-                            ? 'bg-green-100 text-green-700'
-                            : 'bg-yellow-100 text-yellow-700'
-                        }`}
-                      >
-                        {user.approved ? 'Approved' : 'Pending'}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3 text-sm text-slate-600">
-                      {new Date(user.createdAt).toLocaleDateString()}
-                    </td>
-                    {activeTab === 'pending' && !user.approved && (
-                      <td className="px-4 py-3 text-right">
-                        <button
-                          type="button"
-                          onClick={() => handleApprove(user.id)}
-                          className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+                  <React.Fragment key={user.id}>
+                    <tr className="hover:bg-slate-50">
+                      <td className="px-4 py-3 text-sm text-slate-900">{user.username || user.email}</td>
+                      <td className="px-4 py-3 text-sm text-slate-600">{user.email}</td>
+                      <td className="px-4 py-3">
+                        <select
+                          value={user.role}
+                          onChange={(e) => handleRoleChange(user.id, e.target.value as UserRole)}
+                          className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none ring-blue-500/0 transition focus:ring-2"
                         >
-                          Approve
-                        </button>
+                          {USER_ROLES.map((role) => (
+                            <option key={role.id} value={role.id}>
+                              {role.title}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          value={user.managerId || ''}
+                          onChange={(e) => handleManagerChange(user.id, e.target.value)}
+                          className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none ring-blue-500/0 transition focus:ring-2"
+                        >
+                          <option value="">No manager</option>
+                          {managerOptions
+                            .filter((manager) => manager.id !== user.id)
+                            .map((manager) => (
+                              <option key={manager.id} value={manager.id}>
+                                {manager.username}
+                              </option>
+                            ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex rounded-full px-2 py-1 text-xs font-medium ${STATUS_STYLES[user.status].className}`}
+                        >
+                          {STATUS_STYLES[user.status].label}
+                        </span>
+                        {user.statusReason && (
+                          <p className="mt-1 text-[11px] text-slate-500">{user.statusReason}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-slate-600">
+                        {new Date(user.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <div className="flex justify-end gap-2">
+                          {user.status !== 'approved' && (
+                            <button
+                              type="button"
+                              onClick={() => handleApprove(user.id)}
+                              className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+                            >
+                              {user.status === 'pending' ? 'Approve' : 'Reinstate'}
+                            </button>
+                          )}
+                          {user.status === 'pending' && (
+                            <button
+                              type="button"
+                              onClick={() => handleReject(user)}
+                              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                            >
+                              Reject
+                            </button>
+                          )}
+                          {user.status === 'approved' && (
+                            <button
+                              type="button"
+                              onClick={() => setSessionsUserId(sessionsUserId === user.id ? null : user.id)}
+                              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                            >
+                              {sessionsUserId === user.id ? 'Hide sessions' : 'Sessions'}
+                            </button>
+                          )}
+                          {user.status === 'approved' && (
+                            <button
+                              type="button"
+                              onClick={() => handleSuspend(user)}
+                              className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50"
+                            >
+                              Suspend
+                            </button>
+                          )}
+                        </div>
                       </td>
+                    </tr>
+                    {sessionsUserId === user.id && (
+                      <tr>
+                        <td colSpan={7} className="bg-slate-50 px-4 py-3">
+                          <UserSessionsPanel user={user} />
+                        </td>
+                      </tr>
                     )}
-                  </tr>
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
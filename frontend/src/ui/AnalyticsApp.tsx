@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchWinRate,
+  fetchCycleTime,
+  fetchPipeline,
+  fetchForecast,
+  fetchBreakdown,
+  logout,
+  type AnalyticsPeriod,
+  type AnalyticsBreakdownBy,
+  type WinLossReport,
+  type CycleTimeReport,
+  type PipelineStage,
+  type ForecastReport,
+  type BreakdownRow
+} from '../api';
+import { STAGES } from './KanbanApp';
+import { Footer } from './Footer';
+
+const STAGE_TITLES: Record<string, string> = Object.fromEntries(STAGES.map((s) => [s.id, s.title]));
+
+const BREAKDOWNS: { id: AnalyticsBreakdownBy; title: string }[] = [
+  { id: 'customer', title: 'Customer' },
+  { id: 'industry', title: 'Industry' },
+  { id: 'creator', title: 'Quote creator' }
+];
+
+const formatMoney = (amount: number) => `£${Math.round(amount).toLocaleString()}`;
+const formatRate = (rate: number | null) => (rate == null ? '—' : `${rate}%`);
+const formatDays = (days: number | null) => (days == null ? '—' : `${days} days`);
+
+const formatPeriod = (iso: string, period: AnalyticsPeriod) => {
+  const date = new Date(iso);
+  if (period === 'year') return date.getFullYear().toString();
+  if (period === 'quarter') return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+  if (period === 'week') return `w/c ${date.toLocaleDateString()}`;
+  return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+const isoDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const AnalyticsApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavigateToDashboard }) => {
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setFullYear(date.getFullYear() - 1);
+    return isoDate(date);
+  });
+  const [to, setTo] = useState(() => isoDate(new Date()));
+  const [period, setPeriod] = useState<AnalyticsPeriod>('month');
+  const [breakdownBy, setBreakdownBy] = useState<AnalyticsBreakdownBy>('customer');
+  const [winLoss, setWinLoss] = useState<WinLossReport | null>(null);
+  const [cycleTime, setCycleTime] = useState<CycleTimeReport | null>(null);
+  const [pipeline, setPipeline] = useState<PipelineStage[]>([]);
+  const [forecast, setForecast] = useState<ForecastReport | null>(null);
+  const [breakdown, setBreakdown] = useState<BreakdownRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        const range = { from, to };
+        const [winLossData, cycleTimeData, pipelineData, forecastData] = await Promise.all([
+          fetchWinRate(period, range),
+          fetchCycleTime(range),
+          fetchPipeline(),
+          fetchForecast()
+        ]);
+        setWinLoss(winLossData);
+        setCycleTime(cycleTimeData);
+        setPipeline(pipelineData);
+        setForecast(forecastData);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load analytics:', err);
+        setError('Unable to load analytics.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [from, to, period]);
+
+  useEffect(() => {
+    fetchBreakdown(breakdownBy, { from, to })
+      .then(setBreakdown)
+      .catch((err) => {
+        console.error('Failed to load breakdown:', err);
+        setError('Unable to load breakdown.');
+      });
+  }, [breakdownBy, from, to]);
+
+  const handleLogout = () => {
+    logout();
+  };
+
+  const maxPeriodCount = Math.max(1, ...(winLoss?.periods.map((p) => p.won + p.lost) ?? []));
+  const maxStageValue = Math.max(1, ...pipeline.map((s) => s.value));
+
+  return (
+    <div className="min-h-screen bg-slate-100 flex flex-col">
+      <header className="border-b border-slate-200 bg-white/80 backdrop-blur">
+        <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-3">
+            <img
+              src="/logo.svg"
+              alt="Company Logo"
+              className="h-10 w-auto"
+            />
+            <div>
+              <h1 className="text-lg font-semibold text-slate-900">
+                Pipeline Analytics
+              </h1>
+              <p className="text-xs text-slate-500">
+                Win rate, cycle time and forecast
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={onNavigateToDashboard}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+            >
+              Dashboard
+            </button>
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 mx-auto w-full max-w-7xl px-6 py-6 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">From</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:ring-2"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">To</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:ring-2"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">Group by</span>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:ring-2"
+            >
+              <option value="week">Week</option>
+              <option value="month">Month</option>
+              <option value="quarter">Quarter</option>
+              <option value="year">Year</option>
+            </select>
+          </label>
+          {loading && <span className="pb-2 text-xs text-slate-500">Loading...</span>}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+            <p className="text-xs font-medium text-slate-500">Win rate</p>
+            <p className="mt-1 text-2xl font-bold text-slate-900">{formatRate(winLoss?.totals.winRate ?? null)}</p>
+            <p className="mt-0.5 text-[11px] text-slate-500">
+              {winLoss?.totals.won ?? 0} won · {winLoss?.totals.lost ?? 0} lost
+            </p>
+          </div>
+          <div className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+            <p className="text-xs font-medium text-slate-500">Average days new → won</p>
+            <p className="mt-1 text-2xl font-bold text-slate-900">{formatDays(cycleTime?.averageDays ?? null)}</p>
+            <p className="mt-0.5 text-[11px] text-slate-500">
+              Median {formatDays(cycleTime?.medianDays ?? null)} over {cycleTime?.count ?? 0} wins
+            </p>
+          </div>
+          <div className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+            <p className="text-xs font-medium text-slate-500">Open pipeline</p>
+            <p className="mt-1 text-2xl font-bold text-slate-900">{formatMoney(forecast?.openValue ?? 0)}</p>
+            <p className="mt-0.5 text-[11px] text-slate-500">Unweighted value of open quotes</p>
+          </div>
+          <div className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+            <p className="text-xs font-medium text-slate-500">Weighted forecast</p>
+            <p className="mt-1 text-2xl font-bold text-blue-700">{formatMoney(forecast?.weightedValue ?? 0)}</p>
+            <p className="mt-0.5 text-[11px] text-slate-500">Open value × stage probability</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <section className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+            <h2 className="mb-3 text-sm font-semibold text-slate-900">Won vs lost by {period}</h2>
+            {!winLoss || winLoss.periods.length === 0 ? (
+              <p className="text-xs text-slate-500">No quotes closed in this range.</p>
+            ) : (
+              <ul className="space-y-2">
+                {winLoss.periods.map((p) => (
+                  <li key={p.period} className="text-xs">
+                    <div className="mb-0.5 flex justify-between text-slate-600">
+                      <span>{formatPeriod(p.period, period)}</span>
+                      <span>
+                        {p.won} won / {p.lost} lost · {formatRate(p.winRate)} · {formatMoney(p.wonValue)}
+                      </span>
+                    </div>
+                    <div className="flex h-2 overflow-hidden rounded-full bg-slate-100">
+                      <div className="bg-green-500" style={{ width: `${(p.won / maxPeriodCount) * 100}%` }} />
+                      <div className="bg-red-400" style={{ width: `${(p.lost / maxPeriodCount) * 100}%` }} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+            <h2 className="mb-3 text-sm font-semibold text-slate-900">Pipeline value by stage</h2>
+            <ul className="space-y-2">
+              {pipeline.map((s) => {
+                const forecastStage = forecast?.stages.find((f) => f.stage === s.stage);
+                return (
+                  <li key={s.stage} className="text-xs">
+                    <div className="mb-0.5 flex justify-between text-slate-600">
+                      <span>
+                        {STAGE_TITLES[s.stage] || s.stage} ({s.count})
+                      </span>
+                      <span>
+                        {formatMoney(s.value)}
+                        {forecastStage &&
+                          ` · ${Math.round(forecastStage.probability * 100)}% → ${formatMoney(forecastStage.weightedValue)}`}
+                      </span>
+                    </div>
+                    <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+                      <div className="h-full bg-blue-500" style={{ width: `${(s.value / maxStageValue) * 100}%` }} />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        </div>
+
+        <section className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+          <div className="mb-3 flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-slate-900">Breakdown</h2>
+            <div className="flex gap-2">
+              {BREAKDOWNS.map((b) => (
+                <button
+                  key={b.id}
+                  type="button"
+                  onClick={() => setBreakdownBy(b.id)}
+                  className={`rounded-lg px-3 py-1 text-xs font-medium transition ${
+                    breakdownBy === b.id
+                      ? 'bg-blue-600 text-white'
+                      : 'border border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {b.title}
+                </button>
+              ))}
+            </div>
+          </div>
+          {breakdown.length === 0 ? (
+            <p className="text-xs text-slate-500">No quotes created in this range.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">
+                    {BREAKDOWNS.find((b) => b.id === breakdownBy)?.title}
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-slate-600">Quotes</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-slate-600">Open value</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-slate-600">Won</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-slate-600">Lost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-slate-600">Won value</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-slate-600">Win rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {breakdown.map((row) => (
+                  <tr key={row.label} className="hover:bg-slate-50">
+                    <td className="px-3 py-2 text-slate-900">{row.label}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{row.quotes}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{formatMoney(row.openValue)}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{row.won}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{row.lost}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{formatMoney(row.wonValue)}</td>
+                    <td className="px-3 py-2 text-right font-medium text-slate-900">{formatRate(row.winRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
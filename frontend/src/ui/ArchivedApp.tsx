@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchArchivedItems,
+  restoreItem,
+  deleteItemPermanently,
+  logout,
+  type ArchivableEntity,
+  type ArchivedItems
+} from '../api';
+import { Footer } from './Footer';
+
+type ArchivedRow = {
+  id: string;
+  title: string;
+  detail: string;
+  archivedAt: string;
+  archivedByName: string | null;
+};
+
+const TABS: { entity: ArchivableEntity; key: keyof ArchivedItems; title: string }[] = [
+  { entity: 'quote', key: 'quotes', title: 'Quotes' },
+  { entity: 'customer', key: 'customers', title: 'Customers' },
+  { entity: 'task', key: 'tasks', title: 'Tasks' },
+  { entity: 'activity', key: 'activities', title: 'Activities' }
+];
+
+const EMPTY: ArchivedItems = { quotes: [], customers: [], tasks: [], activities: [] };
+
+// Flattens each kind of archived record into the columns the table shows
+const toRows = (items: ArchivedItems, entity: ArchivableEntity): ArchivedRow[] => {
+  switch (entity) {
+    case 'quote':
+      return items.quotes.map((q) => ({
+        ...q,
+        detail: [q.clientName, q.soNumber].filter(Boolean).join(' · ')
+      }));
+    case 'customer':
+      return items.customers.map((c) => ({
+        ...c,
+        title: c.name,
+        detail: [c.email, c.industry].filter(Boolean).join(' · ')
+      }));
+    case 'task':
+      return items.tasks.map((t) => ({
+        ...t,
+        detail: [t.customerName, t.dueDate && `Due ${new Date(t.dueDate).toLocaleDateString()}`]
+          .filter(Boolean)
+          .join(' · ')
+      }));
+    case 'activity':
+      return items.activities.map((a) => ({
+        ...a,
+        title: a.subject || a.type,
+        detail: [a.customerName, new Date(a.activityDate).toLocaleDateString()].filter(Boolean).join(' · ')
+      }));
+  }
+};
+
+export const ArchivedApp: React.FC<{ onNavigateToDashboard: () => void; canDelete?: boolean }> = ({
+  onNavigateToDashboard,
+  canDelete = false
+}) => {
+  const [items, setItems] = useState<ArchivedItems>(EMPTY);
+  const [activeTab, setActiveTab] = useState<ArchivableEntity>('quote');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = async () => {
+    try {
+      setLoading(true);
+      setItems(await fetchArchivedItems());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load archived items:', err);
+      setError('Unable to load archived items.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const handleRestore = async (row: ArchivedRow) => {
+    try {
+      setBusyId(row.id);
+      await restoreItem(activeTab, row.id);
+      await loadItems();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to restore item.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (row: ArchivedRow) => {
+    if (!window.confirm(`Permanently delete "${row.title}"? This cannot be undone.`)) return;
+    try {
+      setBusyId(row.id);
+      await deleteItemPermanently(activeTab, row.id);
+      await loadItems();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to delete item.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLogout = () => {
+    logout();
+  };
+
+  const rows = toRows(items, activeTab);
+
+  return (
+    <div className="min-h-screen bg-slate-100 flex flex-col">
+      <header className="border-b border-slate-200 bg-white/80 backdrop-blur">
+        <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-3">
+            <img
+              src="/logo.svg"
+              alt="Company Logo"
+              className="h-10 w-auto"
+            />
+            <div>
+              <h1 className="text-lg font-semibold text-slate-900">
+                Archived
+              </h1>
+              <p className="text-xs text-slate-500">
+                Restore archived quotes, customers, tasks and activities
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={onNavigateToDashboard}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+            >
+              Dashboard
+            </button>
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 mx-auto w-full max-w-7xl px-6 py-6">
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-4 flex gap-2 border-b border-slate-200">
+          {TABS.map((tab) => (
+            <button
+              key={tab.entity}
+              type="button"
+              onClick={() => setActiveTab(tab.entity)}
+              className={`px-4 py-2 text-sm font-medium transition ${
+                activeTab === tab.entity
+                  ? 'border-b-2 border-blue-600 text-blue-600'
+                  : 'text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              {tab.title} ({items[tab.key].length})
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12 text-slate-500">Loading archived items...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12 text-slate-500">Nothing archived</div>
+        ) : (
+          <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
+            <table className="w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Name</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Archived</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Archived by</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-slate-600">Action</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {rows.map((row) => (
+                  <tr key={row.id} className="hover:bg-slate-50">
+                    <td className="px-4 py-3">
+                      <p className="text-sm text-slate-900">{row.title}</p>
+                      {row.detail && <p className="text-xs text-slate-500">{row.detail}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-600">
+                      {new Date(row.archivedAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-600">{row.archivedByName || '—'}</td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(row)}
+                          disabled={busyId === row.id}
+                          className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+                        >
+                          Restore
+                        </button>
+                        {canDelete && (
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(row)}
+                            disabled={busyId === row.id}
+                            className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+                          >
+                            Delete permanently
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchAuditLog,
+  AUDIT_ENTITY_TYPES,
+  type AuditEntry,
+  type AuditEntityType,
+  type AuditLogFilters,
+  type User
+} from '../api';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_TITLES = Object.fromEntries(AUDIT_ENTITY_TYPES.map((t) => [t.id, t.title])) as Record<
+  AuditEntityType,
+  string
+>;
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-100 text-green-700',
+  delete: 'bg-red-100 text-red-700',
+  archive: 'bg-slate-200 text-slate-700',
+  merge: 'bg-purple-100 text-purple-700',
+  block: 'bg-amber-100 text-amber-800',
+  sign_out: 'bg-slate-200 text-slate-700',
+  password_reset: 'bg-amber-100 text-amber-800',
+  password_change: 'bg-slate-200 text-slate-700'
+};
+
+const inputClass =
+  'rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs outline-none ring-blue-500/0 transition focus:ring-2';
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+type Draft = {
+  userId: string;
+  entityType: AuditEntityType | '';
+  entityId: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_DRAFT: Draft = { userId: '', entityType: '', entityId: '', from: '', to: '' };
+
+// Unset filters are left out of the request
+const toFilters = (draft: Draft): AuditLogFilters => ({
+  userId: draft.userId || undefined,
+  entityType: draft.entityType || undefined,
+  entityId: draft.entityId.trim() || undefined,
+  from: draft.from || undefined,
+  to: draft.to || undefined
+});
+
+export const AuditLogPanel: React.FC<{ users: User[] }> = ({ users }) => {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [offset, setOffset] = useState(0);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchAuditLog({ ...filters, limit: PAGE_SIZE, offset });
+        if (cancelled) return;
+        setEntries(data.entries);
+        setTotal(data.total);
+      } catch (err: any) {
+        console.error(err);
+        if (!cancelled) setError(err?.response?.data?.message || 'Unable to load the audit log.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, offset]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(toFilters(draft));
+    setOffset(0);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_DRAFT);
+    setFilters({});
+    setOffset(0);
+  };
+
+  const updateDraft = (patch: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleSearch}
+        className="flex flex-wrap items-end gap-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm"
+      >
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          User
+          <select value={draft.userId} onChange={(e) => updateDraft({ userId: e.target.value })} className={inputClass}>
+            <option value="">Anyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.username}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          Record type
+          <select
+            value={draft.entityType}
+            onChange={(e) => updateDraft({ entityType: e.target.value as AuditEntityType | '' })}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {AUDIT_ENTITY_TYPES.map((type) => (
+              <option key={type.id} value={type.id}>
+                {type.title}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          Record ID
+          <input
+            type="text"
+            value={draft.entityId}
+            onChange={(e) => updateDraft({ entityId: e.target.value })}
+            placeholder="Any"
+            className={`${inputClass} w-64`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          From
+          <input type="date" value={draft.from} onChange={(e) => updateDraft({ from: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          To
+          <input type="date" value={draft.to} onChange={(e) => updateDraft({ to: e.target.value })} className={inputClass} />
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+          >
+            Search
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-slate-500">Loading audit log...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 text-slate-500">No changes match these filters</div>
+      ) : (
+        <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">When</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">User</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Record</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Action</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {entries.map((entry) => {
+                const changes = Object.entries(entry.changes);
+                return (
+                  <tr key={entry.id} className="align-top hover:bg-slate-50">
+                    <td className="whitespace-nowrap px-4 py-3 text-xs text-slate-600">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-900">{entry.actorName || 'System'}</td>
+                    <td className="px-4 py-3 text-xs">
+                      <p className="font-medium text-slate-900">{ENTITY_TITLES[entry.entityType] || entry.entityType}</p>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const next = { ...EMPTY_DRAFT, entityType: entry.entityType, entityId: entry.entityId };
+                          setDraft(next);
+                          setFilters(toFilters(next));
+                          setOffset(0);
+                        }}
+                        title="Show the history of this record"
+                        className="break-all text-left text-[11px] text-blue-600 hover:underline"
+                      >
+                        {entry.entityId}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-1 text-xs font-medium ${
+                          ACTION_STYLES[entry.action] || 'bg-blue-100 text-blue-700'
+                        }`}
+                      >
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-700">
+                      {changes.length === 0 ? (
+                        <span className="text-slate-400">No field changes</span>
+                      ) : (
+                        <dl className="space-y-1">
+                          {changes.map(([field, change]) => (
+                            <div key={field} className="break-words">
+                              <dt className="inline font-medium text-slate-900">{field}: </dt>
+                              <dd className="inline">
+                                <span className="text-red-700 line-through decoration-red-300">{formatValue(change.from)}</span>
+                                {' → '}
+                                <span className="text-green-700">{formatValue(change.to)}</span>
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between border-t border-slate-200 px-4 py-3 text-xs text-slate-600">
+            <span>
+              {offset + 1}–{offset + entries.length} of {total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-1 font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Newer
+              </button>
+              <button
+                type="button"
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + entries.length >= total}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-1 font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Older
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,28 +4,195 @@ import { CustomersApp } from './CustomersApp';
 import { CRMApp } from './CRMApp';
 import { TasksApp } from './TasksApp';
 import { AdminApp } from './AdminApp';
-import { login, register } from '../api';
+import { AnalyticsApp } from './AnalyticsApp';
+import { ArchivedApp } from './ArchivedApp';
+import {
+  login,
+  register,
+  fetchSetupStatus,
+  completeSetup,
+  saveSession,
+  requestPasswordReset,
+  resetPassword,
+  changePassword
+} from '../api';
 
-type Mode = 'login' | 'register';
-type View = 'kanban' | 'customers' | 'crm' | 'tasks' | 'admin';
+type Mode = 'login' | 'register' | 'setup' | 'forgot' | 'reset';
+type View = 'kanban' | 'customers' | 'crm' | 'tasks' | 'admin' | 'analytics' | 'archived' | 'password';
+
+// Password reset emails link to /#reset-password=<token>
+const RESET_LINK_PREFIX = '#reset-password=';
+
+const readResetToken = () =>
+  typeof window !== 'undefined' && window.location.hash.startsWith(RESET_LINK_PREFIX)
+    ? window.location.hash.slice(RESET_LINK_PREFIX.length)
+    : '';
+
+const inputClass =
+  'rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2';
+
+// Changing the password of the signed-in account
+const ChangePasswordScreen: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    if (newPassword !== confirmPassword) {
+      setError('The new passwords do not match');
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await changePassword(currentPassword, newPassword);
+      setNotice(res.message);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err: any) {
+      console.error('Change password error:', err);
+      setError(err?.response?.data?.message || 'Unable to change the password. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100 flex items-center justify-center px-4">
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-lg">
+        <div className="mb-6 text-center">
+          <h1 className="text-lg font-semibold text-slate-900">Change password</h1>
+          <p className="text-xs text-slate-500 mt-1">You will be signed out on your other devices</p>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">Current password</span>
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+              className={inputClass}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">New password</span>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              autoComplete="new-password"
+              minLength={8}
+              className={inputClass}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">Confirm new password</span>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              minLength={8}
+              className={inputClass}
+              required
+            />
+          </label>
+          <p className="text-[11px] text-slate-500">
+            At least 8 characters, with an uppercase letter, a lowercase letter and a number.
+          </p>
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">{error}</div>
+          )}
+          {notice && (
+            <div className="rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-xs text-green-700">{notice}</div>
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="mt-2 w-full rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
+          >
+            {saving ? 'Please wait…' : 'Change password'}
+          </button>
+        </form>
+        <div className="mt-4 text-center text-xs text-slate-500">
+          <button type="button" onClick={onDone} className="font-medium text-blue-600 hover:text-blue-700">
+            Back to dashboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
 
 export const AuthApp: React.FC = () => {
-  const [mode, setMode] = useState<Mode>('login');
+  const [resetToken] = useState(readResetToken);
+  const [mode, setMode] = useState<Mode>(resetToken ? 'reset' : 'login');
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [setupToken, setSetupToken] = useState('');
+  const [needsSetup, setNeedsSetup] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
+  // Confirmation shown above the form, e.g. after a reset link was sent
+  const [notice, setNotice] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [view, setView] = useState<View>('kanban');
 
   const token = typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null;
 
+  // Keep the reset token out of the address bar and browser history
+  useEffect(() => {
+    if (resetToken) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+  }, [resetToken]);
+
+  // On a fresh install there is no admin yet; offer the one-time setup form
+  useEffect(() => {
+    if (token || resetToken) return;
+    fetchSetupStatus()
+      .then(({ needsSetup }) => {
+        setNeedsSetup(needsSetup);
+        if (needsSetup) setMode('setup');
+      })
+      .catch((err) => console.error('Setup status error:', err));
+  }, [token]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setAuthError(null);
+    setNotice(null);
     setLoading(true);
     try {
-      if (mode === 'register') {
+      if (mode === 'forgot') {
+        const res = await requestPasswordReset(username);
+        setNotice(res.message);
+        setMode('login');
+      } else if (mode === 'reset') {
+        if (password !== confirmPassword) {
+          setAuthError('The passwords do not match');
+          return;
+        }
+        const res = await resetPassword(resetToken, password);
+        setNotice(res.message);
+        setMode('login');
+        setPassword('');
+        setConfirmPassword('');
+      } else if (mode === 'setup') {
+        const res = await completeSetup(setupToken.trim(), username, email, password);
+        saveSession(res);
+        window.location.reload();
+      } else if (mode === 'register') {
         if (!email || !email.trim()) {
           setAuthError('Email address is required');
           return;
@@ -40,18 +207,25 @@ export const AuthApp: React.FC = () => {
         setPassword('');
       } else {
         const res = await login(username, password);
-        localStorage.setItem('auth_token', res.token);
+        saveSession(res);
         window.location.reload();
       }
     } catch (err: any) {
       console.error('Auth error:', err);
-      let msg = err?.response?.data?.message || (mode === 'login' ? 'Login failed' : 'Registration failed');
+      const failures: Record<Mode, string> = {
+        login: 'Login failed',
+        register: 'Registration failed',
+        setup: 'Setup failed',
+        forgot: 'Unable to send the reset link',
+        reset: 'Unable to reset the password'
+      };
+      let msg = err?.response?.data?.message || failures[mode];
       
       // More specific error messages
       if (err?.code === 'ECONNREFUSED' || err?.message?.includes('Network Error')) {
         msg = 'Cannot connect to server. Make sure the backend is running on port 4000.';
       } else if (err?.response?.status === 401) {
-        msg = 'Invalid username or password';
+        msg = mode === 'setup' ? 'Invalid or expired setup token' : 'Invalid username or password';
       } else if (err?.response?.status === 400) {
         msg = err?.response?.data?.message || 'Please check your input';
       } else if (err?.response?.status === 503) {
@@ -97,10 +271,11 @@ export const AuthApp: React.FC = () => {
   
   useEffect(() => {
     if (token) {
-      // Decode token to check if user is admin
+      // Decode token to check the user's role. This only controls navigation;
+      // the server enforces permissions on every request.
       try {
         const payload = JSON.parse(atob(token.split('.')[1]));
-        setIsAdmin(payload.username === 'admin' || payload.email === 'admin');
+        setIsAdmin(payload.role === 'admin');
       } catch (err) {
         setIsAdmin(false);
       }
@@ -108,6 +283,9 @@ export const AuthApp: React.FC = () => {
   }, [token]);
 
   if (token) {
+      if (view === 'password') {
+        return <ChangePasswordScreen onDone={() => setView('kanban')} />;
+      }
       if (view === 'admin') {
         return <AdminApp onNavigateToDashboard={() => setView('kanban')} />;
       }
@@ -120,11 +298,20 @@ export const AuthApp: React.FC = () => {
       if (view === 'tasks') {
         return <TasksApp onNavigateToDashboard={() => setView('kanban')} />;
       }
+      if (view === 'analytics') {
+        return <AnalyticsApp onNavigateToDashboard={() => setView('kanban')} />;
+      }
+      if (view === 'archived') {
+        return <ArchivedApp onNavigateToDashboard={() => setView('kanban')} canDelete={isAdmin} />;
+      }
       return <KanbanApp 
         onNavigateToCustomers={() => setView('customers')} 
         onNavigateToCRM={() => setView('crm')} 
         onNavigateToTasks={() => setView('tasks')}
+        onNavigateToAnalytics={() => setView('analytics')}
+        onNavigateToArchived={() => setView('archived')}
         onNavigateToAdmin={isAdmin ? () => setView('admin') : undefined}
+        onNavigateToChangePassword={() => setView('password')}
       />;
   }
 
@@ -139,21 +326,51 @@ export const AuthApp: React.FC = () => {
           />
           <h1 className="text-lg font-semibold text-slate-900">Quote Pipeline</h1>
           <p className="text-xs text-slate-500 mt-1">
-            {mode === 'login' ? 'Sign in to your account' : 'Create a new account'}
+            {mode === 'login'
+              ? 'Sign in to your account'
+              : mode === 'setup'
+                ? 'Create the first administrator account'
+                : mode === 'forgot'
+                  ? 'We will email you a link to choose a new password'
+                  : mode === 'reset'
+                    ? 'Choose a new password'
+                    : 'Create a new account'}
           </p>
         </div>
+        {notice && (
+          <div className="mb-3 rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-xs text-green-700">
+            {notice}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="space-y-3 text-sm">
-          <label className="flex flex-col gap-1">
-            <span className="text-xs font-medium text-slate-600">Username</span>
-            <input
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
-              required
-            />
-          </label>
-          {mode === 'register' && (
+          {mode === 'setup' && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">Setup token</span>
+              <input
+                type="text"
+                value={setupToken}
+                onChange={(e) => setSetupToken(e.target.value)}
+                className="rounded-lg border border-slate-200 px-3 py-1.5 font-mono text-xs outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                required
+                placeholder="Printed in the server console on first start"
+              />
+            </label>
+          )}
+          {mode !== 'reset' && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">
+                {mode === 'forgot' ? 'Username or email address' : 'Username'}
+              </span>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                required
+              />
+            </label>
+          )}
+          {(mode === 'register' || mode === 'setup') && (
             <label className="flex flex-col gap-1">
               <span className="text-xs font-medium text-slate-600">Email Address *</span>
               <input
@@ -166,17 +383,32 @@ export const AuthApp: React.FC = () => {
               />
             </label>
           )}
-          <label className="flex flex-col gap-1">
-            <span className="text-xs font-medium text-slate-600">Password</span>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              minLength={6}
-              className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
-              required
-            />
-          </label>
+          {mode !== 'forgot' && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">{mode === 'reset' ? 'New password' : 'Password'}</span>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={6}
+                className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                required
+              />
+            </label>
+          )}
+          {mode === 'reset' && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">Confirm new password</span>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                minLength={8}
+                className={inputClass}
+                required
+              />
+            </label>
+          )}
           {authError && (
             <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
               {authError}
@@ -187,12 +419,50 @@ export const AuthApp: React.FC = () => {
             disabled={loading}
             className="mt-2 w-full rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
           >
-            {loading ? 'Please wait…' : mode === 'login' ? 'Login' : 'Register'}
+            {loading
+              ? 'Please wait…'
+              : {
+                  login: 'Login',
+                  setup: 'Create admin account',
+                  register: 'Register',
+                  forgot: 'Send reset link',
+                  reset: 'Set new password'
+                }[mode]}
           </button>
         </form>
         <div className="mt-4 text-center text-xs text-slate-500">
-          {mode === 'login' ? (
+          {mode === 'setup' ? (
+            <>
+              Already set up?{' '}
+              <button
+                type="button"
+                onClick={() => setMode('login')}
+                className="font-medium text-blue-600 hover:text-blue-700"
+              >
+                Login
+              </button>
+            </>
+          ) : mode === 'forgot' || mode === 'reset' ? (
+            <>
+              Remembered it?{' '}
+              <button
+                type="button"
+                onClick={() => setMode('login')}
+                className="font-medium text-blue-600 hover:text-blue-700"
+              >
+                Login
+              </button>
+            </>
+          ) : mode === 'login' ? (
             <>
+              <button
+                type="button"
+                onClick={() => setMode('forgot')}
+                className="font-medium text-blue-600 hover:text-blue-700"
+              >
+                Forgot password?
+              </button>
+              {' · '}
               Don&apos;t have an account?{' '}
               <button
                 type="button"
@@ -201,6 +471,18 @@ export const AuthApp: React.FC = () => {
               >
                 Register
               </button>
+              {needsSetup && (
+                <>
+                  {' · '}
+                  <button
+                    type="button"
+                    onClick={() => setMode('setup')}
+                    className="font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    First-time setup
+                  </button>
+                </>
+              )}
             </>
           ) : (
             <>
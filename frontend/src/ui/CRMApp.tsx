@@ -8,18 +8,41 @@ import {
   fetchActivitiesByCustomerId,
   createActivity,
   uploadActivityAttachment,
+  fetchAttachmentTypes,
+  attachmentAccept,
+  downloadFile,
+  checkAttachmentFile,
   fetchTasksByCustomerId,
   fetchAllTasks,
   createTask,
   updateTask,
+  archiveItem,
+  logout,
   type Customer,
   type Contact,
   type Activity,
+  type AttachmentType,
   type Task
 } from '../api';
 import { Footer } from './Footer';
+import { DuplicateCustomersPanel } from './DuplicateCustomersPanel';
+import { CsvImportPanel } from './CsvImportPanel';
+import { ExportMenu } from './ExportMenu';
+import { applyLiveChange, useLiveChanges } from '../realtime';
+import { useVersionedSave, type ConflictFieldSpec } from './ConflictDialog';
 
-type View = 'customers' | 'customer-detail' | 'tasks';
+type View = 'customers' | 'customer-detail' | 'tasks' | 'duplicates' | 'import';
+
+// Fields of the customer edit form, for resolving conflicting edits
+const CUSTOMER_CONFLICT_FIELDS: ConflictFieldSpec<Customer>[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'website', label: 'Website' },
+  { key: 'address', label: 'Address' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'notes', label: 'Notes' }
+];
 
 export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavigateToDashboard }) => {
   const [view, setView] = useState<View>('customers');
@@ -32,6 +55,7 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [isEditingCustomer, setIsEditingCustomer] = useState(false);
+  const { saveWithVersion, conflictDialog } = useVersionedSave<Customer>(CUSTOMER_CONFLICT_FIELDS);
   const [isAddingContact, setIsAddingContact] = useState(false);
   const [isAddingActivity, setIsAddingActivity] = useState(false);
   const [isAddingTask, setIsAddingTask] = useState(false);
@@ -59,6 +83,7 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
   const [activityDescription, setActivityDescription] = useState('');
   const [activityDate, setActivityDate] = useState(new Date().toISOString().split('T')[0]);
   const [activityFile, setActivityFile] = useState<File | null>(null);
+  const [activityFileTypes, setActivityFileTypes] = useState<AttachmentType[]>([]);
 
   // Task form state
   const [taskTitle, setTaskTitle] = useState('');
@@ -66,6 +91,12 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
   const [taskDueDate, setTaskDueDate] = useState('');
   const [taskPriority, setTaskPriority] = useState<'low' | 'medium' | 'high'>('medium');
 
+  useEffect(() => {
+    fetchAttachmentTypes()
+      .then((types) => setActivityFileTypes(types.activity))
+      .catch((err) => console.error('Failed to load attachment types:', err));
+  }, []);
+
   useEffect(() => {
     if (view === 'customers') {
       loadCustomers();
@@ -89,6 +120,40 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
     }
   };
 
+  // Colleagues' changes to the task list and to the open customer's tasks and activities
+  useLiveChanges<Task>('task', (change) => {
+    if (view === 'tasks') {
+      if (change.action === 'reload') {
+        fetchAllTasks().then(setTasks).catch((err) => console.error('Failed to reload tasks:', err));
+      } else {
+        setTasks((prev) => applyLiveChange(prev, change, (task) => !task.completed));
+      }
+    } else if (view === 'customer-detail' && selectedCustomer) {
+      const customerId = selectedCustomer.id;
+      if (change.action === 'reload') {
+        fetchTasksByCustomerId(customerId).then(setTasks).catch((err) => console.error('Failed to reload tasks:', err));
+      } else {
+        setTasks((prev) => applyLiveChange(prev, change, (task) => task.customerId === customerId));
+      }
+    }
+  });
+
+  useLiveChanges<Activity>('activity', (change) => {
+    if (view !== 'customer-detail' || !selectedCustomer) return;
+    const customerId = selectedCustomer.id;
+    if (change.action === 'reload') {
+      fetchActivitiesByCustomerId(customerId)
+        .then(setActivities)
+        .catch((err) => console.error('Failed to reload activities:', err));
+      return;
+    }
+    setActivities((prev) =>
+      applyLiveChange(prev, change, (activity) => activity.customerId === customerId).sort(
+        (a, b) => new Date(b.activityDate).getTime() - new Date(a.activityDate).getTime()
+      )
+    );
+  });
+
   const loadCustomerDetails = async () => {
     if (!selectedCustomer) return;
     try {
@@ -151,15 +216,21 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
     e.preventDefault();
     if (!selectedCustomer) return;
     try {
-      const updated = await updateCustomer(selectedCustomer.id, {
-        name: editName,
-        email: editEmail || undefined,
-        phone: editPhone || undefined,
-        website: editWebsite || undefined,
-        address: editAddress || undefined,
-        industry: editIndustry || undefined,
-        notes: editNotes || undefined
-      });
+      const updated = await saveWithVersion(
+        selectedCustomer,
+        {
+          name: editName,
+          email: editEmail || undefined,
+          phone: editPhone || undefined,
+          website: editWebsite || undefined,
+          address: editAddress || undefined,
+          industry: editIndustry || undefined,
+          notes: editNotes || undefined
+        },
+        (edit) => updateCustomer(selectedCustomer.id, edit)
+      );
+      // Back to editing from the conflict dialog
+      if (!updated) return;
       setSelectedCustomer(updated);
       setIsEditingCustomer(false);
       await loadCustomers();
@@ -210,11 +281,20 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
       
       // Upload file if provided
       let finalActivity = newActivity;
+      let uploadError: string | null = null;
       if (activityFile) {
-        finalActivity = await uploadActivityAttachment(selectedCustomer.id, newActivity.id, activityFile);
+        try {
+          finalActivity = await uploadActivityAttachment(selectedCustomer.id, newActivity.id, activityFile);
+        } catch (err: any) {
+          // Blocked by the virus scan: the activity was created and lists the blocked file
+          if (err?.response?.status !== 422) throw err;
+          finalActivity = err.response.data.activity ?? newActivity;
+          uploadError = err.response.data.message;
+        }
       }
       
       setActivities([finalActivity, ...activities]);
+      setError(uploadError);
       setIsAddingActivity(false);
       setActivityType('call');
       setActivitySubject('');
@@ -251,6 +331,26 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
     }
   };
 
+  const handleArchiveActivity = async (activity: Activity) => {
+    try {
+      await archiveItem('activity', activity.id);
+      setActivities(activities.filter(a => a.id !== activity.id));
+    } catch (err) {
+      console.error(err);
+      setError('Unable to archive activity.');
+    }
+  };
+
+  const handleArchiveTask = async (task: Task) => {
+    try {
+      await archiveItem('task', task.id);
+      setTasks(tasks.filter(t => t.id !== task.id));
+    } catch (err) {
+      console.error(err);
+      setError('Unable to archive task.');
+    }
+  };
+
   const handleToggleTask = async (task: Task) => {
     try {
       const updated = await updateTask(task.id, { completed: !task.completed });
@@ -262,8 +362,7 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('auth_token');
-    window.location.reload();
+    logout();
   };
 
   const filteredCustomers = customers.filter(c =>
@@ -287,6 +386,7 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <ExportMenu datasets={[{ id: 'tasks', label: 'Tasks' }]} />
               <button
                 onClick={() => setView('customers')}
                 className="rounded-lg border border-blue-600 bg-white px-3 py-1.5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50"
@@ -760,12 +860,18 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
                         <span className="text-xs font-medium text-slate-600">Upload Email/File</span>
                         <input
                           type="file"
-                          accept=".eml,.msg,.pdf,.txt"
-                          onChange={(e) => setActivityFile(e.target.files?.[0] || null)}
+                          accept={attachmentAccept(activityFileTypes)}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0] || null;
+                            const problem = file ? checkAttachmentFile(file, activityFileTypes) : null;
+                            if (problem) e.target.value = '';
+                            setError(problem);
+                            setActivityFile(problem ? null : file);
+                          }}
                           className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
                         />
                         <p className="text-xs text-slate-500 mt-1">
-                          Supported: .eml, .msg, .pdf, .txt
+                          Supported: {activityFileTypes.flatMap((type) => type.extensions).join(', ')}
                         </p>
                       </label>
                       <div className="flex justify-end gap-2">
@@ -807,23 +913,39 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
                               )}
                               {activity.attachmentUrl && (
                                 <div className="mt-2">
-                                  <a
-                                    href={activity.attachmentUrl.startsWith('http') ? activity.attachmentUrl : `${window.location.origin}${activity.attachmentUrl}`}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      downloadFile(activity.attachmentUrl!).catch((err) => {
+                                        console.error(err);
+                                        setError('Unable to download the attachment.');
+                                      })
+                                    }
                                     className="inline-flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 px-3 py-1.5 text-xs font-medium text-blue-700 hover:bg-blue-100"
                                   >
                                     <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
                                     </svg>
                                     View Email Attachment
-                                  </a>
+                                  </button>
                                 </div>
                               )}
+                              {activity.blockedAttachment && (
+                                <p className="mt-2 text-[11px] font-medium text-red-600">
+                                  Blocked: {activity.blockedAttachment.name || 'attachment'} contains a virus (
+                                  {activity.blockedAttachment.signature || 'unknown'}). The file has been quarantined.
+                                </p>
+                              )}
                               <p className="mt-1 text-xs text-slate-500">
                                 {new Date(activity.activityDate).toLocaleString()}
                               </p>
                             </div>
+                            <button
+                              onClick={() => handleArchiveActivity(activity)}
+                              className="text-xs text-slate-500 hover:text-red-600"
+                            >
+                              Archive
+                            </button>
                           </div>
                         </div>
                       ))}
@@ -942,6 +1064,12 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
                                 </div>
                               </div>
                             </div>
+                            <button
+                              onClick={() => handleArchiveTask(task)}
+                              className="text-xs text-slate-500 hover:text-red-600"
+                            >
+                              Archive
+                            </button>
                           </div>
                         </div>
                       ))}
@@ -973,6 +1101,60 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
             </div>
           )}
         </main>
+        {conflictDialog}
+        <Footer />
+      </div>
+    );
+  }
+
+  if (view === 'duplicates' || view === 'import') {
+    return (
+      <div className="min-h-screen bg-slate-100 flex flex-col">
+        <header className="border-b border-slate-200 bg-white/80 backdrop-blur">
+          <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4">
+            <div className="flex items-center gap-3">
+              <img 
+                src="/logo.svg" 
+                alt="Company Logo" 
+                className="h-10 w-auto"
+              />
+              <div>
+                <h1 className="text-lg font-semibold text-slate-900">
+                  {view === 'import' ? 'Import' : 'Duplicate Customers'}
+                </h1>
+                <p className="text-xs text-slate-500">
+                  {view === 'import'
+                    ? 'Import customers, contacts and past quotes from a CSV file'
+                    : 'Review and merge customers entered more than once'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setView('customers')}
+                className="rounded-lg border border-blue-600 bg-white px-3 py-1.5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50"
+              >
+                Customers
+              </button>
+              <button
+                onClick={onNavigateToDashboard}
+                className="rounded-lg border border-blue-600 bg-white px-3 py-1.5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50"
+              >
+                Dashboard
+              </button>
+              <button
+                onClick={handleLogout}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </header>
+
+        <main className="mx-auto w-full max-w-7xl px-4 py-6 flex-1">
+          {view === 'import' ? <CsvImportPanel /> : <DuplicateCustomersPanel />}
+        </main>
         <Footer />
       </div>
     );
@@ -995,6 +1177,24 @@ export const CRMApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavi
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setView('import')}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => setView('duplicates')}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+            >
+              Duplicates
+            </button>
+            <ExportMenu
+              datasets={[
+                { id: 'customers', label: 'Customers and contacts' },
+                { id: 'activities', label: 'Activities' }
+              ]}
+            />
             <button
               onClick={() => setView('tasks')}
               className="rounded-lg border border-blue-600 bg-white px-3 py-1.5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50"
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchChaseCadences,
+  saveChaseCadence,
+  deleteChaseCadence,
+  fetchEmailTemplates,
+  type ChaseCadence,
+  type EmailTemplate
+} from '../api';
+import { STAGES, type StageKey } from './KanbanApp';
+
+// Won and lost quotes are never chased
+const CHASE_STAGES = STAGES.filter((s) => s.id !== 'won' && s.id !== 'lost');
+
+type Draft = {
+  intervalDays: string;
+  escalateAfter: string;
+  enabled: boolean;
+  emailTemplateId: string;
+};
+
+const toDraft = (cadence?: ChaseCadence): Draft => ({
+  intervalDays: cadence ? cadence.intervalDays.toString() : '',
+  escalateAfter: cadence?.escalateAfter != null ? cadence.escalateAfter.toString() : '',
+  enabled: cadence ? cadence.enabled : true,
+  emailTemplateId: cadence?.emailTemplateId || ''
+});
+
+const inputClass =
+  'w-20 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none ring-blue-500/0 transition focus:ring-2';
+
+export const ChaseCadencesPanel: React.FC = () => {
+  const [cadences, setCadences] = useState<Partial<Record<StageKey, ChaseCadence>>>({});
+  const [drafts, setDrafts] = useState<Partial<Record<StageKey, Draft>>>({});
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingStage, setSavingStage] = useState<StageKey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [data, templateData] = await Promise.all([fetchChaseCadences(), fetchEmailTemplates()]);
+        setTemplates(templateData.filter((t) => t.kind === 'reminder'));
+        const byStage = Object.fromEntries(data.map((c) => [c.stage, c]));
+        setCadences(byStage);
+        setDrafts(Object.fromEntries(CHASE_STAGES.map((s) => [s.id, toDraft(byStage[s.id])])));
+      } catch (err) {
+        console.error(err);
+        setError('Unable to load chase cadences.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const updateDraft = (stage: StageKey, patch: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [stage]: { ...(prev[stage] ?? toDraft()), ...patch } }));
+  };
+
+  const handleSave = async (stage: StageKey) => {
+    const draft = drafts[stage];
+    if (!draft) return;
+    const intervalDays = Number(draft.intervalDays);
+    if (!Number.isInteger(intervalDays) || intervalDays < 1) {
+      setError('Chase interval must be a whole number of days.');
+      return;
+    }
+    try {
+      setSavingStage(stage);
+      const saved = await saveChaseCadence(stage, {
+        intervalDays,
+        escalateAfter: draft.escalateAfter ? Number(draft.escalateAfter) : null,
+        enabled: draft.enabled,
+        emailTemplateId: draft.emailTemplateId || null
+      });
+      setCadences((prev) => ({ ...prev, [stage]: saved }));
+      setDrafts((prev) => ({ ...prev, [stage]: toDraft(saved) }));
+      setError(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to save chase cadence.');
+    } finally {
+      setSavingStage(null);
+    }
+  };
+
+  const handleRemove = async (stage: StageKey) => {
+    try {
+      setSavingStage(stage);
+      await deleteChaseCadence(stage);
+      setCadences((prev) => {
+        const next = { ...prev };
+        delete next[stage];
+        return next;
+      });
+      setDrafts((prev) => ({ ...prev, [stage]: toDraft() }));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('Unable to remove chase cadence.');
+    } finally {
+      setSavingStage(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-slate-500">Loading chase cadences...</div>;
+  }
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
+      <p className="border-b border-slate-200 px-4 py-3 text-xs text-slate-600">
+        Quotes with a customer email are chased automatically while they sit in a stage with a cadence.
+        After the given number of unanswered chases the quote owner's manager is emailed as well.
+        Individual quotes can override these settings, and chasing stops when a quote is won or lost.
+      </p>
+      {error && (
+        <div className="mx-4 mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+      <table className="w-full">
+        <thead className="bg-slate-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Stage</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Chase every (days)</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Escalate after (chases)</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Email template</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Enabled</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-slate-600">Action</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200">
+          {CHASE_STAGES.map((stage) => {
+            const draft = drafts[stage.id] ?? toDraft();
+            const saving = savingStage === stage.id;
+            return (
+              <tr key={stage.id} className="hover:bg-slate-50">
+                <td className="px-4 py-3 text-sm text-slate-900">{stage.title}</td>
+                <td className="px-4 py-3">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={draft.intervalDays}
+                    onChange={(e) => updateDraft(stage.id, { intervalDays: e.target.value })}
+                    placeholder="Off"
+                    className={inputClass}
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={draft.escalateAfter}
+                    onChange={(e) => updateDraft(stage.id, { escalateAfter: e.target.value })}
+                    placeholder="Never"
+                    className={inputClass}
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    value={draft.emailTemplateId}
+                    onChange={(e) => updateDraft(stage.id, { emailTemplateId: e.target.value })}
+                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none ring-blue-500/0 transition focus:ring-2"
+                  >
+                    <option value="">Default template</option>
+                    {templates.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={draft.enabled}
+                    onChange={(e) => updateDraft(stage.id, { enabled: e.target.checked })}
+                  />
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleSave(stage.id)}
+                      disabled={saving}
+                      className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+                    >
+                      Save
+                    </button>
+                    {cadences[stage.id] && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(stage.id)}
+                        disabled={saving}
+                        className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { getVersionConflict } from '../api';
+
+export type ConflictFieldSpec<T> = {
+  key: keyof T & string;
+  label: string;
+  // How the value is shown and compared; defaults to the value as text
+  format?: (value: unknown) => string;
+};
+
+export type FieldConflict = { key: string; label: string; yours: string; theirs: string };
+
+const display = <T,>(spec: ConflictFieldSpec<T>, value: unknown) =>
+  spec.format ? spec.format(value) : value == null ? '' : String(value);
+
+// Three-way comparison of an edit with the record it started from (base) and
+// the record as saved by someone else since (theirs). Fields only this user
+// changed keep their new value, fields they did not touch are left out so
+// the other person's value stands, and fields both changed differently are
+// returned as conflicts.
+export function mergeEdit<T>(
+  specs: ConflictFieldSpec<T>[],
+  base: T,
+  edit: Partial<T>,
+  theirs: T
+): { merged: Partial<T>; conflicts: FieldConflict[] } {
+  const merged: Partial<T> = {};
+  const conflicts: FieldConflict[] = [];
+  for (const spec of specs) {
+    if (edit[spec.key] === undefined) continue;
+    const before = display(spec, base[spec.key]);
+    const yours = display(spec, edit[spec.key]);
+    const current = display(spec, theirs[spec.key]);
+    if (yours === before) continue;
+    merged[spec.key] = edit[spec.key];
+    if (current !== before && current !== yours) {
+      conflicts.push({ key: spec.key, label: spec.label, yours, theirs: current });
+    }
+  }
+  return { merged, conflicts };
+}
+
+type Props = {
+  conflicts: FieldConflict[];
+  // true for each field where the user keeps their own value
+  onResolve: (keepMine: Record<string, boolean>) => void;
+  onCancel: () => void;
+};
+
+export const ConflictDialog: React.FC<Props> = ({ conflicts, onResolve, onCancel }) => {
+  const [keepMine, setKeepMine] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(conflicts.map((c) => [c.key, true]))
+  );
+
+  const choose = (key: string, mine: boolean) => setKeepMine((prev) => ({ ...prev, [key]: mine }));
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/50 px-4">
+      <div className="w-full max-w-2xl rounded-2xl bg-white p-6 shadow-xl">
+        <h2 className="mb-1 text-base font-semibold text-slate-900">Someone else changed this while you were editing</h2>
+        <p className="mb-4 text-xs text-slate-600">
+          Their other changes have been kept alongside yours. For the fields you both changed, choose which value to save.
+        </p>
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Field</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Your value</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Their value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {conflicts.map((conflict) => (
+              <tr key={conflict.key}>
+                <td className="px-3 py-2 align-top text-xs font-medium text-slate-700">{conflict.label}</td>
+                {[true, false].map((mine) => (
+                  <td key={String(mine)} className="px-3 py-2 align-top">
+                    <label className="flex cursor-pointer items-start gap-2">
+                      <input
+                        type="radio"
+                        name={`conflict-${conflict.key}`}
+                        checked={keepMine[conflict.key] === mine}
+                        onChange={() => choose(conflict.key, mine)}
+                        className="mt-1"
+                      />
+                      <span className="whitespace-pre-wrap break-words text-slate-800">
+                        {(mine ? conflict.yours : conflict.theirs) || <span className="text-slate-400">(empty)</span>}
+                      </span>
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+          >
+            Back to editing
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve(keepMine)}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+type PendingConflict = {
+  conflicts: FieldConflict[];
+  resolve: (keepMine: Record<string, boolean> | null) => void;
+};
+
+// Saves edits with the version they were made against. On a conflict the
+// edit is merged with the saved record, asking the user about any field both
+// people changed, and saved again. saveWithVersion resolves to the saved
+// record, or null if the user went back to editing; render conflictDialog.
+export function useVersionedSave<T extends { version?: number }>(specs: ConflictFieldSpec<T>[]) {
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+
+  const saveWithVersion = async (
+    base: T,
+    edit: Partial<T>,
+    save: (payload: Partial<T>) => Promise<T>
+  ): Promise<T | null> => {
+    let from = base;
+    let payload = edit;
+    for (;;) {
+      try {
+        return await save({ ...payload, version: from.version });
+      } catch (err) {
+        const current = getVersionConflict<T>(err);
+        if (!current) throw err;
+        const { merged, conflicts } = mergeEdit(specs, from, payload, current);
+        if (conflicts.length > 0) {
+          const keepMine = await new Promise<Record<string, boolean> | null>((resolve) =>
+            setPending({ conflicts, resolve })
+          );
+          setPending(null);
+          if (!keepMine) return null;
+          for (const conflict of conflicts) {
+            if (!keepMine[conflict.key]) delete merged[conflict.key as keyof T];
+          }
+        }
+        // Nothing of ours left to save
+        if (Object.keys(merged).length === 0) return current;
+        from = current;
+        payload = merged;
+      }
+    }
+  };
+
+  const conflictDialog = pending ? (
+    <ConflictDialog
+      conflicts={pending.conflicts}
+      onResolve={(keepMine) => pending.resolve(keepMine)}
+      onCancel={() => pending.resolve(null)}
+    />
+  ) : null;
+
+  return { saveWithVersion, conflictDialog };
+}
@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import {
+  parseImportFile,
+  previewImport,
+  commitImport,
+  type ImportMapping,
+  type ImportParseResult,
+  type ImportResult,
+  type ImportRowResult
+} from '../api';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const STEPS: { id: Step; title: string }[] = [
+  { id: 'upload', title: 'Upload' },
+  { id: 'map', title: 'Map columns' },
+  { id: 'preview', title: 'Preview' },
+  { id: 'done', title: 'Done' }
+];
+
+const downloadCsv = (filename: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Badge: React.FC<{ tone: 'green' | 'slate' | 'yellow'; children: React.ReactNode }> = ({ tone, children }) => {
+  const tones = {
+    green: 'bg-green-100 text-green-700',
+    slate: 'bg-slate-100 text-slate-700',
+    yellow: 'bg-yellow-100 text-yellow-700'
+  };
+  return <span className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${tones[tone]}`}>{children}</span>;
+};
+
+const RowOutcome: React.FC<{ row: ImportRowResult }> = ({ row }) => (
+  <tr className={row.errors.length > 0 ? 'bg-red-50' : 'hover:bg-slate-50'}>
+    <td className="px-3 py-2 text-xs text-slate-500">{row.rowNumber}</td>
+    <td className="px-3 py-2 text-sm text-slate-900">
+      {row.customer && (
+        <span className="flex items-center gap-2">
+          {row.customer.name}
+          <Badge tone={row.customer.action === 'new' ? 'green' : 'slate'}>
+            {row.customer.action === 'new' ? 'New' : 'Existing'}
+          </Badge>
+        </span>
+      )}
+    </td>
+    <td className="px-3 py-2">
+      {row.contact && <Badge tone={row.contact === 'new' ? 'green' : 'slate'}>{row.contact === 'new' ? 'New' : 'Existing'}</Badge>}
+    </td>
+    <td className="px-3 py-2">
+      {row.quote && <Badge tone={row.quote === 'new' ? 'green' : 'yellow'}>{row.quote === 'new' ? 'New' : 'Already exists'}</Badge>}
+    </td>
+    <td className="px-3 py-2 text-xs text-red-700">{row.errors.join('; ')}</td>
+  </tr>
+);
+
+export const CsvImportPanel: React.FC = () => {
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [parsed, setParsed] = useState<ImportParseResult | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setWorking(true);
+      await action();
+      setError(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    run(async () => {
+      const data = await parseImportFile(selected);
+      setFile(selected);
+      setParsed(data);
+      setMapping(data.suggestedMapping);
+      setResult(null);
+      setStep('map');
+    }, 'Unable to read the file.');
+  };
+
+  const handleMappingChange = (key: string, header: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (header) next[key] = header;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const handlePreview = () => {
+    if (!file) return;
+    run(async () => {
+      setResult(await previewImport(file, mapping));
+      setStep('preview');
+    }, 'Unable to preview the import.');
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    run(async () => {
+      setResult(await commitImport(file, mapping));
+      setStep('done');
+    }, 'Unable to import the file.');
+  };
+
+  const handleRestart = () => {
+    setStep('upload');
+    setFile(null);
+    setParsed(null);
+    setMapping({});
+    setResult(null);
+    setError(null);
+  };
+
+  const sample = parsed?.sampleRows[0] ?? {};
+  const missingRequired = parsed?.fields.some((f) => f.required && !mapping[f.key]) ?? true;
+  const importable = result ? result.summary.rows - result.summary.failed : 0;
+
+  return (
+    <div className="space-y-4">
+      <ol className="flex gap-2 text-xs">
+        {STEPS.map((s, index) => (
+          <li
+            key={s.id}
+            className={`rounded-full px-3 py-1 font-medium ${
+              s.id === step ? 'bg-blue-600 text-white' : 'bg-white text-slate-500 ring-1 ring-slate-200'
+            }`}
+          >
+            {index + 1}. {s.title}
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <div className="rounded-xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <p className="mb-4 text-sm text-slate-600">
+            Upload a CSV file with one row per customer. A row can also include a contact at that customer and a
+            quote for them. Customers already in the system are matched by name, so existing records are added to
+            rather than duplicated.
+          </p>
+          <label className="inline-flex cursor-pointer items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700">
+            {working ? 'Reading file...' : 'Choose CSV file'}
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={working} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {step === 'map' && parsed && (
+        <div className="rounded-xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <p className="mb-4 text-sm text-slate-600">
+            {file?.name}: {parsed.rowCount} row{parsed.rowCount !== 1 ? 's' : ''}. Choose the column that holds each
+            field; leave a field as &quot;Not imported&quot; to skip it.
+          </p>
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Field</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Column</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">First row</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {parsed.fields.map((field) => (
+                <tr key={field.key}>
+                  <td className="px-3 py-2 text-sm text-slate-900">
+                    {field.label}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={mapping[field.key] || ''}
+                      onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                      className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm outline-none ring-blue-500/0 transition focus:ring-2"
+                    >
+                      <option value="">Not imported</option>
+                      {parsed.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-slate-500">{mapping[field.key] ? sample[mapping[field.key]] : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={handleRestart}
+              className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+            >
+              Choose another file
+            </button>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={working || missingRequired}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
+            >
+              {working ? 'Checking...' : 'Preview import'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(step === 'preview' || step === 'done') && result && (
+        <div className="rounded-xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <p className="mb-4 text-sm text-slate-600">
+            {step === 'preview'
+              ? `Nothing has been saved yet. ${importable} of ${result.summary.rows} rows can be imported.`
+              : `Import complete. ${importable} of ${result.summary.rows} rows were imported.`}
+          </p>
+          <div className="mb-4 grid grid-cols-2 gap-3 md:grid-cols-5">
+            {[
+              { label: 'New customers', value: result.summary.customersCreated },
+              { label: 'Existing customers', value: result.summary.customersMatched },
+              { label: 'New contacts', value: result.summary.contactsCreated },
+              { label: 'New quotes', value: result.summary.quotesCreated },
+              { label: 'Rows with errors', value: result.summary.failed }
+            ].map((card) => (
+              <div key={card.label} className="rounded-lg border border-slate-200 p-3">
+                <p className="text-xs text-slate-500">{card.label}</p>
+                <p className="text-lg font-semibold text-slate-900">{card.value}</p>
+              </div>
+            ))}
+          </div>
+          {result.summary.quotesSkipped > 0 && (
+            <p className="mb-4 text-xs text-slate-500">
+              {result.summary.quotesSkipped} quote{result.summary.quotesSkipped !== 1 ? 's' : ''} already exist with
+              the same SO number, or the same title and date, and will not be added again.
+            </p>
+          )}
+          <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-200">
+            <table className="w-full">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Row</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Customer</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Contact</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Quote</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-600">Errors</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {result.rows.map((row) => (
+                  <RowOutcome key={row.rowNumber} row={row} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 flex justify-end gap-2">
+            {result.errorReport && (
+              <button
+                type="button"
+                onClick={() => downloadCsv(`import-errors-${file?.name ?? 'report.csv'}`, result.errorReport!)}
+                className="mr-auto rounded-lg border border-red-300 bg-white px-4 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-red-50"
+              >
+                Download error report
+              </button>
+            )}
+            {step === 'preview' ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setStep('map')}
+                  className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+                >
+                  Back to mapping
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={working || importable === 0}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-60"
+                >
+                  {working ? 'Importing...' : `Import ${importable} row${importable !== 1 ? 's' : ''}`}
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={handleRestart}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+              >
+                Import another file
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useEffect, useState } from 'react';
-import { fetchCustomers, fetchCustomerById, type Customer, type CustomerWithQuotes } from '../api';
+import { fetchCustomers, fetchCustomerById, archiveItem, openFile, logout, type Customer, type CustomerWithQuotes } from '../api';
 import type { QuoteCard } from './KanbanApp';
 import { Footer } from './Footer';
+import { ExportMenu } from './ExportMenu';
 
 export const CustomersApp: React.FC<{ onNavigateToKanban: () => void }> = ({ onNavigateToKanban }) => {
   const [customers, setCustomers] = useState<Customer[]>([]);
@@ -11,8 +12,7 @@ export const CustomersApp: React.FC<{ onNavigateToKanban: () => void }> = ({ onN
   const [searchTerm, setSearchTerm] = useState('');
 
   const handleLogout = () => {
-    localStorage.removeItem('auth_token');
-    window.location.reload();
+    logout();
   };
 
   useEffect(() => {
@@ -42,6 +42,19 @@ export const CustomersApp: React.FC<{ onNavigateToKanban: () => void }> = ({ onN
     }
   };
 
+  const handleArchiveCustomer = async () => {
+    if (!selectedCustomer) return;
+    if (!window.confirm(`Archive ${selectedCustomer.name}? It can be restored from the Archived view.`)) return;
+    try {
+      await archiveItem('customer', selectedCustomer.id);
+      setCustomers(customers.filter(c => c.id !== selectedCustomer.id));
+      setSelectedCustomer(null);
+    } catch (err) {
+      console.error(err);
+      setError('Unable to archive customer.');
+    }
+  };
+
   const filteredCustomers = customers.filter(c =>
     c.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
@@ -96,6 +109,12 @@ export const CustomersApp: React.FC<{ onNavigateToKanban: () => void }> = ({ onN
                 </p>
               </div>
             </div>
+            <button
+              onClick={handleArchiveCustomer}
+              className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-700 shadow-sm hover:bg-red-50"
+            >
+              Archive
+            </button>
             <button
               onClick={onNavigateToKanban}
               className="rounded-lg border border-blue-600 bg-white px-3 py-1.5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50"
@@ -181,14 +200,18 @@ export const CustomersApp: React.FC<{ onNavigateToKanban: () => void }> = ({ onN
                   </div>
 
                   {quote.attachmentUrl && (
-                    <a
-                      href={quote.attachmentUrl}
-                      target="_blank"
-                      rel="noreferrer"
+                    <button
+                      type="button"
+                      onClick={() =>
+                        openFile(quote.attachmentUrl!).catch((err) => {
+                          console.error(err);
+                          setError('Unable to open the attachment.');
+                        })
+                      }
                       className="mt-2 inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
                     >
                       View attachment
-                    </a>
+                    </button>
                   )}
                 </div>
               ))}
@@ -219,6 +242,7 @@ export const CustomersApp: React.FC<{ onNavigateToKanban: () => void }> = ({ onN
               </p>
             </div>
           </div>
+          <ExportMenu datasets={[{ id: 'customers', label: 'Customers and contacts' }]} />
           <button
             onClick={onNavigateToKanban}
             className="rounded-lg border border-blue-600 bg-white px-3 py-1.5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50"
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchDuplicateCustomers,
+  mergeCustomers,
+  type Customer,
+  type DuplicateCustomerMatch
+} from '../api';
+
+const THRESHOLDS = [
+  { value: 50, label: 'Likely and possible' },
+  { value: 70, label: 'Likely only' },
+  { value: 90, label: 'Near certain only' }
+];
+
+const CustomerSummary: React.FC<{ customer: Customer }> = ({ customer }) => (
+  <div className="flex-1 min-w-0">
+    <p className="truncate text-sm font-semibold text-slate-900">{customer.name}</p>
+    <div className="space-y-0.5 text-xs text-slate-500">
+      {customer.email && <p className="truncate">Email: {customer.email}</p>}
+      {customer.website && <p className="truncate">Website: {customer.website}</p>}
+      {customer.phone && <p>Phone: {customer.phone}</p>}
+    </div>
+  </div>
+);
+
+export const DuplicateCustomersPanel: React.FC = () => {
+  const [matches, setMatches] = useState<DuplicateCustomerMatch[]>([]);
+  const [threshold, setThreshold] = useState(THRESHOLDS[0].value);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadMatches = async () => {
+    try {
+      setLoading(true);
+      setMatches(await fetchDuplicateCustomers(threshold));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load duplicate customers:', err);
+      setError('Unable to load duplicate customers.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMatches();
+  }, [threshold]);
+
+  const handleMerge = async (match: DuplicateCustomerMatch, survivor: Customer, duplicate: Customer) => {
+    if (
+      !window.confirm(
+        `Merge "${duplicate.name}" into "${survivor.name}"? Its quotes, contacts, activities and tasks move to "${survivor.name}" and "${duplicate.name}" is removed.`
+      )
+    ) {
+      return;
+    }
+    const key = `${match.customer.id}:${match.duplicate.id}`;
+    try {
+      setMergingKey(key);
+      const result = await mergeCustomers(survivor.id, [duplicate.id]);
+      const { quotes, contacts, activities, tasks } = result.moved;
+      setNotice(
+        `Merged into ${result.customer.name}: ${quotes} quotes, ${contacts} contacts, ${activities} activities and ${tasks} tasks moved.`
+      );
+      await loadMatches();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to merge customers.');
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <p className="max-w-2xl text-xs text-slate-600">
+          Customers are compared on their name (ignoring case, punctuation and words like Ltd or Limited),
+          the domain of their email or website, and their phone number. Merging keeps the customer you choose
+          and moves everything from the other onto it; its old name keeps pointing at the kept customer.
+        </p>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-slate-600">Show</span>
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:ring-2"
+          >
+            {THRESHOLDS.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Looking for duplicates...</p>
+      ) : matches.length === 0 ? (
+        <div className="rounded-xl bg-white p-8 text-center shadow-sm">
+          <p className="text-sm text-slate-500">No duplicate customers found.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {matches.map((match) => {
+            const key = `${match.customer.id}:${match.duplicate.id}`;
+            const merging = mergingKey === key;
+            return (
+              <div key={key} className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+                <div className="mb-3 flex items-center gap-2">
+                  <span className="rounded-full bg-orange-100 px-2 py-0.5 text-xs font-medium text-orange-700">
+                    {match.score}% match
+                  </span>
+                  <span className="text-xs text-slate-500">{match.reasons.join(' · ')}</span>
+                </div>
+                <div className="flex flex-col gap-4 md:flex-row">
+                  {[
+                    [match.customer, match.duplicate],
+                    [match.duplicate, match.customer]
+                  ].map(([survivor, duplicate]) => (
+                    <div key={survivor.id} className="flex flex-1 items-start gap-3 rounded-lg border border-slate-200 p-3">
+                      <CustomerSummary customer={survivor} />
+                      <button
+                        type="button"
+                        onClick={() => handleMerge(match, survivor, duplicate)}
+                        disabled={mergingKey !== null}
+                        className="shrink-0 rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+                      >
+                        {merging ? 'Merging...' : 'Keep this one'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { fetchQuoteEmails, type EmailLogEntry, type EmailLogStatus } from '../api';
+
+const STATUS_STYLES: Record<EmailLogStatus, { label: string; className: string }> = {
+  pending: { label: 'Sending', className: 'bg-slate-200 text-slate-700' },
+  sent: { label: 'Sent', className: 'bg-green-100 text-green-700' },
+  retrying: { label: 'Retrying', className: 'bg-yellow-100 text-yellow-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  logged: { label: 'Logged only', className: 'bg-slate-200 text-slate-700' }
+};
+
+export const EmailLogPanel: React.FC<{ quoteId: string }> = ({ quoteId }) => {
+  const [emails, setEmails] = useState<EmailLogEntry[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        setEmails(await fetchQuoteEmails(quoteId));
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load email log:', err);
+        setError('Unable to load emails.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [quoteId]);
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <p className="mb-2 text-xs font-medium text-slate-600">Emails sent</p>
+      {loading ? (
+        <p className="text-xs text-slate-500">Loading emails...</p>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : emails.length === 0 ? (
+        <p className="text-xs text-slate-500">No reminder emails have been sent for this quote.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200">
+          {emails.map((email) => (
+            <li key={email.id} className="py-1.5 text-xs">
+              <button
+                type="button"
+                onClick={() => setExpandedId(expandedId === email.id ? null : email.id)}
+                className="flex w-full items-baseline justify-between gap-2 text-left"
+              >
+                <span className="truncate font-medium text-slate-800">{email.subject}</span>
+                <span
+                  className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium ${STATUS_STYLES[email.status].className}`}
+                >
+                  {STATUS_STYLES[email.status].label}
+                </span>
+              </button>
+              <p className="text-[11px] text-slate-500">
+                {email.kind === 'escalation' ? 'Escalation' : 'Reminder'} to {email.recipient} ·{' '}
+                {new Date(email.sentAt || email.createdAt).toLocaleString()}
+                {email.attempts > 1 && ` · ${email.attempts} attempts`}
+              </p>
+              {email.error && (
+                <p className="text-[11px] text-red-600">
+                  {email.error}
+                  {email.nextAttemptAt && ` · next try ${new Date(email.nextAttemptAt).toLocaleString()}`}
+                </p>
+              )}
+              {expandedId === email.id && (
+                <div className="mt-1 space-y-1">
+                  <pre className="whitespace-pre-wrap rounded-md bg-white p-2 font-sans text-[11px] text-slate-700">
+                    {email.bodyText}
+                  </pre>
+                  <p className="text-[10px] text-slate-400">
+                    {email.templateName && `Template: ${email.templateName}`}
+                    {email.messageId && ` · Message ID: ${email.messageId}`}
+                  </p>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchEmailTemplates,
+  fetchEmailPlaceholders,
+  createEmailTemplate,
+  updateEmailTemplate,
+  deleteEmailTemplate,
+  previewEmailTemplate,
+  fetchQuotes,
+  type EmailTemplate,
+  type EmailTemplateInput,
+  type EmailTemplateKind,
+  type EmailPlaceholder,
+  type EmailPreview
+} from '../api';
+import type { QuoteCard } from './KanbanApp';
+
+const KIND_TITLES: Record<EmailTemplateKind, string> = {
+  reminder: 'Customer reminder',
+  escalation: 'Manager escalation'
+};
+
+const EMPTY_TEMPLATE: EmailTemplateInput = {
+  name: '',
+  kind: 'reminder',
+  subject: '',
+  bodyText: '',
+  bodyHtml: '',
+  isDefault: false
+};
+
+const toInput = (template: EmailTemplate): EmailTemplateInput => ({
+  name: template.name,
+  kind: template.kind,
+  subject: template.subject,
+  bodyText: template.bodyText,
+  bodyHtml: template.bodyHtml || '',
+  isDefault: template.isDefault
+});
+
+const inputClass =
+  'rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2';
+
+export const EmailTemplatesPanel: React.FC = () => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [placeholders, setPlaceholders] = useState<EmailPlaceholder[]>([]);
+  const [quotes, setQuotes] = useState<QuoteCard[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<EmailTemplateInput>(EMPTY_TEMPLATE);
+  const [previewQuoteId, setPreviewQuoteId] = useState('');
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [templateData, placeholderData, quoteData] = await Promise.all([
+          fetchEmailTemplates(),
+          fetchEmailPlaceholders(),
+          fetchQuotes()
+        ]);
+        setTemplates(templateData);
+        setPlaceholders(placeholderData);
+        setQuotes(quoteData);
+        if (templateData[0]) {
+          setSelectedId(templateData[0].id);
+          setForm(toInput(templateData[0]));
+        }
+        if (quoteData[0]) {
+          setPreviewQuoteId(quoteData[0].id);
+        }
+      } catch (err) {
+        console.error(err);
+        setError('Unable to load email templates.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const handleSelect = (template: EmailTemplate | null) => {
+    setSelectedId(template ? template.id : null);
+    setForm(template ? toInput(template) : EMPTY_TEMPLATE);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const saved = selectedId
+        ? await updateEmailTemplate(selectedId, form)
+        : await createEmailTemplate(form);
+      // Saving a default clears the flag on the other templates of that kind
+      setTemplates(await fetchEmailTemplates());
+      setSelectedId(saved.id);
+      setForm(toInput(saved));
+      setError(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to save template.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    if (!window.confirm(`Delete the template "${form.name}"? Quotes using it will fall back to the default.`)) return;
+    try {
+      setSaving(true);
+      await deleteEmailTemplate(selectedId);
+      const remaining = templates.filter((t) => t.id !== selectedId);
+      setTemplates(remaining);
+      handleSelect(remaining[0] ?? null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to delete template.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Previews the form as it stands, including unsaved edits
+  const handlePreview = async () => {
+    if (!previewQuoteId) return;
+    try {
+      setPreview(
+        await previewEmailTemplate({
+          quoteId: previewQuoteId,
+          kind: form.kind,
+          template: { subject: form.subject, bodyText: form.bodyText, bodyHtml: form.bodyHtml }
+        })
+      );
+      setError(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to render preview.');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-slate-500">Loading email templates...</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-[16rem_1fr]">
+      <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
+        <button
+          type="button"
+          onClick={() => handleSelect(null)}
+          className="mb-3 w-full rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+        >
+          New template
+        </button>
+        <ul className="space-y-1">
+          {templates.map((template) => (
+            <li key={template.id}>
+              <button
+                type="button"
+                onClick={() => handleSelect(template)}
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm transition ${
+                  selectedId === template.id ? 'bg-blue-50 text-blue-700' : 'text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                <span className="block font-medium">{template.name}</span>
+                <span className="block text-[11px] text-slate-500">
+                  {KIND_TITLES[template.kind]}
+                  {template.isDefault && ' · Default'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-4">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">Name</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">Used for</span>
+              <select
+                value={form.kind}
+                onChange={(e) => setForm({ ...form, kind: e.target.value as EmailTemplateKind })}
+                className={`${inputClass} bg-white`}
+              >
+                {(Object.keys(KIND_TITLES) as EmailTemplateKind[]).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {KIND_TITLES[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">Subject</span>
+            <input
+              type="text"
+              value={form.subject}
+              onChange={(e) => setForm({ ...form, subject: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">Plain-text body</span>
+            <textarea
+              value={form.bodyText}
+              onChange={(e) => setForm({ ...form, bodyText: e.target.value })}
+              rows={8}
+              className={`${inputClass} font-mono text-xs`}
+              required
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600">HTML body (optional)</span>
+            <textarea
+              value={form.bodyHtml || ''}
+              onChange={(e) => setForm({ ...form, bodyHtml: e.target.value })}
+              rows={8}
+              className={`${inputClass} font-mono text-xs`}
+              placeholder="<p>Hello {{contact.firstName}},</p>"
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-xs text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.isDefault}
+              onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+            />
+            Default {KIND_TITLES[form.kind].toLowerCase()} template
+          </label>
+
+          <div className="flex justify-end gap-2">
+            {selectedId && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={saving}
+                className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+              >
+                Delete
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+            >
+              {saving ? 'Saving...' : selectedId ? 'Save template' : 'Create template'}
+            </button>
+          </div>
+        </form>
+
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <div className="rounded-lg border border-slate-200 bg-white p-4 shadow-sm">
+            <h3 className="mb-2 text-sm font-semibold text-slate-900">Placeholders</h3>
+            <ul className="space-y-1 text-xs">
+              {placeholders.map((p) => (
+                <li key={p.key} className="flex justify-between gap-3">
+                  <code className="text-blue-700">{`{{${p.key}}}`}</code>
+                  <span className="text-right text-slate-500">{p.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="rounded-lg border border-slate-200 bg-white p-4 shadow-sm">
+            <h3 className="mb-2 text-sm font-semibold text-slate-900">Preview</h3>
+            <div className="mb-3 flex gap-2">
+              <select
+                value={previewQuoteId}
+                onChange={(e) => setPreviewQuoteId(e.target.value)}
+                className={`${inputClass} flex-1 bg-white`}
+              >
+                {quotes.map((q) => (
+                  <option key={q.id} value={q.id}>
+                    {q.title} – {q.clientName}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={!previewQuoteId}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+              >
+                Render
+              </button>
+            </div>
+            {preview && (
+              <div className="space-y-2 text-xs">
+                <p className="text-slate-500">
+                  To: <span className="text-slate-900">{preview.to || '(no reminder email on this quote)'}</span>
+                </p>
+                <p className="text-slate-500">
+                  Subject: <span className="font-medium text-slate-900">{preview.subject}</span>
+                </p>
+                <pre className="whitespace-pre-wrap rounded-lg bg-slate-50 p-3 font-sans text-slate-800">
+                  {preview.text}
+                </pre>
+                {preview.html && (
+                  <iframe
+                    title="HTML preview"
+                    sandbox=""
+                    srcDoc={preview.html}
+                    className="h-64 w-full rounded-lg border border-slate-200 bg-white"
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
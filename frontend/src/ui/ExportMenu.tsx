@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadExport, type ExportDataset, type ExportFormat } from '../api';
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'xlsx', label: 'Excel' }
+];
+
+type Props = {
+  datasets: { id: ExportDataset; label: string }[];
+  // Keyword filter applied to quote exports, as on the board
+  search?: string;
+};
+
+export const ExportMenu: React.FC<Props> = ({ datasets, search }) => {
+  const [open, setOpen] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleDownload = async (dataset: ExportDataset, format: ExportFormat) => {
+    setOpen(false);
+    try {
+      setDownloading(true);
+      await downloadExport(dataset, format, { search });
+    } catch (err) {
+      console.error('Failed to export:', err);
+      alert('Unable to export. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={downloading}
+        className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50 disabled:opacity-60"
+      >
+        {downloading ? 'Exporting...' : 'Export'}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-56 rounded-lg bg-white py-1 shadow-lg ring-1 ring-slate-200">
+          {datasets.map((dataset) =>
+            FORMATS.map((format) => (
+              <button
+                key={`${dataset.id}-${format.id}`}
+                type="button"
+                onClick={() => handleDownload(dataset.id, format.id)}
+                className="block w-full px-3 py-1.5 text-left text-sm text-slate-700 hover:bg-slate-50"
+              >
+                {dataset.label} ({format.label})
+              </button>
+            ))
+          )}
+          {search?.trim() && datasets.some((d) => d.id === 'quotes') && (
+            <p className="border-t border-slate-100 px-3 py-1.5 text-[11px] text-slate-500">
+              Quotes matching &quot;{search.trim()}&quot; only
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
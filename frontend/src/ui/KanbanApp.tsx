@@ -5,10 +5,18 @@ import {
   Draggable,
   type DropResult
 } from '@hello-pangea/dnd';
-import { createQuote, fetchQuotes, updateQuotePositions, uploadQuoteAttachment, updateQuote, fetchCustomers, createCustomer, type Customer } from '../api';
+import { createQuote, fetchQuotes, updateQuotePositions, uploadQuoteAttachment, updateQuote, fetchCustomers, createCustomer, generateQuotePdf, fetchEmailTemplates, fetchAttachmentTypes, checkAttachmentFile, openFile, previewFileUrl, attachmentAccept, archiveItem, logout, type AttachmentType, type Customer, type EmailTemplate, type LineItemsState } from '../api';
 import { Footer } from './Footer';
+import { LineItemsEditor } from './LineItemsEditor';
+import { StageTimeline } from './StageTimeline';
+import { EmailLogPanel } from './EmailLogPanel';
+import { QuoteAttachmentsPanel } from './QuoteAttachmentsPanel';
+import { ExportMenu } from './ExportMenu';
+import { PresenceIndicator } from './PresenceIndicator';
+import { useVersionedSave, type ConflictFieldSpec } from './ConflictDialog';
+import { applyLiveChange, useLiveChanges, usePresence, useQuotePresence, type PresenceEntry } from '../realtime';
 
-type StageKey = 'new' | 'follow_up' | 'tender' | 'otp' | 'won' | 'lost';
+export type StageKey = 'new' | 'follow_up' | 'tender' | 'otp' | 'won' | 'lost';
 
 export type QuoteCard = {
   id: string;
@@ -20,19 +28,29 @@ export type QuoteCard = {
   createdByName?: string | null;
   value?: number;
   stage: StageKey;
+  stageEnteredAt?: string | null;
+  wonAt?: string | null;
   position?: number;
   soNumber?: string | null;
+  pdfVersion?: number;
   lastChasedAt?: string;
   nextChaseAt?: string;
   reminderEmail?: string;
+  chaseIntervalDays?: number | null;
+  chaseEscalateAfter?: number | null;
+  chaseCount?: number;
+  chaseEscalatedAt?: string | null;
+  emailTemplateId?: string | null;
   attachmentUrl?: string;
   status?: 'Tender' | 'OTP';
   notes?: string;
+  version?: number;
+  archivedAt?: string | null;
   createdAt?: string;
   updatedAt?: string;
 };
 
-const STAGES: { id: StageKey; title: string }[] = [
+export const STAGES: { id: StageKey; title: string }[] = [
   { id: 'new', title: 'New' },
   { id: 'follow_up', title: 'Follow-up' },
   { id: 'tender', title: 'Tender' },
@@ -41,7 +59,32 @@ const STAGES: { id: StageKey; title: string }[] = [
   { id: 'lost', title: 'Lost' }
 ];
 
-export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigateToCRM?: () => void; onNavigateToTasks?: () => void; onNavigateToAdmin?: () => void }> = ({ onNavigateToCustomers, onNavigateToCRM, onNavigateToTasks, onNavigateToAdmin }) => {
+const STAGE_TITLES: Record<string, string> = Object.fromEntries(STAGES.map((s) => [s.id, s.title]));
+
+const formatDate = (value: unknown) => (typeof value === 'string' && value ? new Date(value).toLocaleDateString() : '');
+
+const isImageUrl = (url: string) => /\.(png|jpe?g|gif|webp)$/i.test(url);
+
+// Fields of the edit modal, for resolving conflicting edits
+const QUOTE_CONFLICT_FIELDS: ConflictFieldSpec<QuoteCard>[] = [
+  { key: 'title', label: 'Project title' },
+  { key: 'clientName', label: 'Customer names' },
+  { key: 'value', label: 'Value £' },
+  { key: 'soNumber', label: 'SO Number' },
+  { key: 'status', label: 'Status' },
+  { key: 'reminderEmail', label: 'Customer email' },
+  { key: 'nextChaseAt', label: 'Expected date', format: formatDate },
+  { key: 'lastChasedAt', label: 'Last chased', format: formatDate },
+  { key: 'chaseIntervalDays', label: 'Chase every (days)' },
+  { key: 'chaseEscalateAfter', label: 'Escalate to manager after (chases)' },
+  { key: 'emailTemplateId', label: 'Reminder email template' },
+  { key: 'notes', label: 'Notes' }
+];
+
+const daysSince = (date: string) =>
+  Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+
+export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigateToCRM?: () => void; onNavigateToTasks?: () => void; onNavigateToAnalytics?: () => void; onNavigateToArchived?: () => void; onNavigateToAdmin?: () => void; onNavigateToChangePassword?: () => void }> = ({ onNavigateToCustomers, onNavigateToCRM, onNavigateToTasks, onNavigateToAnalytics, onNavigateToArchived, onNavigateToAdmin, onNavigateToChangePassword }) => {
   const [quotes, setQuotes] = useState<QuoteCard[]>([]);
   const [filter, setFilter] = useState<string>('');
   const [loading, setLoading] = useState(true);
@@ -58,18 +101,29 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
   const [newQuoteStatus, setNewQuoteStatus] = useState<'Tender' | 'OTP'>('Tender');
   const [newQuoteNotes, setNewQuoteNotes] = useState('');
   const [editingQuote, setEditingQuote] = useState<QuoteCard | null>(null);
+  // Set once a field in the edit modal changes, so others see "editing" rather than "viewing"
+  const [editDirty, setEditDirty] = useState(false);
   const [editNotes, setEditNotes] = useState('');
   const [editTitle, setEditTitle] = useState('');
   const [editClientName, setEditClientName] = useState('');
   const [editValue, setEditValue] = useState('');
+  const [editHasLineItems, setEditHasLineItems] = useState(false);
   const [editSoNumber, setEditSoNumber] = useState('');
   const [editStatus, setEditStatus] = useState<'Tender' | 'OTP'>('Tender');
   const [editEmail, setEditEmail] = useState('');
   const [editNextChase, setEditNextChase] = useState('');
   const [editLastChased, setEditLastChased] = useState('');
+  const [editChaseInterval, setEditChaseInterval] = useState('');
+  const [editChaseEscalateAfter, setEditChaseEscalateAfter] = useState('');
+  const [editEmailTemplateId, setEditEmailTemplateId] = useState('');
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([]);
   const [editFile, setEditFile] = useState<File | null>(null);
-  const [pdfPreviewUrl, setPdfPreviewUrl] = useState<string | null>(null);
+  const [editFileLabel, setEditFileLabel] = useState('');
+  // A signed URL for the file being previewed
+  const [preview, setPreview] = useState<{ url: string; image: boolean } | null>(null);
+  const [attachmentTypes, setAttachmentTypes] = useState<AttachmentType[]>([]);
   const [updating, setUpdating] = useState(false);
+  const [generatingPdf, setGeneratingPdf] = useState(false);
   const [isDraggingNewFile, setIsDraggingNewFile] = useState(false);
   const [isDraggingEditFile, setIsDraggingEditFile] = useState(false);
   const [customers, setCustomers] = useState<Customer[]>([]);
@@ -78,6 +132,24 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
   const [isCreatingNewCustomer, setIsCreatingNewCustomer] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
 
+  const loadEmailTemplates = async () => {
+    try {
+      const data = await fetchEmailTemplates();
+      setEmailTemplates(data.filter((t) => t.kind === 'reminder'));
+    } catch (err) {
+      console.error('Failed to load email templates:', err);
+    }
+  };
+
+  const loadAttachmentTypes = async () => {
+    try {
+      const data = await fetchAttachmentTypes();
+      setAttachmentTypes(data.quote);
+    } catch (err) {
+      console.error('Failed to load attachment types:', err);
+    }
+  };
+
   const loadCustomers = async () => {
     try {
       const data = await fetchCustomers();
@@ -105,8 +177,39 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
       }
     })();
     loadCustomers();
+    loadEmailTemplates();
+    loadAttachmentTypes();
   }, []);
 
+  // Apply colleagues' changes as they happen instead of waiting for a refresh
+  useLiveChanges<QuoteCard>('quote', (change) => {
+    if (change.action === 'reload') {
+      fetchQuotes()
+        .then(setQuotes)
+        .catch((err) => console.error('Failed to reload quotes:', err));
+      return;
+    }
+    setQuotes((prev) => applyLiveChange(prev, change));
+  });
+
+  const presence = usePresence();
+  const presenceByQuote = useMemo(() => {
+    const byQuote = new Map<string, PresenceEntry[]>();
+    for (const entry of presence) {
+      byQuote.set(entry.quoteId, [...(byQuote.get(entry.quoteId) ?? []), entry]);
+    }
+    return byQuote;
+  }, [presence]);
+  useQuotePresence(editingQuote?.id ?? null, editDirty);
+
+  const { saveWithVersion, conflictDialog } = useVersionedSave<QuoteCard>(
+    QUOTE_CONFLICT_FIELDS.map((spec) =>
+      spec.key === 'emailTemplateId'
+        ? { ...spec, format: (id) => (id ? emailTemplates.find((t) => t.id === id)?.name ?? 'Another template' : 'Stage default') }
+        : spec
+    )
+  );
+
   const filteredQuotes = useMemo(() => {
     if (!filter.trim()) return quotes;
     const term = filter.toLowerCase();
@@ -159,15 +262,13 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
     const wonCount = quotes.filter(q => q.stage === 'won').length;
     const lostCount = quotes.filter(q => q.stage === 'lost').length;
     
-    // Calculate year-to-date value (won projects updated this year)
-    // We use updatedAt to determine when the project was won (moved to won stage)
+    // Calculate year-to-date value (projects won this year)
+    // wonAt comes from the stage history; older data falls back to updatedAt
     const currentYear = new Date().getFullYear();
     const ytdValue = quotes
       .filter(q => q.stage === 'won' && q.value != null)
       .filter(q => {
-        // Check if the quote was updated this year (when it was won)
-        // This gives us projects won in the current year
-        const dateStr = q.updatedAt || q.createdAt;
+        const dateStr = q.wonAt || q.updatedAt || q.createdAt;
         if (!dateStr) return true; // Include if no date available
         const updatedYear = new Date(dateStr).getFullYear();
         return updatedYear === currentYear;
@@ -298,58 +399,110 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('auth_token');
-    window.location.reload();
+    logout();
   };
 
   const handleEditQuote = (quote: QuoteCard) => {
     setEditingQuote(quote);
+    setEditDirty(false);
     setEditNotes(quote.notes || '');
     setEditTitle(quote.title || '');
     setEditClientName(quote.clientName || '');
     setEditValue(quote.value?.toString() || '');
+    setEditHasLineItems(false);
     setEditSoNumber(quote.soNumber || '');
     setEditStatus(quote.status || 'Tender');
     setEditEmail(quote.reminderEmail || '');
     setEditNextChase(quote.nextChaseAt ? new Date(quote.nextChaseAt).toISOString().split('T')[0] : '');
     setEditLastChased(quote.lastChasedAt ? new Date(quote.lastChasedAt).toISOString().split('T')[0] : '');
+    setEditChaseInterval(quote.chaseIntervalDays != null ? quote.chaseIntervalDays.toString() : '');
+    setEditChaseEscalateAfter(quote.chaseEscalateAfter != null ? quote.chaseEscalateAfter.toString() : '');
+    setEditEmailTemplateId(quote.emailTemplateId || '');
     setEditFile(null);
-    setPdfPreviewUrl(null);
+    setPreview(null);
     setIsDraggingEditFile(false);
   };
 
   const handleCloseEditModal = () => {
     setEditingQuote(null);
+    setEditDirty(false);
     setEditNotes('');
     setEditTitle('');
     setEditClientName('');
     setEditValue('');
+    setEditHasLineItems(false);
     setEditSoNumber('');
     setEditStatus('Tender');
     setEditEmail('');
     setEditNextChase('');
     setEditLastChased('');
+    setEditChaseInterval('');
+    setEditChaseEscalateAfter('');
+    setEditEmailTemplateId('');
     setEditFile(null);
-    if (pdfPreviewUrl) {
-      URL.revokeObjectURL(pdfPreviewUrl);
-      setPdfPreviewUrl(null);
+    setEditFileLabel('');
+    setPreview(null);
+  };
+
+  // Files are added and removed immediately, which changes the quote's current attachment
+  const handleAttachmentsChange = (updated: QuoteCard) => {
+    setQuotes((prev) => prev.map((q) => (q.id === updated.id ? updated : q)));
+    setEditingQuote((prev) => (prev && prev.id === updated.id ? updated : prev));
+  };
+
+  // Line item changes are saved immediately, so keep the board and the value field in step
+  const handleLineItemsChange = (state: LineItemsState) => {
+    setEditHasLineItems(state.items.length > 0);
+    if (state.items.length > 0) {
+      setEditValue(state.totals.total.toString());
     }
+    setQuotes((prev) => prev.map((q) => (q.id === state.quote.id ? state.quote : q)));
   };
 
-  const handleViewPdf = (url: string) => {
-    // If it's a relative URL, make it absolute
-    // For Railway/production, the URL should already be correct
-    const fullUrl = url.startsWith('http') ? url : `${window.location.origin}${url}`;
-    setPdfPreviewUrl(fullUrl);
+  // Files are checked against the allowed types before they are uploaded;
+  // the server checks their content
+  const selectAttachment = (file: File | null, select: (file: File | null) => void) => {
+    const problem = file ? checkAttachmentFile(file, attachmentTypes) : null;
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    select(file);
+    setError(null);
   };
 
-  const handleClosePdfPreview = () => {
-    if (pdfPreviewUrl) {
-      URL.revokeObjectURL(pdfPreviewUrl);
-      setPdfPreviewUrl(null);
+  const handleViewPdf = async (url: string) => {
+    try {
+      setPreview({ url: await previewFileUrl(url), image: isImageUrl(url) });
+    } catch (err) {
+      console.error(err);
+      setError('Unable to open the file. Please try again.');
+    }
+  };
+
+  const handleGeneratePdf = async () => {
+    if (!editingQuote) return;
+    setGeneratingPdf(true);
+    try {
+      const updated = await generateQuotePdf(editingQuote.id);
+      setQuotes((prev) => prev.map((q) => (q.id === updated.id ? updated : q)));
+      setEditingQuote(updated);
+      if (updated.attachmentUrl) {
+        handleViewPdf(updated.attachmentUrl);
+      }
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('Unable to generate PDF. Please try again.');
+    } finally {
+      setGeneratingPdf(false);
     }
   };
 
+  const handleClosePdfPreview = () => {
+    setPreview(null);
+  };
+
   const handleUpdateQuote = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingQuote) return;
@@ -366,14 +519,23 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
         reminderEmail: editEmail.trim() || undefined,
         nextChaseAt: editNextChase ? new Date(editNextChase).toISOString() : undefined,
         lastChasedAt: editLastChased ? new Date(editLastChased).toISOString() : undefined,
+        // null falls back to the stage's chase cadence
+        chaseIntervalDays: editChaseInterval ? Number(editChaseInterval) : null,
+        chaseEscalateAfter: editChaseEscalateAfter ? Number(editChaseEscalateAfter) : null,
+        emailTemplateId: editEmailTemplateId || null,
         notes: editNotes.trim() || undefined
       };
 
-      let updated = await updateQuote(editingQuote.id, payload);
+      const saved = await saveWithVersion(editingQuote, payload, (edit) => updateQuote(editingQuote.id, edit));
+      // The user went back to editing from the conflict dialog
+      if (!saved) return;
+      let updated = saved;
 
       // Upload new file if provided
       if (editFile) {
-        updated = await uploadQuoteAttachment(editingQuote.id, editFile);
+        ({ quote: updated } = await uploadQuoteAttachment(editingQuote.id, editFile, {
+          label: editFileLabel.trim() || undefined
+        }));
       }
 
       setQuotes((prev) =>
@@ -381,9 +543,28 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
       );
       handleCloseEditModal();
       setError(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || 'Unable to update lead. Please try again.');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Archived quotes leave the board and can be restored from the Archived view
+  const handleArchiveQuote = async () => {
+    if (!editingQuote) return;
+    if (!window.confirm(`Archive "${editingQuote.title}"? It can be restored from the Archived view.`)) return;
+
+    setUpdating(true);
+    try {
+      await archiveItem('quote', editingQuote.id);
+      setQuotes((prev) => prev.filter((q) => q.id !== editingQuote.id));
+      handleCloseEditModal();
+      setError(null);
     } catch (err) {
       console.error(err);
-      setError('Unable to update lead. Please try again.');
+      setError('Unable to archive lead. Please try again.');
     } finally {
       setUpdating(false);
     }
@@ -432,7 +613,7 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
       let finalQuote = { ...created, stage: 'new' as StageKey };
 
       if (newQuoteFile) {
-        const uploaded = await uploadQuoteAttachment(created.id, newQuoteFile);
+        const { quote: uploaded } = await uploadQuoteAttachment(created.id, newQuoteFile);
         finalQuote = { ...uploaded, stage: 'new' as StageKey };
       }
 
@@ -501,6 +682,24 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                 My Tasks
               </button>
             )}
+            {onNavigateToAnalytics && (
+              <button
+                type="button"
+                onClick={onNavigateToAnalytics}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+              >
+                Analytics
+              </button>
+            )}
+            {onNavigateToArchived && (
+              <button
+                type="button"
+                onClick={onNavigateToArchived}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+              >
+                Archived
+              </button>
+            )}
             {onNavigateToAdmin && (
               <button
                 type="button"
@@ -510,6 +709,7 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                 Admin
               </button>
             )}
+            <ExportMenu datasets={[{ id: 'quotes', label: 'Quotes' }]} search={filter} />
             <button
               type="button"
               onClick={handleOpenNewModal}
@@ -518,6 +718,15 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
             >
               New lead
             </button>
+            {onNavigateToChangePassword && (
+              <button
+                type="button"
+                onClick={onNavigateToChangePassword}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+              >
+                Change password
+              </button>
+            )}
             <button
               type="button"
               onClick={handleLogout}
@@ -649,6 +858,7 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                                   <h3 className="line-clamp-2 text-sm font-semibold text-slate-900 flex-1">
                                     {quote.title}
                                   </h3>
+                                  <PresenceIndicator entries={presenceByQuote.get(quote.id) ?? []} />
                                 </div>
                                 <p className="mb-1 text-xs font-medium text-slate-600">
                                   {quote.clientName}
@@ -671,6 +881,11 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                                     Created by: <span className="font-medium text-slate-700">{quote.createdByName}</span>
                                   </p>
                                 )}
+                                {quote.stageEnteredAt && (
+                                  <p className="mb-1 text-[11px] text-slate-400">
+                                    {daysSince(quote.stageEnteredAt)}d in {STAGE_TITLES[quote.stage]}
+                                  </p>
+                                )}
                                 <div className="mt-2 flex items-center justify-between gap-2 text-[11px] text-slate-500">
                                   <div className="flex flex-col">
                                     <span className="uppercase tracking-wide text-slate-400">
@@ -706,16 +921,20 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                                 )}
                                 {quote.attachmentUrl && (
                                   <div className="mt-2 flex items-center gap-2">
-                                    <a
-                                      href={quote.attachmentUrl}
-                                      target="_blank"
-                                      rel="noreferrer"
-                                      onClick={(e) => e.stopPropagation()}
+                                    <button
+                                      type="button"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        openFile(quote.attachmentUrl!).catch((err) => {
+                                          console.error(err);
+                                          setError('Unable to open the file. Please try again.');
+                                        });
+                                      }}
                                       onMouseDown={(e) => e.stopPropagation()}
                                       className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
                                     >
                                       View quote
-                                    </a>
+                                    </button>
                                     {quote.attachmentUrl.toLowerCase().endsWith('.pdf') && (
                                       <button
                                         onClick={(e) => {
@@ -925,15 +1144,7 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                     setIsDraggingNewFile(false);
                     const files = e.dataTransfer.files;
                     if (files && files.length > 0) {
-                      const file = files[0];
-                      const validTypes = ['.pdf', '.doc', '.docx', '.xlsx', '.xls', '.png', '.jpg', '.jpeg'];
-                      const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-                      if (validTypes.includes(fileExtension)) {
-                        setNewQuoteFile(file);
-                        setError(null);
-                      } else {
-                        setError(`Invalid file type. Allowed: ${validTypes.join(', ')}`);
-                      }
+                      selectAttachment(files[0], setNewQuoteFile);
                     }
                   }}
                   className={`relative rounded-lg border-2 border-dashed transition-colors ${
@@ -944,10 +1155,8 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                 >
                   <input
                     type="file"
-                    accept=".pdf,.doc,.docx,.xlsx,.xls,.png,.jpg,.jpeg"
-                    onChange={(e) =>
-                      setNewQuoteFile(e.target.files ? e.target.files[0] : null)
-                    }
+                    accept={attachmentAccept(attachmentTypes)}
+                    onChange={(e) => selectAttachment(e.target.files?.[0] || null, setNewQuoteFile)}
                     className="absolute inset-0 w-full cursor-pointer opacity-0"
                   />
                   <div className="flex flex-col items-center justify-center px-4 py-6 text-center">
@@ -972,7 +1181,7 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                         : 'Drag & drop file or click to browse'}
                     </p>
                     <p className="text-[10px] text-slate-500">
-                      PDF, DOC, DOCX, XLSX, XLS, PNG, JPG, JPEG
+                      {attachmentTypes.flatMap((type) => type.extensions).map((ext) => ext.slice(1).toUpperCase()).join(', ')}
                     </p>
                     {newQuoteFile && (
                       <p className="mt-2 text-xs font-medium text-blue-600">
@@ -1013,7 +1222,12 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
             <h2 className="mb-4 text-base font-semibold text-slate-900">
               Edit Lead: {editingQuote.title}
             </h2>
-            <form onSubmit={handleUpdateQuote} className="space-y-4 text-sm">
+            {presenceByQuote.has(editingQuote.id) && (
+              <div className="mb-4">
+                <PresenceIndicator entries={presenceByQuote.get(editingQuote.id)!} showNames />
+              </div>
+            )}
+            <form onSubmit={handleUpdateQuote} onChange={() => setEditDirty(true)} className="space-y-4 text-sm">
               <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
                 <label className="flex flex-col gap-1">
                   <span className="text-xs font-medium text-slate-600">
@@ -1044,14 +1258,15 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
               <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
                 <label className="flex flex-col gap-1">
                   <span className="text-xs font-medium text-slate-600">
-                    Value £
+                    {editHasLineItems ? 'Value £ (from line items)' : 'Value £'}
                   </span>
                   <input
                     type="number"
                     min="0"
                     value={editValue}
                     onChange={(e) => setEditValue(e.target.value)}
-                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                    disabled={editHasLineItems}
+                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2 disabled:bg-slate-50 disabled:text-slate-500"
                   />
                 </label>
                 <label className="flex flex-col gap-1">
@@ -1122,6 +1337,61 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                 />
               </label>
 
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-medium text-slate-600">
+                    Chase every (days)
+                  </span>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={editChaseInterval}
+                    onChange={(e) => setEditChaseInterval(e.target.value)}
+                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                    placeholder="Stage default"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-medium text-slate-600">
+                    Escalate to manager after (chases)
+                  </span>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={editChaseEscalateAfter}
+                    onChange={(e) => setEditChaseEscalateAfter(e.target.value)}
+                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                    placeholder="Stage default"
+                  />
+                </label>
+              </div>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-slate-600">
+                  Reminder email template
+                </span>
+                <select
+                  value={editEmailTemplateId}
+                  onChange={(e) => setEditEmailTemplateId(e.target.value)}
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                >
+                  <option value="">Stage default</option>
+                  {emailTemplates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {(editingQuote.chaseCount ?? 0) > 0 && (
+                <p className="text-[11px] text-slate-500">
+                  {editingQuote.chaseCount} unanswered chase{editingQuote.chaseCount === 1 ? '' : 's'} in this stage
+                  {editingQuote.chaseEscalatedAt &&
+                    ` · escalated ${new Date(editingQuote.chaseEscalatedAt).toLocaleDateString()}`}
+                </p>
+              )}
+
               <label className="flex flex-col gap-1">
                 <span className="text-xs font-medium text-slate-600">
                   Notes (optional)
@@ -1135,34 +1405,41 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                 />
               </label>
 
-              {editingQuote.attachmentUrl && (
-                <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
-                  <p className="text-xs font-medium text-slate-600 mb-2">Current attachment</p>
-                  <div className="flex items-center gap-2">
-                    <a
-                      href={editingQuote.attachmentUrl}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="text-xs text-blue-600 hover:text-blue-700"
-                    >
-                      View attachment
-                    </a>
-                    {editingQuote.attachmentUrl.toLowerCase().endsWith('.pdf') && (
-                      <button
-                        type="button"
-                        onClick={() => handleViewPdf(editingQuote.attachmentUrl!)}
-                        className="text-xs text-blue-600 hover:text-blue-700"
-                      >
-                        | Preview PDF
-                      </button>
-                    )}
-                  </div>
+              <LineItemsEditor quoteId={editingQuote.id} onChange={handleLineItemsChange} />
+
+              <StageTimeline
+                quoteId={editingQuote.id}
+                stageTitles={STAGE_TITLES}
+                refreshKey={editingQuote.stage}
+              />
+
+              <EmailLogPanel quoteId={editingQuote.id} />
+
+              <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+                <div className="mb-2 flex items-center justify-between">
+                  <p className="text-xs font-medium text-slate-600">Attachments</p>
+                  <button
+                    type="button"
+                    onClick={handleGeneratePdf}
+                    disabled={generatingPdf}
+                    className="rounded-md border border-blue-600 bg-white px-2 py-1 text-[11px] font-medium text-blue-700 hover:bg-blue-50 disabled:opacity-60"
+                    title="Create a PDF quote from the line items and customer details"
+                  >
+                    {generatingPdf ? 'Generating…' : 'Generate PDF'}
+                  </button>
                 </div>
-              )}
+                <QuoteAttachmentsPanel
+                  quoteId={editingQuote.id}
+                  refreshKey={editingQuote.attachmentUrl}
+                  attachmentTypes={attachmentTypes}
+                  onQuoteChange={handleAttachmentsChange}
+                  onPreview={handleViewPdf}
+                />
+              </div>
 
               <label className="flex flex-col gap-1">
                 <span className="text-xs font-medium text-slate-600">
-                  {editingQuote.attachmentUrl ? 'Replace attachment (optional)' : 'Add attachment (optional)'}
+                  Add attachment (optional)
                 </span>
                 <div
                   onDragEnter={(e) => {
@@ -1188,15 +1465,7 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                     setIsDraggingEditFile(false);
                     const files = e.dataTransfer.files;
                     if (files && files.length > 0) {
-                      const file = files[0];
-                      const validTypes = ['.pdf', '.doc', '.docx', '.xlsx', '.xls', '.png', '.jpg', '.jpeg'];
-                      const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-                      if (validTypes.includes(fileExtension)) {
-                        setEditFile(file);
-                        setError(null);
-                      } else {
-                        setError(`Invalid file type. Allowed: ${validTypes.join(', ')}`);
-                      }
+                      selectAttachment(files[0], setEditFile);
                     }
                   }}
                   className={`relative rounded-lg border-2 border-dashed transition-colors ${
@@ -1207,10 +1476,8 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                 >
                   <input
                     type="file"
-                    accept=".pdf,.doc,.docx,.xlsx,.xls,.png,.jpg,.jpeg"
-                    onChange={(e) =>
-                      setEditFile(e.target.files ? e.target.files[0] : null)
-                    }
+                    accept={attachmentAccept(attachmentTypes)}
+                    onChange={(e) => selectAttachment(e.target.files?.[0] || null, setEditFile)}
                     className="absolute inset-0 w-full cursor-pointer opacity-0"
                   />
                   <div className="flex flex-col items-center justify-center px-4 py-6 text-center">
@@ -1235,7 +1502,7 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                         : 'Drag & drop file or click to browse'}
                     </p>
                     <p className="text-[10px] text-slate-500">
-                      PDF, DOC, DOCX, XLSX, XLS, PNG, JPG, JPEG
+                      {attachmentTypes.flatMap((type) => type.extensions).map((ext) => ext.slice(1).toUpperCase()).join(', ')}
                     </p>
                     {editFile && (
                       <p className="mt-2 text-xs font-medium text-blue-600">
@@ -1246,7 +1513,28 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
                 </div>
               </label>
 
+              {editFile && (
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-medium text-slate-600">Attachment label (optional)</span>
+                  <input
+                    type="text"
+                    value={editFileLabel}
+                    onChange={(e) => setEditFileLabel(e.target.value)}
+                    placeholder='e.g. "Rev B"'
+                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2"
+                  />
+                </label>
+              )}
+
               <div className="mt-4 flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={handleArchiveQuote}
+                  disabled={updating}
+                  className="mr-auto rounded-lg border border-red-200 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+                >
+                  Archive
+                </button>
                 <button
                   type="button"
                   onClick={handleCloseEditModal}
@@ -1268,11 +1556,13 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
       )}
 
       {/* PDF Preview Modal */}
-      {pdfPreviewUrl && (
+      {preview && (
         <div className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/80 px-4">
           <div className="w-full max-w-5xl rounded-2xl bg-white shadow-xl max-h-[90vh] flex flex-col">
             <div className="flex items-center justify-between p-4 border-b border-slate-200">
-              <h3 className="text-sm font-semibold text-slate-900">PDF Preview</h3>
+              <h3 className="text-sm font-semibold text-slate-900">
+                {preview.image ? 'Image Preview' : 'PDF Preview'}
+              </h3>
               <button
                 onClick={handleClosePdfPreview}
                 className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-50"
@@ -1281,15 +1571,20 @@ export const KanbanApp: React.FC<{ onNavigateToCustomers: () => void; onNavigate
               </button>
             </div>
             <div className="flex-1 overflow-auto p-4">
-              <iframe
-                src={pdfPreviewUrl}
-                className="w-full h-full min-h-[600px] border border-slate-200 rounded-lg"
-                title="PDF Preview"
-              />
+              {preview.image ? (
+                <img src={preview.url} alt="Attachment preview" className="mx-auto max-h-[75vh] max-w-full rounded-lg" />
+              ) : (
+                <iframe
+                  src={preview.url}
+                  className="w-full h-full min-h-[600px] border border-slate-200 rounded-lg"
+                  title="PDF Preview"
+                />
+              )}
             </div>
           </div>
         </div>
       )}
+      {conflictDialog}
       <Footer />
     </div>
   );
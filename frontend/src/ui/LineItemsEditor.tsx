@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchLineItems,
+  createLineItem,
+  updateLineItem,
+  deleteLineItem,
+  type LineItem,
+  type LineItemInput,
+  type LineItemsState,
+  type QuoteTotals
+} from '../api';
+
+type Draft = {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  discountPercent: string;
+  taxRate: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  description: '',
+  quantity: '1',
+  unitPrice: '',
+  discountPercent: '0',
+  taxRate: '20'
+};
+
+const toDraft = (item: LineItem): Draft => ({
+  description: item.description,
+  quantity: item.quantity.toString(),
+  unitPrice: item.unitPrice.toString(),
+  discountPercent: item.discountPercent.toString(),
+  taxRate: item.taxRate.toString()
+});
+
+const fromDraft = (draft: Draft): LineItemInput => ({
+  description: draft.description.trim(),
+  quantity: Number(draft.quantity) || 0,
+  unitPrice: Number(draft.unitPrice) || 0,
+  discountPercent: Number(draft.discountPercent) || 0,
+  taxRate: Number(draft.taxRate) || 0
+});
+
+const formatMoney = (amount: number) =>
+  `£${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const inputClass =
+  'w-full rounded-md border border-slate-200 px-2 py-1 text-xs outline-none ring-blue-500/0 transition focus:bg-white focus:ring-2';
+
+export const LineItemsEditor: React.FC<{
+  quoteId: string;
+  onChange?: (state: LineItemsState) => void;
+}> = ({ quoteId, onChange }) => {
+  const [items, setItems] = useState<LineItem[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [totals, setTotals] = useState<QuoteTotals | null>(null);
+  const [newItem, setNewItem] = useState<Draft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyState = (state: LineItemsState) => {
+    setItems(state.items);
+    setDrafts(Object.fromEntries(state.items.map((item) => [item.id, toDraft(item)])));
+    setTotals(state.totals);
+    onChange?.(state);
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        const state = await fetchLineItems(quoteId);
+        applyState(state);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load line items:', err);
+        setError('Unable to load line items.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [quoteId]);
+
+  const updateDraft = (id: string, field: keyof Draft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  // Existing rows save when a field loses focus and something actually changed
+  const handleSaveRow = async (item: LineItem) => {
+    const draft = drafts[item.id];
+    if (!draft) return;
+    const payload = fromDraft(draft);
+    const unchanged = (Object.keys(payload) as (keyof LineItemInput)[]).every(
+      (key) => payload[key] === item[key]
+    );
+    if (unchanged) return;
+    if (!payload.description) {
+      setError('Description is required');
+      setDrafts((prev) => ({ ...prev, [item.id]: toDraft(item) }));
+      return;
+    }
+    try {
+      setSaving(true);
+      applyState(await updateLineItem(quoteId, item.id, payload));
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to update line item:', err);
+      setError(err?.response?.data?.message || 'Unable to update line item.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRow = async (itemId: string) => {
+    try {
+      setSaving(true);
+      applyState(await deleteLineItem(quoteId, itemId));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to delete line item:', err);
+      setError('Unable to delete line item.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddItem = async () => {
+    const payload = fromDraft(newItem);
+    if (!payload.description) {
+      setError('Description is required');
+      return;
+    }
+    try {
+      setSaving(true);
+      applyState(await createLineItem(quoteId, payload));
+      setNewItem(EMPTY_DRAFT);
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to add line item:', err);
+      setError(err?.response?.data?.message || 'Unable to add line item.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-xs font-medium text-slate-600">Line items</p>
+        {saving && <span className="text-[10px] text-slate-400">Saving…</span>}
+      </div>
+
+      {error && (
+        <div className="mb-2 rounded-md border border-red-200 bg-red-50 px-2 py-1 text-[11px] text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-xs text-slate-500">Loading line items...</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wide text-slate-500">
+              <th className="pb-1 pr-1 font-medium">Description</th>
+              <th className="w-14 pb-1 pr-1 font-medium">Qty</th>
+              <th className="w-20 pb-1 pr-1 font-medium">Unit £</th>
+              <th className="w-14 pb-1 pr-1 font-medium">Disc %</th>
+              <th className="w-14 pb-1 pr-1 font-medium">Tax %</th>
+              <th className="w-20 pb-1 pr-1 text-right font-medium">Total</th>
+              <th className="w-6 pb-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => {
+              const draft = drafts[item.id] ?? toDraft(item);
+              return (
+                <tr key={item.id} className="align-top">
+                  <td className="py-0.5 pr-1">
+                    <input
+                      type="text"
+                      value={draft.description}
+                      onChange={(e) => updateDraft(item.id, 'description', e.target.value)}
+                      onBlur={() => handleSaveRow(item)}
+                      className={inputClass}
+                    />
+                  </td>
+                  {(['quantity', 'unitPrice', 'discountPercent', 'taxRate'] as const).map((field) => (
+                    <td key={field} className="py-0.5 pr-1">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={draft[field]}
+                        onChange={(e) => updateDraft(item.id, field, e.target.value)}
+                        onBlur={() => handleSaveRow(item)}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-1.5 pr-1 text-right font-medium text-slate-800">
+                    {formatMoney(item.total)}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteRow(item.id)}
+                      disabled={saving}
+                      className="text-slate-400 hover:text-red-600 disabled:opacity-60"
+                      title="Remove line item"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            <tr className="align-top">
+              <td className="pt-2 pr-1">
+                <input
+                  type="text"
+                  value={newItem.description}
+                  onChange={(e) => setNewItem({ ...newItem, description: e.target.value })}
+                  placeholder="Add product or service..."
+                  className={inputClass}
+                />
+              </td>
+              {(['quantity', 'unitPrice', 'discountPercent', 'taxRate'] as const).map((field) => (
+                <td key={field} className="pt-2 pr-1">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={newItem[field]}
+                    onChange={(e) => setNewItem({ ...newItem, [field]: e.target.value })}
+                    className={inputClass}
+                  />
+                </td>
+              ))}
+              <td className="pt-2 text-right" colSpan={2}>
+                <button
+                  type="button"
+                  onClick={handleAddItem}
+                  disabled={saving}
+                  className="rounded-md bg-blue-600 px-2 py-1 text-[11px] font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+                >
+                  Add
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+
+      {totals && items.length > 0 && (
+        <dl className="mt-3 ml-auto w-48 space-y-0.5 text-xs">
+          <div className="flex justify-between text-slate-600">
+            <dt>Subtotal</dt>
+            <dd>{formatMoney(totals.subtotal)}</dd>
+          </div>
+          <div className="flex justify-between text-slate-600">
+            <dt>Discount</dt>
+            <dd>-{formatMoney(totals.discount)}</dd>
+          </div>
+          <div className="flex justify-between text-slate-600">
+            <dt>Tax</dt>
+            <dd>{formatMoney(totals.tax)}</dd>
+          </div>
+          <div className="flex justify-between border-t border-slate-200 pt-1 font-semibold text-slate-900">
+            <dt>Total</dt>
+            <dd>{formatMoney(totals.total)}</dd>
+          </div>
+        </dl>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import type { PresenceEntry } from '../realtime';
+
+const initials = (email: string) =>
+  email
+    .split('@')[0]
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('') || '?';
+
+// One entry per user, marked as editing if any of their tabs is
+const byUser = (entries: PresenceEntry[]) => {
+  const users = new Map<string, PresenceEntry>();
+  for (const entry of entries) {
+    const existing = users.get(entry.userId);
+    if (!existing || (entry.editing && !existing.editing)) {
+      users.set(entry.userId, entry);
+    }
+  }
+  return [...users.values()];
+};
+
+export const PresenceIndicator: React.FC<{ entries: PresenceEntry[]; showNames?: boolean }> = ({
+  entries,
+  showNames = false
+}) => {
+  const users = byUser(entries);
+  if (users.length === 0) return null;
+
+  if (showNames) {
+    return (
+      <div className="flex flex-wrap gap-2 text-xs">
+        {users.map((user) => (
+          <span
+            key={user.userId}
+            className={`rounded-full px-2 py-0.5 font-medium ${
+              user.editing ? 'bg-amber-100 text-amber-800' : 'bg-slate-100 text-slate-700'
+            }`}
+          >
+            {user.email} is {user.editing ? 'editing' : 'viewing'}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex -space-x-1">
+      {users.map((user) => (
+        <span
+          key={user.userId}
+          title={`${user.email} is ${user.editing ? 'editing' : 'viewing'}`}
+          className={`flex h-5 w-5 items-center justify-center rounded-full text-[9px] font-semibold ring-2 ${
+            user.editing ? 'bg-amber-100 text-amber-800 ring-amber-400' : 'bg-slate-100 text-slate-700 ring-white'
+          }`}
+        >
+          {initials(user.email)}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  fetchQuoteAttachments,
+  uploadQuoteAttachment,
+  deleteQuoteAttachment,
+  attachmentAccept,
+  checkAttachmentFile,
+  downloadFile,
+  signFileUrls,
+  type AttachmentType,
+  type QuoteAttachment
+} from '../api';
+import { useLiveChanges } from '../realtime';
+import type { QuoteCard } from './KanbanApp';
+
+const fileName = (attachment: QuoteAttachment) =>
+  attachment.originalName || attachment.url.split('/').pop() || 'Attachment';
+
+const formatSize = (bytes: number | null) => {
+  if (bytes == null) return null;
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const isPdf = (attachment: QuoteAttachment) =>
+  attachment.mimeType === 'application/pdf' || attachment.url.toLowerCase().endsWith('.pdf');
+
+// Photos and screenshots, which the preview shows inline (DWG drawings are image/* too)
+const isImage = (attachment: QuoteAttachment) => /\.(png|jpe?g|gif|webp)$/i.test(attachment.url);
+
+// Earlier versions of a file, newest first
+const history = (attachment: QuoteAttachment, byId: Map<string, QuoteAttachment>) => {
+  const versions: QuoteAttachment[] = [];
+  let previous = attachment.supersedesId ? byId.get(attachment.supersedesId) : undefined;
+  while (previous) {
+    versions.push(previous);
+    previous = previous.supersedesId ? byId.get(previous.supersedesId) : undefined;
+  }
+  return versions;
+};
+
+type Props = {
+  quoteId: string;
+  // Changes when the quote's files may have changed elsewhere, e.g. a PDF was generated
+  refreshKey?: string | null;
+  // File types that can be uploaded as new versions
+  attachmentTypes: AttachmentType[];
+  onQuoteChange: (quote: QuoteCard) => void;
+  onPreview: (url: string) => void;
+};
+
+export const QuoteAttachmentsPanel: React.FC<Props> = ({
+  quoteId,
+  refreshKey,
+  attachmentTypes,
+  onQuoteChange,
+  onPreview
+}) => {
+  const [attachments, setAttachments] = useState<QuoteAttachment[]>([]);
+  // Signed URLs of the thumbnails, by thumbnailUrl
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const versionInput = useRef<HTMLInputElement>(null);
+  const [replacing, setReplacing] = useState<QuoteAttachment | null>(null);
+
+  const loadAttachments = async () => {
+    try {
+      const data = await fetchQuoteAttachments(quoteId);
+      setAttachments(data);
+      setError(null);
+      const thumbnailUrls = data.map((a) => a.thumbnailUrl).filter((url): url is string => !!url);
+      setThumbnails(await signFileUrls(thumbnailUrls, { inline: true }));
+    } catch (err) {
+      console.error('Failed to load attachments:', err);
+      setError('Unable to load attachments.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadAttachments();
+  }, [quoteId, refreshKey]);
+
+  // Someone else added or removed a file
+  useLiveChanges<QuoteCard>('quote', (change) => {
+    if (change.action === 'upsert' && change.items?.some((quote) => quote.id === quoteId)) {
+      loadAttachments();
+    }
+  });
+
+  const handleNewVersion = (attachment: QuoteAttachment) => {
+    setReplacing(attachment);
+    versionInput.current?.click();
+  };
+
+  const handleVersionFile = async (file: File | undefined) => {
+    if (versionInput.current) versionInput.current.value = '';
+    if (!file || !replacing) return;
+    const problem = checkAttachmentFile(file, attachmentTypes);
+    if (problem) {
+      setError(problem);
+      setReplacing(null);
+      return;
+    }
+    const label = window.prompt(`Label for the new version of ${fileName(replacing)} (optional), e.g. "Rev B":`);
+    if (label === null) return;
+    setBusy(true);
+    try {
+      const { quote } = await uploadQuoteAttachment(quoteId, file, {
+        label: label.trim() || undefined,
+        supersedesId: replacing.id
+      });
+      onQuoteChange(quote);
+      await loadAttachments();
+    } catch (err: any) {
+      console.error('Failed to upload new version:', err);
+      setError(err?.response?.data?.message || 'Unable to upload the new version.');
+      // A file blocked by the virus scan is still listed
+      if (err?.response?.status === 422) await loadAttachments();
+    } finally {
+      setBusy(false);
+      setReplacing(null);
+    }
+  };
+
+  const handleDownload = async (attachment: QuoteAttachment) => {
+    try {
+      await downloadFile(attachment.url);
+    } catch (err) {
+      console.error('Failed to download attachment:', err);
+      setError('Unable to download the file.');
+    }
+  };
+
+  const handleDelete = async (attachment: QuoteAttachment) => {
+    if (!window.confirm(`Delete ${fileName(attachment)} (v${attachment.version})? This cannot be undone.`)) return;
+    setBusy(true);
+    try {
+      const { quote } = await deleteQuoteAttachment(quoteId, attachment.id);
+      onQuoteChange(quote);
+      await loadAttachments();
+    } catch (err: any) {
+      console.error('Failed to delete attachment:', err);
+      setError(err?.response?.data?.message || 'Unable to delete the attachment.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const byId = new Map(attachments.map((a) => [a.id, a]));
+  const current = attachments.filter((a) => a.latest);
+
+  const renderRow = (attachment: QuoteAttachment, { isLatest }: { isLatest: boolean }) => {
+    const blocked = attachment.scanStatus === 'blocked';
+    return (
+      <div className="flex items-start justify-between gap-2">
+        {attachment.thumbnailUrl && thumbnails[attachment.thumbnailUrl] && (
+          <button
+            type="button"
+            onClick={() => onPreview(attachment.url)}
+            title="Preview"
+            className="shrink-0 overflow-hidden rounded border border-slate-200"
+          >
+            <img
+              src={thumbnails[attachment.thumbnailUrl]}
+              alt={fileName(attachment)}
+              loading="lazy"
+              className={isLatest ? 'h-12 w-12 object-cover' : 'h-8 w-8 object-cover'}
+            />
+          </button>
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium text-slate-800">
+            {attachment.label || fileName(attachment)}
+            <span className="ml-1 font-normal text-slate-400">v{attachment.version}</span>
+          </p>
+          <p className="text-[11px] text-slate-500">
+            {attachment.label && `${fileName(attachment)} · `}
+            {attachment.source === 'generated' ? 'Generated' : 'Uploaded'}
+            {attachment.uploadedByName && ` by ${attachment.uploadedByName}`} ·{' '}
+            {new Date(attachment.createdAt).toLocaleString()}
+            {formatSize(attachment.sizeBytes) && ` · ${formatSize(attachment.sizeBytes)}`}
+          </p>
+          {blocked && (
+            <p className="text-[11px] font-medium text-red-600">
+              Blocked: contains a virus ({attachment.scanSignature || 'unknown'}). The file has been quarantined.
+            </p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-2 text-[11px]">
+          {!blocked && (
+            <button type="button" onClick={() => handleDownload(attachment)} className="text-blue-600 hover:text-blue-700">
+              Download
+            </button>
+          )}
+          {!blocked && (isPdf(attachment) || isImage(attachment)) && (
+            <button type="button" onClick={() => onPreview(attachment.url)} className="text-blue-600 hover:text-blue-700">
+              Preview
+            </button>
+          )}
+          {isLatest && !blocked && (
+            <button
+              type="button"
+              onClick={() => handleNewVersion(attachment)}
+              disabled={busy}
+              className="text-blue-600 hover:text-blue-700 disabled:opacity-60"
+            >
+              New version
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => handleDelete(attachment)}
+            disabled={busy}
+            className="text-red-600 hover:text-red-700 disabled:opacity-60"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <input
+        ref={versionInput}
+        type="file"
+        accept={attachmentAccept(attachmentTypes)}
+        onChange={(e) => handleVersionFile(e.target.files?.[0])}
+        className="hidden"
+      />
+      {loading ? (
+        <p className="text-xs text-slate-500">Loading attachments...</p>
+      ) : current.length === 0 ? (
+        <p className="text-xs text-slate-500">No files attached to this quote.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200">
+          {current.map((attachment) => {
+            const earlier = history(attachment, byId);
+            return (
+              <li key={attachment.id} className="py-1.5 text-xs">
+                {renderRow(attachment, { isLatest: true })}
+                {earlier.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === attachment.id ? null : attachment.id)}
+                    className="mt-0.5 text-[11px] text-slate-500 hover:text-slate-700"
+                  >
+                    {expandedId === attachment.id ? 'Hide' : 'Show'} {earlier.length} earlier version
+                    {earlier.length === 1 ? '' : 's'}
+                  </button>
+                )}
+                {expandedId === attachment.id && (
+                  <ul className="mt-1 space-y-1 border-l-2 border-slate-200 pl-3">
+                    {earlier.map((version) => (
+                      <li key={version.id}>{renderRow(version, { isLatest: false })}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { fetchQuoteHistory, type StageHistoryEntry } from '../api';
+
+const formatDays = (days: number) => {
+  if (days < 1) return 'less than a day';
+  const rounded = Math.round(days);
+  return `${rounded} day${rounded === 1 ? '' : 's'}`;
+};
+
+export const StageTimeline: React.FC<{
+  quoteId: string;
+  stageTitles: Record<string, string>;
+  // Changes whenever the quote's stage changes so the timeline reloads
+  refreshKey?: string;
+}> = ({ quoteId, stageTitles, refreshKey }) => {
+  const [history, setHistory] = useState<StageHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        const data = await fetchQuoteHistory(quoteId);
+        setHistory(data);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load stage history:', err);
+        setError('Unable to load stage history.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [quoteId, refreshKey]);
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <p className="mb-2 text-xs font-medium text-slate-600">Stage history</p>
+      {loading ? (
+        <p className="text-xs text-slate-500">Loading history...</p>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-xs text-slate-500">No stage changes recorded.</p>
+      ) : (
+        <ol className="relative ml-1 border-l border-slate-200">
+          {history.map((entry) => (
+            <li key={entry.id} className="mb-2 ml-3 last:mb-0">
+              <span
+                className={`absolute -left-1 mt-1 h-2 w-2 rounded-full ${
+                  entry.leftAt ? 'bg-slate-300' : 'bg-blue-600'
+                }`}
+              />
+              <div className="flex items-baseline justify-between gap-2 text-xs">
+                <span className="font-medium text-slate-800">
+                  {entry.fromStage
+                    ? `${stageTitles[entry.fromStage] || entry.fromStage} → ${stageTitles[entry.toStage] || entry.toStage}`
+                    : `Created in ${stageTitles[entry.toStage] || entry.toStage}`}
+                </span>
+                <span className="shrink-0 text-[11px] text-slate-500">
+                  {entry.leftAt ? formatDays(entry.daysInStage) : `${formatDays(entry.daysInStage)} so far`}
+                </span>
+              </div>
+              <p className="text-[11px] text-slate-500">
+                {new Date(entry.changedAt).toLocaleString()}
+                {entry.changedByName && ` · ${entry.changedByName}`}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
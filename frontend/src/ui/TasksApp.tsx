@@ -1,7 +1,19 @@
 import React, { useEffect, useState } from 'react';
-import { fetchMyTasks, createTask, updateTask, fetchQuotes, type Task } from '../api';
+import { fetchMyTasks, createTask, updateTask, fetchQuotes, archiveItem, type Task } from '../api';
 import type { QuoteCard } from './KanbanApp';
 import { Footer } from './Footer';
+import { ExportMenu } from './ExportMenu';
+import { useLiveChanges } from '../realtime';
+import { useVersionedSave, type ConflictFieldSpec } from './ConflictDialog';
+
+// Fields of the edit modal, for resolving conflicting edits
+const TASK_CONFLICT_FIELDS: ConflictFieldSpec<Task>[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Description' },
+  { key: 'dueDate', label: 'Due date', format: (value) => (typeof value === 'string' && value ? new Date(value).toLocaleDateString() : '') },
+  { key: 'priority', label: 'Priority' },
+  { key: 'completed', label: 'Completed', format: (value) => (value ? 'Yes' : 'No') }
+];
 
 export const TasksApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNavigateToDashboard }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -17,12 +29,20 @@ export const TasksApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
   const [taskDueDate, setTaskDueDate] = useState('');
   const [taskPriority, setTaskPriority] = useState<'low' | 'medium' | 'high'>('medium');
   const [taskQuoteId, setTaskQuoteId] = useState<string>('');
+  const { saveWithVersion, conflictDialog } = useVersionedSave<Task>(TASK_CONFLICT_FIELDS);
 
   useEffect(() => {
     loadTasks();
     loadQuotes();
   }, []);
 
+  // Any task change may add to or take from this user's list, so refetch it
+  useLiveChanges<Task>('task', () => {
+    fetchMyTasks()
+      .then(setTasks)
+      .catch((err) => console.error('Error reloading tasks:', err));
+  });
+
   const loadTasks = async () => {
     try {
       setLoading(true);
@@ -79,14 +99,20 @@ export const TasksApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
     }
 
     try {
-      const updated = await updateTask(editingTask.id, {
-        title: taskTitle.trim(),
-        description: taskDescription.trim() || undefined,
-        dueDate: taskDueDate || undefined,
-        priority: taskPriority,
-        completed: editingTask.completed,
-        quoteId: taskQuoteId || undefined
-      });
+      const updated = await saveWithVersion(
+        editingTask,
+        {
+          title: taskTitle.trim(),
+          description: taskDescription.trim() || undefined,
+          dueDate: taskDueDate || undefined,
+          priority: taskPriority,
+          completed: editingTask.completed,
+          quoteId: taskQuoteId || undefined
+        },
+        (edit) => updateTask(editingTask.id, edit)
+      );
+      // Back to editing from the conflict dialog
+      if (!updated) return;
       setTasks(tasks.map(t => t.id === updated.id ? updated : t));
       resetTaskForm();
       setEditingTask(null);
@@ -109,6 +135,18 @@ export const TasksApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
     }
   };
 
+  const handleArchiveTask = async () => {
+    if (!editingTask) return;
+    try {
+      await archiveItem('task', editingTask.id);
+      setTasks(tasks.filter(t => t.id !== editingTask.id));
+      handleCloseModal();
+    } catch (err) {
+      console.error('Error archiving task:', err);
+      setError('Failed to archive task');
+    }
+  };
+
   const handleEditTask = (task: Task) => {
     setEditingTask(task);
     setTaskTitle(task.title);
@@ -175,6 +213,7 @@ export const TasksApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
             >
               Dashboard
             </button>
+            <ExportMenu datasets={[{ id: 'tasks', label: 'Tasks' }]} />
             <button
               type="button"
               onClick={() => setIsAddingTask(true)}
@@ -390,6 +429,15 @@ export const TasksApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
               </div>
 
               <div className="mt-6 flex justify-end gap-3">
+                {editingTask && (
+                  <button
+                    type="button"
+                    onClick={handleArchiveTask}
+                    className="mr-auto rounded-lg border border-red-300 bg-white px-4 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-red-50"
+                  >
+                    Archive
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={handleCloseModal}
@@ -409,6 +457,7 @@ export const TasksApp: React.FC<{ onNavigateToDashboard: () => void }> = ({ onNa
         </div>
       )}
 
+      {conflictDialog}
       <Footer />
     </div>
   );
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { fetchUserSessions, endUserSession, signOutUserEverywhere, type User, type UserSession } from '../api';
+
+// Where a user is signed in, with actions to end one session or all of them
+export const UserSessionsPanel: React.FC<{ user: User }> = ({ user }) => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await fetchUserSessions(user.id));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+      setError('Unable to load sessions.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadSessions();
+  }, [user.id]);
+
+  const handleEnd = async (session: UserSession) => {
+    const warning = session.current ? ' This is your current session; you will be signed out.' : '';
+    if (!window.confirm(`End the session on ${session.device}?${warning}`)) return;
+    setBusy(true);
+    try {
+      await endUserSession(user.id, session.id);
+      await loadSessions();
+    } catch (err: any) {
+      console.error('Failed to end session:', err);
+      setError(err?.response?.data?.message || 'Unable to end the session.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    const warning = sessions.some((s) => s.current) ? ' This includes your current session.' : '';
+    if (!window.confirm(`Sign ${user.username || user.email} out on every device?${warning}`)) return;
+    setBusy(true);
+    try {
+      await signOutUserEverywhere(user.id);
+      await loadSessions();
+    } catch (err: any) {
+      console.error('Failed to sign out user:', err);
+      setError(err?.response?.data?.message || 'Unable to sign the user out.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-slate-700">Active sessions</p>
+        <button
+          type="button"
+          onClick={handleSignOutEverywhere}
+          disabled={busy || sessions.length === 0}
+          className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+        >
+          Sign out everywhere
+        </button>
+      </div>
+      {loading ? (
+        <p className="text-xs text-slate-500">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-xs text-slate-500">Not signed in anywhere.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200 bg-white">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-800">
+                  {session.device}
+                  {session.current && <span className="ml-1 font-normal text-green-700">(this session)</span>}
+                </p>
+                <p className="truncate text-[11px] text-slate-500" title={session.userAgent || undefined}>
+                  Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                  {session.ipAddress && ` · ${session.ipAddress}`} · Signed in{' '}
+                  {new Date(session.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleEnd(session)}
+                disabled={busy}
+                className="shrink-0 text-red-600 hover:text-red-700 disabled:opacity-60"
+              >
+                End session
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
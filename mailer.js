@@ -0,0 +1,133 @@
+const nodemailer = require('nodemailer');
+const { createEmailLog, recordEmailAttempt, claimEmailRetries } = require('./db');
+
+// Outbound email with a persistent log.
+//
+// Every message is written to email_log before it is sent, and each attempt
+// records its status, error and SMTP message id. Transient failures (network
+// errors and 4xx SMTP replies) are retried with exponential backoff by
+// processEmailRetries; anything else is marked failed straight away.
+//
+// Messages of the REDACTED_KINDS carry a secret, such as a single-use
+// password reset link. Only a redacted body is logged (and printed when SMTP
+// is not configured), so they are sent once and never retried.
+
+const MAX_ATTEMPTS = Number(process.env.EMAIL_MAX_ATTEMPTS || 5);
+const RETRY_BASE_MINUTES = Number(process.env.EMAIL_RETRY_BASE_MINUTES || 2);
+
+const REDACTED_KINDS = ['password_reset'];
+const REDACTED_BODY = '[Redacted: this message contained a single-use link and is not stored]';
+
+const TRANSIENT_ERROR_CODES = ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNRESET', 'ECONNREFUSED'];
+
+let transporter;
+
+function createTransport() {
+  const { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE } = process.env;
+  if (!SMTP_HOST) {
+    console.warn(
+      '[mailer] SMTP configuration missing. Emails will be logged to console only.'
+    );
+    return null;
+  }
+  return nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: Number(SMTP_PORT || 587),
+    secure: SMTP_SECURE === 'true',
+    auth: SMTP_USER
+      ? {
+          user: SMTP_USER,
+          pass: SMTP_PASS
+        }
+      : undefined
+  });
+}
+
+function getTransport() {
+  if (transporter === undefined) {
+    transporter = createTransport();
+  }
+  return transporter;
+}
+
+function isTransientError(err) {
+  if (err.responseCode) {
+    return err.responseCode >= 400 && err.responseCode < 500;
+  }
+  return TRANSIENT_ERROR_CODES.includes(err.code);
+}
+
+// 2, 4, 8, 16... minutes after the failed attempt
+function nextRetryAt(attempts) {
+  return new Date(Date.now() + RETRY_BASE_MINUTES * 2 ** (attempts - 1) * 60 * 1000);
+}
+
+// content is the message to send when it differs from the logged body
+async function attemptDelivery(entry, content = { text: entry.bodyText, html: entry.bodyHtml }) {
+  const transport = getTransport();
+  if (!transport) {
+    console.log(`[mailer] ${entry.kind} email for ${entry.recipient}: ${entry.subject}\n${entry.bodyText}`);
+    return recordEmailAttempt(entry.id, { status: 'logged' });
+  }
+
+  try {
+    const info = await transport.sendMail({
+      from: process.env.SMTP_FROM || entry.recipient,
+      to: entry.recipient,
+      subject: entry.subject,
+      text: content.text,
+      html: content.html || undefined
+    });
+    return recordEmailAttempt(entry.id, { status: 'sent', messageId: info.messageId || null });
+  } catch (err) {
+    const attempts = entry.attempts + 1;
+    const retry = isTransientError(err) && attempts < MAX_ATTEMPTS && !REDACTED_KINDS.includes(entry.kind);
+    console.error(
+      `[mailer] Sending ${entry.kind} email ${entry.id} to ${entry.recipient} failed (attempt ${attempts})${
+        retry ? ', will retry' : ''
+      }:`,
+      err.message
+    );
+    return recordEmailAttempt(entry.id, {
+      status: retry ? 'retrying' : 'failed',
+      error: err.message,
+      nextAttemptAt: retry ? nextRetryAt(attempts) : null
+    });
+  }
+}
+
+// Logs and sends a message. Resolves with the log entry after the first
+// attempt; delivery failures are recorded rather than thrown.
+async function sendEmail({ quoteId = null, kind, to, subject, text, html = null, templateId = null, templateName = null }) {
+  const redacted = REDACTED_KINDS.includes(kind);
+  const entry = await createEmailLog({
+    quoteId,
+    kind,
+    recipient: to,
+    templateId,
+    templateName,
+    subject,
+    bodyText: redacted ? REDACTED_BODY : text,
+    bodyHtml: redacted ? null : html
+  });
+  return attemptDelivery(entry, { text, html });
+}
+
+async function processEmailRetries(now = new Date()) {
+  const due = await claimEmailRetries({ now });
+  for (const entry of due) {
+    // The logged body of a redacted message is not the real one; a stale
+    // reset link would be of little use by now anyway
+    if (REDACTED_KINDS.includes(entry.kind)) {
+      await recordEmailAttempt(entry.id, { status: 'failed', error: 'Not retried: the message was not stored' });
+      continue;
+    }
+    await attemptDelivery(entry);
+  }
+  return due.length;
+}
+
+module.exports = {
+  sendEmail,
+  processEmailRetries
+};
@@ -0,0 +1,62 @@
+// Copies files from the local uploads/ directory into the configured store
+// (see storage.js), e.g. when switching a deployment to STORAGE_DRIVER=s3:
+//
+//   STORAGE_DRIVER=s3 S3_BUCKET=... node migrateUploads.js [--dry-run] [--delete]
+//   (or: npm run migrate-uploads -- [--dry-run] [--delete])
+//
+// Files already in the store are skipped, so it is safe to run again after
+// an interruption. --delete removes each local file once its copy is in the
+// store; --dry-run only lists what would be copied. Records keep their
+// /uploads/... URLs, so nothing in the database changes.
+
+const path = require('path');
+const { UPLOADS_DIR, storage, createLocalStorage } = require('./storage');
+
+async function migrateUploads({ dryRun = false, deleteLocal = false } = {}) {
+  if (storage.driver === 'local') {
+    console.log('[migrate-uploads] STORAGE_DRIVER is local; files are already where they are served from');
+    return { copied: 0, skipped: 0, failed: 0 };
+  }
+  const local = createLocalStorage(UPLOADS_DIR);
+  const keys = await local.list();
+  console.log(`[migrate-uploads] ${keys.length} file(s) in ${UPLOADS_DIR}`);
+
+  const counts = { copied: 0, skipped: 0, failed: 0 };
+  for (const key of keys) {
+    try {
+      if (await storage.exists(key)) {
+        counts.skipped += 1;
+      } else if (dryRun) {
+        console.log(`[migrate-uploads] Would copy ${key}`);
+        counts.copied += 1;
+        continue;
+      } else {
+        await storage.put(key, path.join(UPLOADS_DIR, key));
+        counts.copied += 1;
+      }
+      if (deleteLocal && !dryRun) {
+        await local.remove(key);
+      }
+    } catch (err) {
+      counts.failed += 1;
+      console.error(`[migrate-uploads] Failed to copy ${key}:`, err);
+    }
+  }
+  console.log(
+    `[migrate-uploads] ${dryRun ? 'Would copy' : 'Copied'} ${counts.copied}, ` +
+    `already in store ${counts.skipped}, failed ${counts.failed}`
+  );
+  return counts;
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  migrateUploads({ dryRun: args.includes('--dry-run'), deleteLocal: args.includes('--delete') })
+    .then(({ failed }) => process.exit(failed > 0 ? 1 : 0))
+    .catch((err) => {
+      console.error('[migrate-uploads] Failed:', err);
+      process.exit(1);
+    });
+}
+
+module.exports = { migrateUploads };
@@ -0,0 +1,202 @@
+const fs = require('fs');
+const path = require('path');
+const PDFDocument = require('pdfkit');
+
+const COMPANY_NAME = process.env.COMPANY_NAME || 'Quote Portal';
+
+// PDFKit can embed PNG and JPEG images but not SVG, so the PDF logo is
+// resolved separately from the SVG used by the web app (see LOGO_CUSTOMIZATION.md).
+const LOGO_CANDIDATES = [
+  process.env.QUOTE_PDF_LOGO,
+  path.join(__dirname, 'frontend', 'public', 'logo.png'),
+  path.join(__dirname, 'frontend', 'public', 'logo.jpg'),
+  path.join(__dirname, 'frontend', 'public', 'logo.jpeg')
+].filter(Boolean);
+
+function findLogoPath() {
+  return LOGO_CANDIDATES.find((candidate) => fs.existsSync(candidate)) || null;
+}
+
+function formatMoney(amount) {
+  return `£${Number(amount || 0).toLocaleString('en-GB', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  })}`;
+}
+
+function formatDate(value) {
+  return new Date(value).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  });
+}
+
+const BRAND_COLOR = '#2563EB';
+const TEXT_COLOR = '#0F172A';
+const MUTED_COLOR = '#64748B';
+
+// Column layout for the line item table: [label, x offset, width, align]
+const COLUMNS = [
+  ['Description', 0, 220, 'left'],
+  ['Qty', 220, 40, 'right'],
+  ['Unit price', 260, 70, 'right'],
+  ['Disc.', 330, 45, 'right'],
+  ['Tax', 375, 45, 'right'],
+  ['Total', 420, 75, 'right']
+];
+
+function drawHeader(doc, { quote, version }) {
+  const logoPath = findLogoPath();
+  if (logoPath) {
+    doc.image(logoPath, 50, 45, { fit: [150, 50] });
+  } else {
+    doc.fillColor(BRAND_COLOR).fontSize(20).font('Helvetica-Bold').text(COMPANY_NAME, 50, 55);
+  }
+
+  doc
+    .fillColor(TEXT_COLOR)
+    .font('Helvetica-Bold')
+    .fontSize(18)
+    .text('QUOTATION', 350, 50, { width: 195, align: 'right' })
+    .font('Helvetica')
+    .fontSize(9)
+    .fillColor(MUTED_COLOR)
+    .text(`Reference: ${quote.soNumber || quote.id}`, 350, 75, { width: 195, align: 'right' })
+    .text(`Date: ${formatDate(new Date())}`, { width: 195, align: 'right' })
+    .text(`Version: ${version}`, { width: 195, align: 'right' });
+
+  doc.moveTo(50, 115).lineTo(545, 115).strokeColor('#E2E8F0').stroke();
+}
+
+function drawCustomer(doc, { quote, customer }) {
+  doc.fillColor(MUTED_COLOR).fontSize(9).font('Helvetica-Bold').text('PREPARED FOR', 50, 130);
+  doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10);
+  const lines = [
+    customer?.name || quote.customerName,
+    quote.clientName,
+    customer?.address,
+    customer?.email,
+    customer?.phone
+  ].filter(Boolean);
+  lines.forEach((line) => doc.text(line));
+
+  doc.fillColor(MUTED_COLOR).fontSize(9).font('Helvetica-Bold').text('PROJECT', 320, 130);
+  doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10).text(quote.title, 320, 143, { width: 225 });
+
+  doc.y = Math.max(doc.y, 130 + lines.length * 13) + 20;
+}
+
+function drawRow(doc, values, y, { bold = false } = {}) {
+  doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor(TEXT_COLOR);
+  let height = 0;
+  COLUMNS.forEach(([, x, width, align], index) => {
+    const text = String(values[index]);
+    doc.text(text, 50 + x, y, { width, align });
+    height = Math.max(height, doc.heightOfString(text, { width }));
+  });
+  return y + height + 6;
+}
+
+function drawLineItems(doc, { quote, items, totals }) {
+  let y = doc.y;
+  doc.rect(50, y - 4, 495, 18).fill('#F1F5F9');
+  y = drawRow(doc, COLUMNS.map(([label]) => label), y, { bold: true });
+
+  // Quotes without line items are shown as a single line for their value
+  const rows = items.length > 0
+    ? items
+    : [{ description: quote.title, quantity: 1, unitPrice: quote.value || 0, discountPercent: 0, taxRate: 0, total: quote.value || 0 }];
+
+  rows.forEach((item) => {
+    if (y > 720) {
+      doc.addPage();
+      y = 50;
+    }
+    y = drawRow(doc, [
+      item.description,
+      item.quantity,
+      formatMoney(item.unitPrice),
+      `${item.discountPercent}%`,
+      `${item.taxRate}%`,
+      formatMoney(item.total)
+    ], y);
+  });
+
+  doc.moveTo(50, y).lineTo(545, y).strokeColor('#E2E8F0').stroke();
+  y += 10;
+
+  const summary = items.length > 0
+    ? [
+        ['Subtotal', formatMoney(totals.subtotal)],
+        ['Discount', `-${formatMoney(totals.discount)}`],
+        ['Tax', formatMoney(totals.tax)],
+        ['Total', formatMoney(totals.total)]
+      ]
+    : [['Total', formatMoney(quote.value)]];
+
+  summary.forEach(([label, value], index) => {
+    const isTotal = index === summary.length - 1;
+    doc
+      .font(isTotal ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(isTotal ? 11 : 9)
+      .fillColor(TEXT_COLOR)
+      .text(label, 370, y, { width: 90, align: 'right' })
+      .text(value, 470, y, { width: 75, align: 'right' });
+    y += isTotal ? 18 : 14;
+  });
+
+  doc.y = y + 10;
+}
+
+function drawNotes(doc, { quote }) {
+  if (!quote.notes) return;
+  doc.fillColor(MUTED_COLOR).fontSize(9).font('Helvetica-Bold').text('NOTES', 50, doc.y);
+  doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(9).text(quote.notes, 50, doc.y + 2, { width: 495 });
+}
+
+// The footer sits in the bottom margin, which PDFKit would otherwise treat as
+// overflow and answer with a new page, so the margin is lifted while it is
+// written.
+function drawFooter(doc) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const { bottom } = doc.page.margins;
+    doc.page.margins.bottom = 0;
+    doc
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(`${COMPANY_NAME} · Page ${i + 1} of ${range.count}`, 50, 790, { width: 495, align: 'center' });
+    doc.page.margins.bottom = bottom;
+  }
+  if (doc.bufferedPageRange().count !== range.count) {
+    throw new Error(`Footer added pages: expected ${range.count}, got ${doc.bufferedPageRange().count}`);
+  }
+}
+
+// Render a quote document. Resolves with the PDF as a Buffer.
+function renderQuotePdf({ quote, customer, items, totals, version }) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, bufferPages: true });
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.info.Title = `Quotation ${quote.soNumber || quote.id} - ${quote.title}`;
+    doc.info.Author = COMPANY_NAME;
+
+    drawHeader(doc, { quote, version });
+    drawCustomer(doc, { quote, customer });
+    drawLineItems(doc, { quote, items, totals });
+    drawNotes(doc, { quote });
+    drawFooter(doc);
+
+    doc.end();
+  });
+}
+
+module.exports = {
+  renderQuotePdf
+};
@@ -0,0 +1,233 @@
+const crypto = require('crypto');
+const {
+  pool,
+  findUserById,
+  getActiveSession,
+  getQuotesByIds,
+  getTasksByIds,
+  getActivitiesByIds
+} = require('./db');
+
+// Live updates for the board, task lists and CRM over server-sent events.
+//
+// Changes are published with Postgres NOTIFY rather than written straight to
+// the connected clients, so a change made on one web replica, or by the
+// reminder worker, reaches users connected to any replica. Presence (who has
+// a quote open and whether they are editing it) travels the same way; every
+// replica keeps its own copy and drops entries that stop being refreshed.
+
+const CHANNEL = 'quote_portal_events';
+const HEARTBEAT_MS = 25 * 1000;
+// Clients refresh their presence every 30 seconds
+const PRESENCE_TTL_MS = 75 * 1000;
+const LISTEN_RETRY_MS = 5 * 1000;
+// NOTIFY payloads are limited to 8000 bytes
+const MAX_IDS_PER_MESSAGE = 100;
+const TAB_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const LOADERS = {
+  quote: getQuotesByIds,
+  task: getTasksByIds,
+  activity: getActivitiesByIds
+};
+
+// Connected event streams on this process, by connection id
+const streams = new Map();
+// `${userId}:${tabId}` -> { userId, email, tabId, quoteId, editing, expiresAt }
+const presence = new Map();
+
+function send(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function broadcast(event, data) {
+  for (const stream of streams.values()) {
+    send(stream.res, event, data);
+  }
+}
+
+function presenceList() {
+  return [...presence.values()].map(({ expiresAt, ...entry }) => entry);
+}
+
+async function notify(message) {
+  await pool.query('select pg_notify($1, $2)', [CHANNEL, JSON.stringify(message)]);
+}
+
+// Tells every connected user that records changed. `action` is 'upsert' (the
+// records are reloaded and sent), 'remove', or 'reload' for bulk changes where
+// clients should refetch the whole list. Never throws: a missed live update
+// must not fail the request that made the change.
+async function publishChange(entity, ids = [], { action = 'upsert', actor = null } = {}) {
+  const list = [].concat(ids);
+  const by = actor ? { id: actor.sub || actor.id, email: actor.email } : null;
+  try {
+    for (let i = 0; i < Math.max(list.length, 1); i += MAX_IDS_PER_MESSAGE) {
+      await notify({ type: 'change', entity, action, ids: list.slice(i, i + MAX_IDS_PER_MESSAGE), actor: by });
+    }
+  } catch (err) {
+    console.error('[realtime] Failed to publish change:', err);
+  }
+}
+
+// Sets or clears (quoteId null) what one browser tab is looking at
+async function setPresence(user, tabId, { quoteId = null, editing = false } = {}) {
+  const key = `${user.sub}:${tabId}`;
+  const entry = quoteId
+    ? { userId: user.sub, email: user.email, tabId, quoteId, editing: Boolean(editing) }
+    : null;
+  await notify({ type: 'presence', key, entry });
+}
+
+async function deliverChange({ entity, action, ids, actor }) {
+  if (streams.size === 0) return;
+  if (action !== 'upsert' || !LOADERS[entity]) {
+    broadcast('change', { entity, action, ids, actor });
+    return;
+  }
+  const records = await LOADERS[entity](ids);
+  const live = records.filter((record) => !record.archivedAt);
+  const gone = ids.filter((id) => !live.some((record) => record.id === id));
+  if (live.length > 0) {
+    broadcast('change', { entity, action: 'upsert', items: live, actor });
+  }
+  if (gone.length > 0) {
+    broadcast('change', { entity, action: 'remove', ids: gone, actor });
+  }
+}
+
+function applyPresence({ key, entry }) {
+  const previous = presence.get(key);
+  if (!entry) {
+    if (!previous) return;
+    presence.delete(key);
+  } else {
+    presence.set(key, { ...entry, expiresAt: Date.now() + PRESENCE_TTL_MS });
+    // A refresh of unchanged presence is not worth a broadcast
+    if (previous && previous.quoteId === entry.quoteId && previous.editing === entry.editing) return;
+  }
+  broadcast('presence', presenceList());
+}
+
+function handleNotification(payload) {
+  let message;
+  try {
+    message = JSON.parse(payload);
+  } catch (err) {
+    console.error('[realtime] Ignoring malformed notification:', err);
+    return;
+  }
+  if (message.type === 'presence') {
+    applyPresence(message);
+  } else if (message.type === 'change') {
+    deliverChange(message).catch((err) => console.error('[realtime] Failed to deliver change:', err));
+  }
+}
+
+// Holds one pooled connection for LISTEN, reconnecting if it drops. Clients
+// are told to reload after a reconnect since notifications sent while the
+// connection was down are lost.
+async function listen({ reconnected = false } = {}) {
+  let client;
+  let closed = false;
+  const retry = (err) => {
+    if (closed) return;
+    closed = true;
+    console.error('[realtime] Lost notification connection, retrying:', err?.message || err);
+    if (client) client.release(true);
+    setTimeout(() => listen({ reconnected: true }), LISTEN_RETRY_MS);
+  };
+  try {
+    client = await pool.connect();
+    client.on('notification', (msg) => handleNotification(msg.payload));
+    client.on('error', retry);
+    client.on('end', () => retry(new Error('connection ended')));
+    await client.query(`listen ${CHANNEL}`);
+    if (reconnected) {
+      for (const entity of Object.keys(LOADERS)) {
+        broadcast('change', { entity, action: 'reload', ids: [], actor: null });
+      }
+    }
+  } catch (err) {
+    retry(err);
+  }
+}
+
+// Keeps proxies from closing idle streams, expires stale presence and closes
+// streams whose user has been suspended or whose session has ended. Streams
+// outlive the access token they were opened with, which is short-lived.
+async function heartbeat() {
+  const now = Date.now();
+  let expired = false;
+  for (const [key, entry] of presence) {
+    if (entry.expiresAt <= now) {
+      presence.delete(key);
+      expired = true;
+    }
+  }
+  if (expired) {
+    broadcast('presence', presenceList());
+  }
+
+  // One lookup per user, however many tabs they have open
+  const users = new Map();
+  for (const [id, stream] of streams) {
+    if (!users.has(stream.user.sub)) {
+      users.set(stream.user.sub, findUserById(stream.user.sub).catch(() => null));
+    }
+    const [user, session] = await Promise.all([
+      users.get(stream.user.sub),
+      getActiveSession(stream.user.sid).catch(() => null)
+    ]);
+    const active = Boolean(user && user.status === 'approved' && session);
+    // The stream may have closed while the user was loaded
+    if (!streams.has(id)) continue;
+    if (active) {
+      stream.res.write(': ping\n\n');
+    } else {
+      streams.delete(id);
+      stream.res.end();
+    }
+  }
+}
+
+function startRealtime() {
+  listen();
+  setInterval(() => {
+    heartbeat().catch((err) => console.error('[realtime] Heartbeat failed:', err));
+  }, HEARTBEAT_MS).unref();
+}
+
+// Express handler for GET /api/events; use after authMiddleware. Each browser
+// tab passes its own id as ?tab= so presence can be tracked per tab.
+function openEventStream(req, res) {
+  const { tab } = req.query;
+  const tabId = typeof tab === 'string' && TAB_ID_PATTERN.test(tab) ? tab : crypto.randomUUID();
+  const id = crypto.randomUUID();
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${LISTEN_RETRY_MS}\n\n`);
+  streams.set(id, { res, user: req.user, tabId });
+  send(res, 'ready', { tabId, presence: presenceList() });
+
+  req.on('close', () => {
+    streams.delete(id);
+    const otherStream = [...streams.values()].some((s) => s.user.sub === req.user.sub && s.tabId === tabId);
+    if (!otherStream) {
+      setPresence(req.user, tabId).catch((err) => console.error('[realtime] Failed to clear presence:', err));
+    }
+  });
+}
+
+module.exports = {
+  TAB_ID_PATTERN,
+  startRealtime,
+  openEventStream,
+  publishChange,
+  setPresence
+};
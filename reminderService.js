@@ -1,78 +1,139 @@
+const os = require('os');
+const crypto = require('crypto');
 const cron = require('node-cron');
-const nodemailer = require('nodemailer');
-const { getDueReminders, markReminderSent } = require('./db');
+const {
+  claimDueReminders,
+  releaseReminderClaim,
+  markReminderSent,
+  getEmailTemplateById,
+  getDefaultEmailTemplate,
+  getCustomerById,
+  getContactsByCustomerId,
+  findUserById,
+  toUserDomain
+} = require('./db');
+const { DEFAULT_TEMPLATES, buildTemplateContext, renderTemplate } = require('./emailTemplates');
+const { sendEmail, processEmailRetries } = require('./mailer');
+const { publishChange } = require('./realtime');
 
-function createTransport() {
-  const { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE } = process.env;
-  if (!SMTP_HOST) {
-    console.warn(
-      '[reminderService] SMTP configuration missing. Reminders will be logged to console only.'
-    );
-    return null;
+// Picks the template (explicit id, else the default for the kind, else the
+// built-in one), loads the customer, contact and owner the placeholders refer
+// to and renders it against the quote.
+async function renderQuoteEmail(quote, { kind = 'reminder', templateId = null, template = null } = {}) {
+  let resolved = template;
+  if (!resolved && templateId) {
+    resolved = await getEmailTemplateById(templateId);
   }
-  return nodemailer.createTransport({
-    host: SMTP_HOST,
-    port: Number(SMTP_PORT || 587),
-    secure: SMTP_SECURE === 'true',
-    auth: SMTP_USER
-      ? {
-          user: SMTP_USER,
-          pass: SMTP_PASS
-        }
-      : undefined
-  });
+  if (!resolved) {
+    resolved = (await getDefaultEmailTemplate(kind)) || DEFAULT_TEMPLATES[kind];
+  }
+
+  const customer = quote.customerId ? await getCustomerById(quote.customerId) : null;
+  const contacts = quote.customerId ? await getContactsByCustomerId(quote.customerId) : [];
+  // The contact being chased, if the reminder address belongs to one
+  const reminderEmail = (quote.reminderEmail || '').toLowerCase();
+  const contact =
+    contacts.find((c) => c.email && c.email.toLowerCase() === reminderEmail) || contacts[0] || null;
+
+  let owner = null;
+  if (quote.ownerName !== undefined) {
+    owner = { username: quote.ownerName, email: quote.ownerEmail };
+  } else if (quote.createdBy) {
+    const user = await findUserById(quote.createdBy);
+    owner = user ? toUserDomain(user) : null;
+  }
+
+  const rendered = renderTemplate(resolved, buildTemplateContext({ quote, customer, contact, owner }));
+  return { ...rendered, templateId: resolved.id || null, templateName: resolved.name };
 }
 
-function sendReminderEmail(quote, transporter) {
+async function sendReminderEmail(quote) {
   if (!quote.reminderEmail) return;
 
-  const subject = `Quote follow-up: ${quote.title} for ${quote.clientName}`;
-  const text = `This is a reminder to chase the quote "${quote.title}" for client "${quote.clientName}".\n\nCurrent stage: ${quote.stage}\nValue: ${
-    quote.value != null ? quote.value : 'N/A'
-  }\n\nLast chased: ${
-    quote.lastChasedAt ? new Date(quote.lastChasedAt).toLocaleString() : 'Never'
-  }`;
+  const email = await renderQuoteEmail(quote, { kind: 'reminder', templateId: quote.reminderTemplateId });
+  await sendEmail({ ...email, quoteId: quote.id, kind: 'reminder', to: quote.reminderEmail });
+}
 
-  if (!transporter) {
-    console.log(
-      `[reminderService] Reminder for ${quote.reminderEmail}: ${subject}\n${text}`
+// Sent alongside the regular reminder once a quote has gone unanswered for
+// its cadence's escalate_after chases.
+async function sendEscalationEmail(quote) {
+  if (!quote.managerEmail) {
+    console.warn(
+      `[reminderService] Quote ${quote.id} is due for escalation but its owner has no manager with an email address.`
     );
-    return Promise.resolve();
+    return;
   }
 
-  return transporter.sendMail({
-    from: process.env.SMTP_FROM || quote.reminderEmail,
-    to: quote.reminderEmail,
-    subject,
-    text
-  });
+  const email = await renderQuoteEmail(quote, { kind: 'escalation' });
+  await sendEmail({ ...email, quoteId: quote.id, kind: 'escalation', to: quote.managerEmail });
+}
+
+// Identifies this process in reminder claims (quotes.chase_claimed_by)
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+// A chase counts as made once its email is logged: failed deliveries are
+// retried from the email log rather than by re-chasing the quote. The chase
+// is recorded before escalating, so an escalation that fails cannot put a
+// reminder that already went out back in the queue.
+async function dispatchDueReminders(now = new Date()) {
+  const dueQuotes = await claimDueReminders(WORKER_ID, { now });
+  for (const quote of dueQuotes) {
+    // Once per run of unanswered chases; a stage change starts a new run
+    const escalate =
+      quote.escalateAfter != null && quote.chaseCount >= quote.escalateAfter && !quote.chaseEscalatedAt;
+    try {
+      await sendReminderEmail(quote);
+    } catch (err) {
+      console.error('[reminderService] Error sending reminder', err);
+      await releaseReminderClaim(quote.id, WORKER_ID).catch(() => {});
+      continue;
+    }
+    try {
+      if (!(await markReminderSent(quote.id, WORKER_ID, new Date(), { escalated: escalate }))) {
+        console.warn(`[reminderService] Lost the claim on quote ${quote.id} while sending its reminder`);
+        continue;
+      }
+      await publishChange('quote', quote.id);
+      if (escalate) {
+        await sendEscalationEmail(quote);
+      }
+    } catch (err) {
+      console.error('[reminderService] Error recording reminder', err);
+    }
+  }
 }
 
+// Safe to run in any number of processes at once: quotes and email retries
+// are claimed in Postgres, so each reminder is sent by exactly one of them.
 function startReminderScheduler() {
-  const transporter = createTransport();
+  let running = false;
 
   // Run every minute
   cron.schedule('* * * * *', async () => {
+    // A slow run (e.g. an unreachable SMTP server) must not overlap the next one
+    if (running) return;
+    running = true;
     const now = new Date();
     try {
-      const dueQuotes = await getDueReminders(now);
-      for (const quote of dueQuotes) {
-        try {
-          await sendReminderEmail(quote, transporter);
-          await markReminderSent(quote.id, new Date());
-        } catch (err) {
-          console.error('[reminderService] Error sending reminder', err);
-        }
-      }
+      await dispatchDueReminders(now);
     } catch (err) {
       console.error('[reminderService] Error checking reminders', err);
     }
+
+    try {
+      await processEmailRetries(now);
+    } catch (err) {
+      console.error('[reminderService] Error retrying emails', err);
+    } finally {
+      running = false;
+    }
   });
 
-  console.log('[reminderService] Reminder scheduler started (runs every minute).');
+  console.log(`[reminderService] Reminder scheduler started as ${WORKER_ID} (runs every minute).`);
 }
 
 module.exports = {
-  startReminderScheduler
+  startReminderScheduler,
+  renderQuoteEmail
 };
 
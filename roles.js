@@ -0,0 +1,37 @@
+// Role-based access control.
+//
+// Each user has exactly one role, stored in users.role and embedded in the
+// JWT. Routes ask for a permission rather than a role so that the mapping can
+// change in one place.
+
+const ROLES = ['admin', 'sales_manager', 'sales_rep', 'viewer'];
+
+const DEFAULT_ROLE = 'sales_rep';
+
+const ROLE_PERMISSIONS = {
+  // Full access, including user management
+  admin: ['read', 'write', 'manage_team', 'manage_users'],
+  // Can work the pipeline and act on behalf of other sales staff
+  sales_manager: ['read', 'write', 'manage_team'],
+  // Day-to-day pipeline work
+  sales_rep: ['read', 'write'],
+  // Read-only access to quotes, customers and tasks
+  viewer: ['read']
+};
+
+function isValidRole(role) {
+  return ROLES.includes(role);
+}
+
+function hasPermission(role, permission) {
+  const permissions = ROLE_PERMISSIONS[role] || [];
+  return permissions.includes(permission);
+}
+
+module.exports = {
+  ROLES,
+  DEFAULT_ROLE,
+  ROLE_PERMISSIONS,
+  isValidRole,
+  hasPermission
+};
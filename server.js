@@ -2,8 +2,12 @@ const express = require('express');
 const cors = require('cors');
 const multer = require('multer');
 const path = require('path');
+const fs = require('fs');
+const { pipeline } = require('stream');
 const bcrypt = require('bcrypt');
 const jwt = require('jsonwebtoken');
+const crypto = require('crypto');
+const os = require('os');
 const helmet = require('helmet');
 const rateLimit = require('express-rate-limit');
 const { body, validationResult } = require('express-validator');
@@ -13,29 +17,121 @@ const {
   insertQuote,
   updateQuote,
   updateQuotePositions,
+  getQuoteStageHistory,
   getQuoteById,
+  getQuotesByIds,
+  getQuoteAttachments,
+  getQuoteAttachmentById,
+  createQuoteAttachment,
+  deleteQuoteAttachment,
+  findUploadOwner,
+  setArchived,
+  getArchivedItems,
+  deleteQuote,
+  deleteCustomer,
+  deleteTask,
+  deleteActivity,
+  nextQuotePdfVersion,
+  getLineItemsByQuoteId,
+  createLineItem,
+  updateLineItem,
+  deleteLineItem,
+  calculateQuoteTotals,
+  getWinLossByPeriod,
+  getCycleTime,
+  getPipelineByStage,
+  getWeightedForecast,
+  getPipelineBreakdown,
+  getChaseCadences,
+  upsertChaseCadence,
+  deleteChaseCadence,
+  getEmailLogByQuoteId,
+  getEmailTemplates,
+  getEmailTemplateById,
+  createEmailTemplate,
+  updateEmailTemplate,
+  deleteEmailTemplate,
   createUser,
   findUserByEmail,
-  ensureAdminUser,
+  findUserById,
+  getAllUsers,
+  getUsersByStatus,
+  setUserStatus,
+  setUserRole,
+  setUserManager,
+  toUserDomain,
+  hasAdminUser,
+  createSetupToken,
+  findValidSetupToken,
+  markSetupTokenUsed,
+  createSession,
+  getActiveSession,
+  rotateSession,
+  revokeSessionByPreviousToken,
+  touchSession,
+  revokeSession,
+  revokeUserSessions,
+  getUserSessions,
+  pruneSessions,
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  findUsersByLogin,
+  setUserPassword,
   getAllCustomers,
   getCustomerById,
+  findCustomerByName,
   findOrCreateCustomer,
+  mergeCustomers,
+  importRows,
   updateCustomer,
   getQuotesByCustomerId,
   getContactsByCustomerId,
+  getContactById,
   createContact,
   updateContact,
   deleteContact,
   getActivitiesByCustomerId,
+  getActivitiesByIds,
   createActivity,
   pool,
   getTasksByCustomerId,
   getAllTasks,
+  getTasksByIds,
   getTasksByUserId,
   createTask,
-  updateTask
+  updateTask,
+  searchAuditLog
 } = require('./db');
-const { startReminderScheduler } = require('./reminderService');
+const { startReminderScheduler, renderQuoteEmail } = require('./reminderService');
+const { TEMPLATE_KINDS, PLACEHOLDERS } = require('./emailTemplates');
+const { DEFAULT_THRESHOLD, findDuplicateCustomers } = require('./customerMatching');
+const {
+  MAX_IMPORT_ROWS,
+  IMPORT_FIELDS,
+  parseCsv,
+  suggestMapping,
+  validateMapping,
+  buildImportRows,
+  buildErrorReport
+} = require('./csvImport');
+const { EXPORT_DATASETS, EXPORT_FORMATS, exportDataset } = require('./exportService');
+const { ROLES, isValidRole, hasPermission } = require('./roles');
+const { renderQuotePdf } = require('./pdfService');
+const { OPEN_STAGES } = require('./stages');
+const { TAB_ID_PATTERN, startRealtime, openEventStream, publishChange, setPresence } = require('./realtime');
+const { AUDIT_ENTITY_TYPES, diffRecords, recordAudit } = require('./auditLog');
+const {
+  QUOTE_ATTACHMENT_TYPES,
+  ACTIVITY_ATTACHMENT_TYPES,
+  largestAllowedSize,
+  identifyFile,
+  describeTypes,
+  formatMegabytes,
+  createThumbnail
+} = require('./fileTypes');
+const { storage, quarantine, storageKey } = require('./storage');
+const { scanFile } = require('./virusScanner');
+const { sendEmail } = require('./mailer');
 
 const app = express();
 const PORT = process.env.PORT || 4000;
@@ -50,6 +146,9 @@ if (process.env.NODE_ENV === 'production' || process.env.RAILWAY_ENVIRONMENT) {
     console.error('[SECURITY] ERROR: DATABASE_URL is required in production!');
     process.exit(1);
   }
+  if (!process.env.FRONTEND_URL) {
+    console.error('[SECURITY] ERROR: FRONTEND_URL is not set; password reset emails are disabled until it is');
+  }
 }
 
 // Security headers
@@ -102,24 +201,29 @@ const apiLimiter = rateLimit({
 // Apply rate limiting to API routes
 app.use('/api', apiLimiter);
 
-// Static serving for uploaded quote files
-const uploadsDir = path.join(__dirname, 'uploads');
-const upload = multer({ 
-  dest: uploadsDir,
+// Uploaded files are received into a temporary directory, checked (see
+// acceptUpload) and then copied into storage (see storage.js). They are not
+// served statically; see GET /api/files/:filename. Which file types are
+// allowed is checked from the file's content, so multer only caps the size
+// at the largest per-type limit.
+const upload = multer({
+  dest: path.join(os.tmpdir(), 'quoteportal-uploads'),
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    // Allow only PDF files
-    const allowedMimes = ['application/pdf'];
-    if (allowedMimes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only PDF files are allowed'), false);
-    }
+    fileSize: largestAllowedSize(QUOTE_ATTACHMENT_TYPES, ACTIVITY_ATTACHMENT_TYPES)
   }
 });
-app.use('/uploads', express.static(uploadsDir));
+
+// upload.single('file'), answering with JSON when multer refuses the upload
+function receiveUpload(req, res, next) {
+  upload.single('file')(req, res, (err) => {
+    if (!err) return next();
+    if (err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ message: 'The file is too large' });
+    }
+    console.error('[upload] Error receiving file:', err);
+    res.status(400).json({ message: 'Unable to read the uploaded file' });
+  });
+}
 
 // Simple health check (before DB init, so it works even if DB fails)
 app.get('/api/health', (_req, res) => {
@@ -127,15 +231,75 @@ app.get('/api/health', (_req, res) => {
 });
 
 // Auth helpers
-function generateToken(user) {
+//
+// Signing in starts a session (see the sessions table in db.js) and returns
+// a short-lived access token naming it, plus a refresh token. The client
+// trades the refresh token for a new pair at POST /api/auth/refresh before
+// the access token runs out; each refresh token works once. Sessions end on
+// logout, when revoked by an admin, or after SESSION_TTL_DAYS without a refresh.
+const ACCESS_TOKEN_TTL_MINUTES = Number(process.env.ACCESS_TOKEN_TTL_MINUTES || 15);
+const SESSION_TTL_DAYS = Number(process.env.SESSION_TTL_DAYS || 30);
+
+function generateToken(user, sessionId) {
   return jwt.sign(
-    { sub: user.id, email: user.email },
+    { sub: user.id, email: user.email, role: user.role, sid: sessionId },
     JWT_SECRET,
-    { expiresIn: '7d' }
+    { expiresIn: `${ACCESS_TOKEN_TTL_MINUTES}m` }
   );
 }
 
-function authMiddleware(req, res, next) {
+const sessionExpiry = () => new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Starts a session for a user who has just signed in; returns the tokens to
+// send back
+async function startSession(req, user) {
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  const session = await createSession({
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: (req.get('user-agent') || '').slice(0, 500) || null,
+    ipAddress: req.ip || null,
+    expiresAt: sessionExpiry()
+  });
+  pruneSessions().catch((err) => console.error('[auth] Error removing old sessions:', err));
+  return { token: generateToken(user, session.id), refreshToken };
+}
+
+// A short description of the browser and system a session was started
+// from, e.g. "Chrome on Windows"
+function describeDevice(userAgent) {
+  if (!userAgent) return 'Unknown device';
+  const browsers = [
+    ['Edge', /Edg\//],
+    ['Opera', /OPR\//],
+    ['Chrome', /Chrome\//],
+    ['Firefox', /Firefox\//],
+    ['Safari', /Safari\//]
+  ];
+  const systems = [
+    ['iOS', /iPhone|iPad/],
+    ['Android', /Android/],
+    ['Windows', /Windows/],
+    ['macOS', /Mac OS X/],
+    ['Linux', /Linux/]
+  ];
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const system = systems.find(([, pattern]) => pattern.test(userAgent));
+  if (!browser && !system) return userAgent.slice(0, 60);
+  return [browser?.[0] || 'Browser', system && `on ${system[0]}`].filter(Boolean).join(' ');
+}
+
+const toSessionSummary = (session) => ({
+  id: session.id,
+  device: describeDevice(session.userAgent),
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  expiresAt: session.expiresAt
+});
+
+async function authMiddleware(req, res, next) {
   const header = req.headers.authorization;
   if (!header || !header.startsWith('Bearer ')) {
     return res.status(401).json({ message: 'Unauthorized' });
@@ -147,16 +311,50 @@ function authMiddleware(req, res, next) {
     return res.status(401).json({ message: 'Invalid token format' });
   }
   
+  let payload;
   try {
-    const payload = jwt.verify(token, JWT_SECRET);
-    req.user = payload;
-    next();
+    payload = jwt.verify(token, JWT_SECRET);
   } catch (err) {
     if (err.name === 'TokenExpiredError') {
       return res.status(401).json({ message: 'Token expired' });
     }
     return res.status(401).json({ message: 'Invalid token' });
   }
+
+  // Tokens from before sessions existed carry no session to check
+  if (!payload.sid) {
+    return res.status(401).json({ message: 'Session expired' });
+  }
+
+  // Re-check the account and session on every request so that rejecting or
+  // suspending a user, or ending the session, takes effect immediately rather
+  // than when their token expires.
+  try {
+    const [user, session] = await Promise.all([findUserById(payload.sub), getActiveSession(payload.sid)]);
+    if (!user || user.status !== 'approved') {
+      return res.status(401).json({ message: 'Account is not active' });
+    }
+    if (!session || session.userId !== user.id) {
+      return res.status(401).json({ message: 'Session has ended' });
+    }
+    touchSession(session.id).catch((err) => console.error('[auth] Error updating session:', err));
+    // Trust the stored role over the one in the token so role changes apply immediately
+    req.user = { ...payload, email: user.email, role: user.role };
+    next();
+  } catch (err) {
+    console.error('[auth] Error loading user:', err);
+    res.status(500).json({ message: 'Error verifying session' });
+  }
+}
+
+// Must be used after authMiddleware. Permissions are defined per role in roles.js.
+function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!hasPermission(req.user?.role, permission)) {
+      return res.status(403).json({ message: 'You do not have permission to perform this action' });
+    }
+    next();
+  };
 }
 
 // Password validation helper
@@ -176,15 +374,66 @@ function validatePassword(password) {
   return { valid: true };
 }
 
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// First-run bootstrap. Creates the initial admin from ADMIN_USERNAME /
+// ADMIN_PASSWORD when set, otherwise prints a one-time setup token that can be
+// redeemed through POST /api/auth/setup. Does nothing once an admin exists, so
+// existing admin credentials are never touched.
+const SETUP_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function bootstrapAdminUser() {
+  try {
+    if (await hasAdminUser()) {
+      return;
+    }
+
+    const { ADMIN_USERNAME, ADMIN_PASSWORD, ADMIN_EMAIL } = process.env;
+    if (ADMIN_USERNAME && ADMIN_PASSWORD) {
+      const passwordValidation = validatePassword(ADMIN_PASSWORD);
+      if (!passwordValidation.valid) {
+        console.error(`[setup] ADMIN_PASSWORD rejected: ${passwordValidation.message}`);
+      } else if (await findUserByEmail(ADMIN_USERNAME)) {
+        console.error(`[setup] ADMIN_USERNAME "${ADMIN_USERNAME}" is already taken by a non-admin account`);
+      } else {
+        const passwordHash = await bcrypt.hash(ADMIN_PASSWORD, 12);
+        await createUser({
+          email: ADMIN_USERNAME,
+          passwordHash,
+          contactEmail: ADMIN_EMAIL || null,
+          status: 'approved',
+          role: 'admin'
+        });
+        console.log(`[setup] Initial admin user "${ADMIN_USERNAME.toLowerCase()}" created from environment`);
+        return;
+      }
+    }
+
+    const setupToken = crypto.randomBytes(24).toString('hex');
+    await createSetupToken(hashToken(setupToken), new Date(Date.now() + SETUP_TOKEN_TTL_MS));
+    console.log('[setup] No admin account exists yet.');
+    console.log(`[setup] One-time setup token (valid for 24 hours): ${setupToken}`);
+    console.log('[setup] Open the app and choose "First-time setup" to create the admin account.');
+  } catch (err) {
+    console.error('[setup] Error bootstrapping admin user:', err);
+    // Don't throw - allow server to start even if bootstrap fails
+  }
+}
+
 // Input sanitization helper
 function sanitizeInput(input) {
   if (typeof input !== 'string') return input;
   return input.trim().replace(/[<>]/g, '');
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Register
 app.post('/api/auth/register', authLimiter, [
   body('username').trim().isLength({ min: 3, max: 50 }).matches(/^[a-zA-Z0-9_]+$/).withMessage('Username must be 3-50 characters and contain only letters, numbers, and underscores'),
+  body('email').trim().isEmail().withMessage('A valid email address is required'),
   body('password').isLength({ min: 8 }).withMessage('Password must be at least 8 characters'),
 ], async (req, res) => {
   const errors = validationResult(req);
@@ -192,7 +441,7 @@ app.post('/api/auth/register', authLimiter, [
     return res.status(400).json({ message: errors.array()[0].msg });
   }
 
-  const { username, password } = req.body || {};
+  const { username, email: contactEmail, password } = req.body || {};
   const sanitizedUsername = sanitizeInput(username);
   
   // Additional password strength validation
@@ -210,9 +459,18 @@ app.post('/api/auth/register', authLimiter, [
     }
     // Increase bcrypt rounds for better security
     const passwordHash = await bcrypt.hash(password, 12);
-    const user = await createUser({ email, passwordHash });
-    const token = generateToken(user);
-    res.status(201).json({ token, user: { id: user.id, email: user.email } });
+    // New accounts start out pending; no token is issued until an admin approves them
+    const user = await createUser({ email, passwordHash, contactEmail, status: 'pending' });
+    await recordAudit({ sub: user.id, email: user.email }, {
+      entityType: 'user',
+      entityId: user.id,
+      action: 'create',
+      after: toUserDomain(user)
+    });
+    res.status(201).json({
+      message: 'Registration successful! Your account is pending admin approval. You will be able to login once an administrator approves your account.',
+      user: toUserDomain(user)
+    });
   } catch (err) {
     console.error('[register] Error:', err);
     const message = err.code === '23505' 
@@ -252,8 +510,20 @@ app.post('/api/auth/login', authLimiter, [
       // Use same error message to prevent user enumeration
       return res.status(401).json({ message: 'Invalid credentials' });
     }
-    const token = generateToken(user);
-    res.json({ token, user: { id: user.id, email: user.email } });
+    // Only reveal the account status once the password has been verified
+    if (user.status !== 'approved') {
+      const messages = {
+        pending: 'Your account is pending admin approval.',
+        rejected: 'Your registration was rejected.',
+        suspended: 'Your account has been suspended.'
+      };
+      const reason = user.status_reason ? ` Reason: ${user.status_reason}` : '';
+      return res.status(403).json({
+        message: `${messages[user.status] || 'Your account is not active.'}${reason}`,
+        status: user.status
+      });
+    }
+    res.json({ ...(await startSession(req, user)), user: toUserDomain(user) });
   } catch (err) {
     console.error('[login] Error:', err);
     const errorMsg = err?.message || err?.toString() || 'Unknown error';
@@ -281,181 +551,1737 @@ app.post('/api/auth/login', authLimiter, [
       });
     }
   }
-});
+});
+
+// First-run setup status (public, so the login screen can offer setup)
+app.get('/api/auth/setup', async (_req, res) => {
+  try {
+    res.json({ needsSetup: !(await hasAdminUser()) });
+  } catch (err) {
+    console.error('[setup] Error:', err);
+    res.status(500).json({ message: 'Error checking setup status' });
+  }
+});
+
+// Redeem a one-time setup token to create the first admin account
+app.post('/api/auth/setup', authLimiter, [
+  body('setupToken').trim().notEmpty().withMessage('Setup token is required'),
+  body('username').trim().isLength({ min: 3, max: 50 }).matches(/^[a-zA-Z0-9_]+$/).withMessage('Username must be 3-50 characters and contain only letters, numbers, and underscores'),
+  body('email').trim().isEmail().withMessage('A valid email address is required'),
+  body('password').notEmpty().withMessage('Password is required'),
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ message: errors.array()[0].msg });
+  }
+
+  const { setupToken, username, email: contactEmail, password } = req.body || {};
+  const passwordValidation = validatePassword(password);
+  if (!passwordValidation.valid) {
+    return res.status(400).json({ message: passwordValidation.message });
+  }
+
+  try {
+    if (await hasAdminUser()) {
+      return res.status(409).json({ message: 'Setup has already been completed' });
+    }
+    const tokenRow = await findValidSetupToken(hashToken(setupToken));
+    if (!tokenRow) {
+      return res.status(401).json({ message: 'Invalid or expired setup token' });
+    }
+    const email = sanitizeInput(username).toLowerCase();
+    if (await findUserByEmail(email)) {
+      return res.status(409).json({ message: 'Username already in use' });
+    }
+    const passwordHash = await bcrypt.hash(password, 12);
+    const user = await createUser({ email, passwordHash, contactEmail, status: 'approved', role: 'admin' });
+    await markSetupTokenUsed(tokenRow.id);
+    await recordAudit({ sub: user.id, email: user.email }, {
+      entityType: 'user',
+      entityId: user.id,
+      action: 'create',
+      after: toUserDomain(user)
+    });
+    console.log(`[setup] Initial admin user "${email}" created via setup token`);
+    res.status(201).json({ ...(await startSession(req, user)), user: toUserDomain(user) });
+  } catch (err) {
+    console.error('[setup] Error:', err);
+    res.status(500).json({ message: 'Error completing setup' });
+  }
+});
+
+// Trades a refresh token for a new access token and refresh token. Using a
+// refresh token that has already been traded ends its session, since only a
+// copy of it could still be in use.
+app.post('/api/auth/refresh', async (req, res) => {
+  const { refreshToken } = req.body || {};
+  if (typeof refreshToken !== 'string' || !refreshToken) {
+    return res.status(400).json({ message: 'refreshToken is required' });
+  }
+  try {
+    const nextRefreshToken = crypto.randomBytes(32).toString('base64url');
+    const session = await rotateSession(hashToken(refreshToken), hashToken(nextRefreshToken), sessionExpiry());
+    if (!session) {
+      const reused = await revokeSessionByPreviousToken(hashToken(refreshToken));
+      if (reused) {
+        console.warn(`[auth] Refresh token reused; ended session ${reused.id} of user ${reused.userId}`);
+      }
+      return res.status(401).json({ message: 'Session has ended' });
+    }
+    const user = await findUserById(session.userId);
+    if (!user || user.status !== 'approved') {
+      await revokeSession({ id: session.id });
+      return res.status(401).json({ message: 'Account is not active' });
+    }
+    res.json({ token: generateToken(user, session.id), refreshToken: nextRefreshToken });
+  } catch (err) {
+    console.error('[refresh] Error:', err);
+    res.status(500).json({ message: 'Error refreshing session' });
+  }
+});
+
+// Ends the session of the refresh token in the body, or of the access token
+// sent, which may already have expired
+app.post('/api/auth/logout', async (req, res) => {
+  const { refreshToken } = req.body || {};
+  const header = req.headers.authorization || '';
+  let sessionId = null;
+  if (header.startsWith('Bearer ')) {
+    try {
+      sessionId = jwt.verify(header.slice('Bearer '.length), JWT_SECRET, { ignoreExpiration: true }).sid || null;
+    } catch (err) {
+      // Fall back to the refresh token
+    }
+  }
+  if (!sessionId && typeof refreshToken !== 'string') {
+    return res.status(400).json({ message: 'A session token is required' });
+  }
+  try {
+    await revokeSession({
+      id: sessionId,
+      refreshTokenHash: typeof refreshToken === 'string' ? hashToken(refreshToken) : null
+    });
+    res.status(204).end();
+  } catch (err) {
+    console.error('[logout] Error:', err);
+    res.status(500).json({ message: 'Error signing out' });
+  }
+});
+
+// Password reset and change
+//
+// A forgotten password is reset through a single-use link emailed to the
+// account's address, valid for PASSWORD_RESET_TTL_MINUTES. Resetting or
+// changing a password ends the account's other sessions.
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60);
+
+// Where the app is opened, for links in emails, or null when it is not
+// configured. Never taken from the request: a forged Host header would send
+// the reset token to another site.
+function appUrl() {
+  if (process.env.FRONTEND_URL) return process.env.FRONTEND_URL.replace(/\/+$/, '');
+  if (process.env.NODE_ENV === 'production' || process.env.RAILWAY_ENVIRONMENT) return null;
+  return 'http://localhost:5173';
+}
+
+async function sendPasswordResetEmail(baseUrl, user) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await createPasswordResetToken(
+    user.id,
+    hashToken(token),
+    new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000)
+  );
+  // In the fragment, so the token is not sent to the server or in referrers
+  const link = `${baseUrl}/#reset-password=${token}`;
+  await sendEmail({
+    kind: 'password_reset',
+    to: user.contact_email,
+    subject: 'Reset your Quote Pipeline password',
+    text:
+      `Someone asked to reset the password for the account "${user.email}". To choose a new password, open:\n\n` +
+      `${link}\n\n` +
+      `The link works once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. ` +
+      'If you did not ask for this, you can ignore this email; your password has not changed.'
+  });
+}
+
+// Lets the account holder know, in case it was not them
+function sendPasswordChangedEmail(user) {
+  if (!user.contact_email) return;
+  sendEmail({
+    kind: 'password_changed',
+    to: user.contact_email,
+    subject: 'Your Quote Pipeline password was changed',
+    text:
+      `The password for the account "${user.email}" was changed on ${new Date().toUTCString()}, ` +
+      'and it has been signed out on other devices. If you did not do this, contact an administrator straight away.'
+  }).catch((err) => console.error('[password] Error sending confirmation email:', err));
+}
+
+// Takes { username }, which may also be the account's email address. Always
+// answers the same way, so it cannot be used to find out which accounts exist.
+app.post('/api/auth/forgot-password', authLimiter, [
+  body('username').trim().notEmpty().withMessage('Username or email address is required'),
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ message: errors.array()[0].msg });
+  }
+  const baseUrl = appUrl();
+  if (!baseUrl) {
+    console.error('[forgot-password] FRONTEND_URL is not set; refusing to send a password reset link');
+    return res.status(503).json({ message: 'Password reset is not available. Please contact an administrator.' });
+  }
+  try {
+    const users = await findUsersByLogin(sanitizeInput(req.body.username));
+    for (const user of users) {
+      if (user.status !== 'approved' || !user.contact_email) continue;
+      sendPasswordResetEmail(baseUrl, user).catch((err) => console.error('[password] Error sending reset email:', err));
+    }
+    res.json({
+      message: 'If an account matches, a link to reset its password has been sent to its email address.'
+    });
+  } catch (err) {
+    console.error('[forgot-password] Error:', err);
+    res.status(500).json({ message: 'Error requesting password reset' });
+  }
+});
+
+// Takes { token, password } from a reset link
+app.post('/api/auth/reset-password', authLimiter, [
+  body('token').trim().notEmpty().withMessage('Reset token is required'),
+  body('password').notEmpty().withMessage('Password is required'),
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ message: errors.array()[0].msg });
+  }
+  const { token, password } = req.body;
+  const passwordValidation = validatePassword(password);
+  if (!passwordValidation.valid) {
+    return res.status(400).json({ message: passwordValidation.message });
+  }
+  try {
+    const userId = await consumePasswordResetToken(hashToken(token));
+    if (!userId) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired. Please request a new one.' });
+    }
+    const user = await setUserPassword(userId, await bcrypt.hash(password, 12));
+    await revokeUserSessions(userId);
+    await recordAudit({ sub: user.id, email: user.email }, {
+      entityType: 'user',
+      entityId: user.id,
+      action: 'password_reset',
+      changes: {}
+    });
+    sendPasswordChangedEmail(user);
+    res.json({ message: 'Your password has been reset. You can now sign in with the new password.' });
+  } catch (err) {
+    console.error('[reset-password] Error:', err);
+    res.status(500).json({ message: 'Error resetting password' });
+  }
+});
+
+// Takes { currentPassword, newPassword }. The session making the request
+// stays signed in.
+app.post('/api/auth/change-password', authLimiter, authMiddleware, [
+  body('currentPassword').notEmpty().withMessage('Current password is required'),
+  body('newPassword').notEmpty().withMessage('New password is required'),
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ message: errors.array()[0].msg });
+  }
+  const { currentPassword, newPassword } = req.body;
+  const passwordValidation = validatePassword(newPassword);
+  if (!passwordValidation.valid) {
+    return res.status(400).json({ message: passwordValidation.message });
+  }
+  try {
+    const existing = await findUserById(req.user.sub);
+    // 400 rather than 401, which would mean the session has ended
+    if (!(await bcrypt.compare(currentPassword, existing.password_hash))) {
+      return res.status(400).json({ message: 'Current password is incorrect' });
+    }
+    if (await bcrypt.compare(newPassword, existing.password_hash)) {
+      return res.status(400).json({ message: 'The new password must be different from the current one' });
+    }
+    const user = await setUserPassword(existing.id, await bcrypt.hash(newPassword, 12));
+    await revokeUserSessions(user.id, { exceptSessionId: req.user.sid });
+    await recordAudit(req.user, { entityType: 'user', entityId: user.id, action: 'password_change', changes: {} });
+    sendPasswordChangedEmail(user);
+    res.json({ message: 'Your password has been changed. Other devices have been signed out.' });
+  } catch (err) {
+    console.error('[change-password] Error:', err);
+    res.status(500).json({ message: 'Error changing password' });
+  }
+});
+
+// Admin: user management
+app.get('/api/admin/users', authMiddleware, requirePermission('manage_users'), async (_req, res) => {
+  try {
+    const users = await getAllUsers();
+    res.json(users);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading users' });
+  }
+});
+
+app.get('/api/admin/users/pending', authMiddleware, requirePermission('manage_users'), async (_req, res) => {
+  try {
+    const users = await getUsersByStatus('pending');
+    res.json(users);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading pending users' });
+  }
+});
+
+// Approve, reject or suspend an account, recording who did it and why
+const userStatusActions = {
+  approve: { status: 'approved', message: 'User approved' },
+  reject: { status: 'rejected', message: 'User rejected', requiresReason: true },
+  suspend: { status: 'suspended', message: 'User suspended', requiresReason: true }
+};
+
+app.post('/api/admin/users/:id/:action(approve|reject|suspend)', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { id, action } = req.params;
+  const { status, message, requiresReason } = userStatusActions[action];
+  const reason = sanitizeInput(req.body?.reason) || null;
+  if (requiresReason && !reason) {
+    return res.status(400).json({ message: 'A reason is required' });
+  }
+  if (id === req.user.sub && status !== 'approved') {
+    return res.status(400).json({ message: 'You cannot change the status of your own account' });
+  }
+  try {
+    const before = await findUserById(id);
+    const user = await setUserStatus(id, status, { reason, changedBy: req.user.sub });
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    await recordAudit(req.user, { entityType: 'user', entityId: id, action, before: toUserDomain(before), after: user });
+    res.json({ message, user });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error updating user status' });
+  }
+});
+
+app.put('/api/admin/users/:id/role', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { id } = req.params;
+  const { role } = req.body || {};
+  if (!isValidRole(role)) {
+    return res.status(400).json({ message: `Role must be one of: ${ROLES.join(', ')}` });
+  }
+  if (id === req.user.sub && role !== req.user.role) {
+    return res.status(400).json({ message: 'You cannot change your own role' });
+  }
+  try {
+    const before = await findUserById(id);
+    const user = await setUserRole(id, role);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    await recordAudit(req.user, { entityType: 'user', entityId: id, action: 'update', before: toUserDomain(before), after: user });
+    res.json({ message: 'Role updated', user });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error updating role' });
+  }
+});
+
+// Set (or clear, with managerId null) the line manager that chases on this
+// user's quotes escalate to
+app.put('/api/admin/users/:id/manager', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { id } = req.params;
+  const managerId = req.body?.managerId || null;
+  if (managerId === id) {
+    return res.status(400).json({ message: 'A user cannot be their own manager' });
+  }
+  try {
+    if (managerId && !(await findUserById(managerId))) {
+      return res.status(400).json({ message: 'Manager not found' });
+    }
+    const before = await findUserById(id);
+    const user = await setUserManager(id, managerId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    await recordAudit(req.user, { entityType: 'user', entityId: id, action: 'update', before: toUserDomain(before), after: user });
+    res.json({ message: 'Manager updated', user });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error updating manager' });
+  }
+});
+
+// A user's active sessions, most recently used first
+app.get('/api/admin/users/:id/sessions', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    if (!UUID_PATTERN.test(id) || !(await findUserById(id))) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    const sessions = await getUserSessions(id);
+    res.json(sessions.map((session) => ({ ...toSessionSummary(session), current: session.id === req.user.sid })));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading sessions' });
+  }
+});
+
+app.delete('/api/admin/users/:id/sessions/:sessionId', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { id, sessionId } = req.params;
+  if (!UUID_PATTERN.test(id) || !UUID_PATTERN.test(sessionId)) {
+    return res.status(404).json({ message: 'Session not found' });
+  }
+  try {
+    const session = await revokeSession({ id: sessionId, userId: id });
+    if (!session) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    await recordAudit(req.user, {
+      entityType: 'user',
+      entityId: id,
+      action: 'sign_out',
+      changes: { session: { from: describeDevice(session.userAgent), to: null } }
+    });
+    res.status(204).end();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error ending session' });
+  }
+});
+
+// Sign out everywhere: ends all of a user's sessions. Their access tokens
+// stop working straight away and their live update streams close.
+app.post('/api/admin/users/:id/sign-out', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    if (!UUID_PATTERN.test(id) || !(await findUserById(id))) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    const count = await revokeUserSessions(id);
+    if (count > 0) {
+      await recordAudit(req.user, {
+        entityType: 'user',
+        entityId: id,
+        action: 'sign_out',
+        changes: { sessions: { from: count, to: 0 } }
+      });
+    }
+    res.json({ message: `Ended ${count} session${count === 1 ? '' : 's'}`, count });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error signing user out' });
+  }
+});
+
+// Audit log search, newest first (see auditLog.js). Filters by the acting
+// user (?userId=), the record (?entityType=&entityId=) and ?from=&to= ISO
+// dates, `to` being inclusive of that day. Paged with ?limit=&offset=.
+const AUDIT_MAX_PAGE_SIZE = 200;
+
+app.get('/api/admin/audit-log', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const query = Object.fromEntries(
+    ['userId', 'entityType', 'entityId', 'from', 'to', 'limit', 'offset'].map((key) => [
+      key,
+      typeof req.query[key] === 'string' && req.query[key].trim() ? req.query[key].trim() : null
+    ])
+  );
+  if (query.userId && !UUID_PATTERN.test(query.userId)) {
+    return res.status(400).json({ message: 'userId must be a user ID' });
+  }
+  if (query.entityType && !AUDIT_ENTITY_TYPES.includes(query.entityType)) {
+    return res.status(400).json({ message: `entityType must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}` });
+  }
+  const from = query.from ? new Date(query.from) : null;
+  const to = query.to ? new Date(query.to) : null;
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    return res.status(400).json({ message: 'Invalid date range' });
+  }
+  if (to) {
+    to.setDate(to.getDate() + 1);
+  }
+  const limit = Math.min(Math.max(Number.parseInt(query.limit, 10) || 50, 1), AUDIT_MAX_PAGE_SIZE);
+  const offset = Math.max(Number.parseInt(query.offset, 10) || 0, 0);
+  try {
+    res.json(await searchAuditLog({
+      actorId: query.userId,
+      entityType: query.entityType,
+      entityId: query.entityId,
+      from,
+      to,
+      limit,
+      offset
+    }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading audit log' });
+  }
+});
+
+// Chase settings are whole days / chase counts. Returns { error } for invalid
+// values; null or '' clears the setting.
+const CHASE_FIELDS = ['chaseIntervalDays', 'chaseEscalateAfter'];
+
+function validateChaseSettings(body) {
+  for (const field of CHASE_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null || value === '') {
+      body[field] = null;
+      continue;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+      return { error: `${field} must be a whole number of at least 1` };
+    }
+    body[field] = number;
+  }
+  return {};
+}
+
+// Quote model helper
+function createQuote(payload) {
+  const now = new Date().toISOString();
+  return {
+    id: payload.id || `q_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    title: payload.title ?? 'Untitled quote',
+    clientName: payload.clientName ?? 'Unknown client',
+    customerId: payload.customerId ?? null,
+    createdBy: payload.createdBy ?? null,
+    value: payload.value ?? null,
+    stage: payload.stage ?? 'new',
+    soNumber: payload.soNumber ?? null,
+    lastChasedAt: payload.lastChasedAt ?? null,
+    nextChaseAt: payload.nextChaseAt ?? null,
+    reminderEmail: payload.reminderEmail ?? null,
+    chaseIntervalDays: payload.chaseIntervalDays ?? null,
+    chaseEscalateAfter: payload.chaseEscalateAfter ?? null,
+    emailTemplateId: payload.emailTemplateId ?? null,
+    attachmentUrl: payload.attachmentUrl ?? null,
+    status: payload.status ?? null,
+    notes: payload.notes ?? null,
+    createdAt: payload.createdAt || now,
+    updatedAt: payload.updatedAt || now
+  };
+}
+
+// findOrCreateCustomer, recording the customer in the audit log when it is
+// created or brought back from the archive
+async function findOrCreateCustomerAudited(name, actor) {
+  const existing = await findCustomerByName(name);
+  const customer = await findOrCreateCustomer(name);
+  if (!existing) {
+    await recordAudit(actor, { entityType: 'customer', entityId: customer.id, action: 'create', after: customer });
+  } else if (existing.archivedAt) {
+    await recordAudit(actor, { entityType: 'customer', entityId: customer.id, action: 'restore', before: existing, after: customer });
+  }
+  return customer;
+}
+
+// Live updates: a server-sent event stream of quote, task and activity
+// changes and of who is viewing or editing each quote. See realtime.js.
+app.get('/api/events', authMiddleware, requirePermission('read'), openEventStream);
+
+app.put('/api/presence', authMiddleware, requirePermission('read'), async (req, res) => {
+  const { tabId, quoteId = null, editing = false } = req.body || {};
+  if (typeof tabId !== 'string' || !TAB_ID_PATTERN.test(tabId)) {
+    return res.status(400).json({ message: 'tabId is required' });
+  }
+  if (quoteId !== null && typeof quoteId !== 'string') {
+    return res.status(400).json({ message: 'quoteId must be a quote ID or null' });
+  }
+  try {
+    await setPresence(req.user, tabId, { quoteId, editing: editing === true });
+    res.status(204).end();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error updating presence' });
+  }
+});
+
+// Get all quotes (requires auth)
+app.get('/api/quotes', authMiddleware, requirePermission('read'), async (_req, res) => {
+  try {
+    const quotes = await getAllQuotes();
+    res.json(quotes);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading quotes' });
+  }
+});
+
+// Create new quote
+app.post('/api/quotes', authMiddleware, requirePermission('write'), async (req, res) => {
+  try {
+    const body = req.body || {};
+    const { error } = validateChaseSettings(body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (body.emailTemplateId && !(await getEmailTemplateById(body.emailTemplateId))) {
+      return res.status(400).json({ message: 'Email template not found' });
+    }
+    let customerId = body.customerId;
+    
+    // Get user ID from JWT token (req.user.sub is the user ID)
+    const userId = req.user?.sub || null;
+    
+    // If customer name is provided but no customerId, find or create customer
+    if (body.customerName && !customerId) {
+      const customer = await findOrCreateCustomerAudited(body.customerName, req.user);
+      customerId = customer.id;
+    }
+    
+    const quote = createQuote({ ...body, customerId, createdBy: userId });
+    await insertQuote(quote);
+    
+    // Fetch the full quote with customer info
+    const fullQuote = await getQuoteById(quote.id);
+    await recordAudit(req.user, { entityType: 'quote', entityId: quote.id, action: 'create', after: fullQuote || quote });
+    await publishChange('quote', quote.id, { actor: req.user });
+    res.status(201).json(fullQuote || quote);
+  } catch (err) {
+    console.error('[create quote] Error:', err);
+    console.error('[create quote] Error details:', {
+      message: err?.message,
+      code: err?.code,
+      detail: err?.detail,
+      constraint: err?.constraint,
+      stack: err?.stack
+    });
+    const errorMessage = err?.message || 'Error creating quote';
+    res.status(500).json({ 
+      message: 'Error creating quote',
+      error: errorMessage,
+      details: err?.detail || err?.code
+    });
+  }
+});
+
+// Edits may carry the `version` of the record they were made against. If the
+// record has changed since, the edit is refused with 409 and the current
+// record so the client can show the competing values.
+function parseExpectedVersion(version) {
+  if (version === undefined || version === null) {
+    return { expectedVersion: null };
+  }
+  if (!Number.isInteger(version) || version < 1) {
+    return { error: 'version must be a positive integer' };
+  }
+  return { expectedVersion: version };
+}
+
+function sendVersionConflict(res, err, label) {
+  res.status(409).json({
+    message: `This ${label} was changed by someone else. Review their changes and save again.`,
+    current: err.current
+  });
+}
+
+// Update quote
+app.put('/api/quotes/:id', authMiddleware, requirePermission('write'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const { version, ...patch } = req.body || {};
+    const { error } = validateChaseSettings(patch);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    const { expectedVersion, error: versionError } = parseExpectedVersion(version);
+    if (versionError) {
+      return res.status(400).json({ message: versionError });
+    }
+    if (patch.emailTemplateId && !(await getEmailTemplateById(patch.emailTemplateId))) {
+      return res.status(400).json({ message: 'Email template not found' });
+    }
+    // The value of an itemised quote is derived from its line items
+    const items = await getLineItemsByQuoteId(id);
+    if (items.length > 0) {
+      delete patch.value;
+    }
+    const before = await getQuoteById(id);
+    const updated = await updateQuote(id, patch, { changedBy: req.user.sub, expectedVersion });
+    if (!updated) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    await recordAudit(req.user, { entityType: 'quote', entityId: id, action: 'update', before, after: updated });
+    await publishChange('quote', id, { actor: req.user });
+    res.json(updated);
+  } catch (err) {
+    if (err.code === 'VERSION_CONFLICT') {
+      return sendVersionConflict(res, err, 'quote');
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Error updating quote' });
+  }
+});
+
+// Update stage only (for drag and drop)
+app.patch('/api/quotes/:id/stage', authMiddleware, requirePermission('write'), async (req, res) => {
+  const { id } = req.params;
+  const { stage } = req.body;
+  if (!stage) {
+    return res.status(400).json({ message: 'Stage is required' });
+  }
+  try {
+    const before = await getQuoteById(id);
+    const updated = await updateQuote(id, { stage }, { changedBy: req.user.sub });
+    if (!updated) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    await recordAudit(req.user, { entityType: 'quote', entityId: id, action: 'update', before, after: updated });
+    await publishChange('quote', id, { actor: req.user });
+    res.json(updated);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error updating stage' });
+  }
+});
+
+// Update multiple quote positions (for reordering within/between columns)
+app.patch('/api/quotes/positions', authMiddleware, requirePermission('write'), async (req, res) => {
+  const { updates } = req.body;
+  if (!Array.isArray(updates) || updates.length === 0) {
+    return res.status(400).json({ message: 'Updates array is required' });
+  }
+  try {
+    const ids = updates.map((u) => u.id);
+    const before = await getQuotesByIds(ids);
+    await updateQuotePositions(updates, { changedBy: req.user.sub });
+    const after = await getQuotesByIds(ids);
+    await recordAudit(req.user, after.map((quote) => ({
+      entityType: 'quote',
+      entityId: quote.id,
+      action: 'update',
+      before: before.find((b) => b.id === quote.id) || null,
+      after: quote
+    })));
+    await publishChange('quote', ids, { actor: req.user });
+    // Fetch updated quotes
+    const allQuotes = await getAllQuotes();
+    res.json(allQuotes);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error updating positions' });
+  }
+});
+
+// Stage change history with time spent in each stage
+app.get('/api/quotes/:id/history', authMiddleware, requirePermission('read'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const quote = await getQuoteById(id);
+    if (!quote) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    const history = await getQuoteStageHistory(id);
+    res.json(history);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading quote history' });
+  }
+});
+
+// Chase cadences: default chase schedule per open stage. Quotes can
+// override the interval and escalation threshold individually.
+app.get('/api/chase-cadences', authMiddleware, requirePermission('read'), async (_req, res) => {
+  try {
+    res.json(await getChaseCadences());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading chase cadences' });
+  }
+});
+
+app.put('/api/chase-cadences/:stage', authMiddleware, requirePermission('manage_team'), async (req, res) => {
+  const { stage } = req.params;
+  if (!OPEN_STAGES.includes(stage)) {
+    return res.status(400).json({ message: `Stage must be one of: ${OPEN_STAGES.join(', ')}` });
+  }
+  const body = { ...(req.body || {}) };
+  if (body.intervalDays == null || body.intervalDays === '') {
+    return res.status(400).json({ message: 'intervalDays is required' });
+  }
+  const { error } = validateChaseSettings({
+    chaseIntervalDays: body.intervalDays,
+    chaseEscalateAfter: body.escalateAfter
+  });
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    if (body.emailTemplateId && !(await getEmailTemplateById(body.emailTemplateId))) {
+      return res.status(400).json({ message: 'Email template not found' });
+    }
+    const before = (await getChaseCadences()).find((c) => c.stage === stage) || null;
+    const cadence = await upsertChaseCadence(stage, {
+      intervalDays: Number(body.intervalDays),
+      escalateAfter: body.escalateAfter ? Number(body.escalateAfter) : null,
+      enabled: body.enabled !== false,
+      emailTemplateId: body.emailTemplateId || null
+    });
+    await recordAudit(req.user, {
+      entityType: 'chase_cadence',
+      entityId: stage,
+      action: before ? 'update' : 'create',
+      before,
+      after: cadence
+    });
+    res.json(cadence);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error saving chase cadence' });
+  }
+});
+
+app.delete('/api/chase-cadences/:stage', authMiddleware, requirePermission('manage_team'), async (req, res) => {
+  try {
+    const before = (await getChaseCadences()).find((c) => c.stage === req.params.stage) || null;
+    const deleted = await deleteChaseCadence(req.params.stage);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Chase cadence not found' });
+    }
+    await recordAudit(req.user, { entityType: 'chase_cadence', entityId: req.params.stage, action: 'delete', before });
+    res.json({ message: 'Chase cadence deleted' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error deleting chase cadence' });
+  }
+});
+
+// Email templates (see emailTemplates.js). Anyone can list them so that a
+// template can be picked for a quote; only admins can edit them.
+function parseEmailTemplateInput(input) {
+  const template = {
+    name: sanitizeInput(input.name),
+    kind: input.kind || 'reminder',
+    subject: typeof input.subject === 'string' ? input.subject.trim() : '',
+    bodyText: typeof input.bodyText === 'string' ? input.bodyText : '',
+    bodyHtml: typeof input.bodyHtml === 'string' && input.bodyHtml.trim() ? input.bodyHtml : null,
+    // undefined when left out (see saveEmailTemplate)
+    isDefault: typeof input.isDefault === 'boolean' ? input.isDefault : undefined
+  };
+  if (!template.name) {
+    return { error: 'Name is required' };
+  }
+  if (!TEMPLATE_KINDS.includes(template.kind)) {
+    return { error: `Kind must be one of: ${TEMPLATE_KINDS.join(', ')}` };
+  }
+  if (!template.subject) {
+    return { error: 'Subject is required' };
+  }
+  if (!template.bodyText.trim()) {
+    return { error: 'A plain-text body is required' };
+  }
+  return { template };
+}
+
+app.get('/api/email-templates', authMiddleware, requirePermission('read'), async (_req, res) => {
+  try {
+    res.json(await getEmailTemplates());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading email templates' });
+  }
+});
+
+app.get('/api/email-templates/placeholders', authMiddleware, requirePermission('read'), (_req, res) => {
+  res.json(PLACEHOLDERS);
+});
+
+// Render a stored template (templateId) or an unsaved draft (template)
+// against a real quote
+app.post('/api/email-templates/preview', authMiddleware, requirePermission('read'), async (req, res) => {
+  const { quoteId, templateId, template, kind = 'reminder' } = req.body || {};
+  if (!quoteId) {
+    return res.status(400).json({ message: 'quoteId is required' });
+  }
+  try {
+    const quote = await getQuoteById(quoteId);
+    if (!quote) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    let draft = null;
+    if (template) {
+      const parsed = parseEmailTemplateInput({ name: 'Preview', kind, ...template });
+      if (parsed.error) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      draft = parsed.template;
+    } else if (templateId && !(await getEmailTemplateById(templateId))) {
+      return res.status(404).json({ message: 'Email template not found' });
+    }
+    const email = await renderQuoteEmail(quote, { kind, templateId, template: draft });
+    res.json({ ...email, to: quote.reminderEmail });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error rendering preview' });
+  }
+});
+
+app.post('/api/email-templates', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { template, error } = parseEmailTemplateInput(req.body || {});
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    const created = await createEmailTemplate(template);
+    await recordAudit(req.user, { entityType: 'email_template', entityId: created.id, action: 'create', after: created });
+    res.status(201).json(created);
+  } catch (err) {
+    if (err.code === '23505') {
+      return res.status(400).json({ message: 'A template with this name already exists' });
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Error creating email template' });
+  }
+});
+
+app.put('/api/email-templates/:id', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  const { template, error } = parseEmailTemplateInput(req.body || {});
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    const before = await getEmailTemplateById(req.params.id);
+    const updated = await updateEmailTemplate(req.params.id, template);
+    if (!updated) {
+      return res.status(404).json({ message: 'Email template not found' });
+    }
+    await recordAudit(req.user, { entityType: 'email_template', entityId: updated.id, action: 'update', before, after: updated });
+    res.json(updated);
+  } catch (err) {
+    if (err.code === '23505') {
+      return res.status(400).json({ message: 'A template with this name already exists' });
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Error updating email template' });
+  }
+});
+
+// Quotes and stages using a deleted template fall back to the default
+app.delete('/api/email-templates/:id', authMiddleware, requirePermission('manage_users'), async (req, res) => {
+  try {
+    const existing = await getEmailTemplateById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Email template not found' });
+    }
+    if (existing.isDefault) {
+      return res.status(400).json({ message: 'Make another template the default before deleting this one' });
+    }
+    await deleteEmailTemplate(req.params.id);
+    await recordAudit(req.user, { entityType: 'email_template', entityId: existing.id, action: 'delete', before: existing });
+    res.json({ message: 'Email template deleted' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error deleting email template' });
+  }
+});
+
+// Reminder and escalation emails sent for a quote, newest first
+app.get('/api/quotes/:id/emails', authMiddleware, requirePermission('read'), async (req, res) => {
+  try {
+    const quote = await getQuoteById(req.params.id);
+    if (!quote) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    res.json(await getEmailLogByQuoteId(req.params.id));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading email log' });
+  }
+});
+
+// Quote line items
+const LINE_ITEM_NUMBER_FIELDS = ['quantity', 'unitPrice', 'discountPercent', 'taxRate'];
+
+// Returns { item } with the accepted fields, or { error } describing the first problem.
+// With partial = true only the fields present in the body are validated.
+function parseLineItemInput(input, { partial = false } = {}) {
+  const item = {};
+  if (input.description !== undefined || !partial) {
+    const description = sanitizeInput(input.description);
+    if (!description) {
+      return { error: 'Description is required' };
+    }
+    item.description = description;
+  }
+  for (const field of LINE_ITEM_NUMBER_FIELDS) {
+    if (input[field] === undefined || input[field] === null || input[field] === '') continue;
+    const number = Number(input[field]);
+    if (!Number.isFinite(number) || number < 0) {
+      return { error: `${field} must be a non-negative number` };
+    }
+    if ((field === 'discountPercent' || field === 'taxRate') && number > 100) {
+      return { error: `${field} cannot exceed 100` };
+    }
+    item[field] = number;
+  }
+  if (input.position !== undefined) {
+    item.position = Number(input.position) || 0;
+  }
+  return { item };
+}
+
+async function sendLineItemsState(res, quoteId, status = 200) {
+  const [items, quote] = await Promise.all([
+    getLineItemsByQuoteId(quoteId),
+    getQuoteById(quoteId)
+  ]);
+  res.status(status).json({ items, totals: calculateQuoteTotals(items), quote });
+}
+
+app.get('/api/quotes/:id/items', authMiddleware, requirePermission('read'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const quote = await getQuoteById(id);
+    if (!quote) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    await sendLineItemsState(res, id);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading line items' });
+  }
+});
+
+app.post('/api/quotes/:id/items', authMiddleware, requirePermission('write'), async (req, res) => {
+  const { id } = req.params;
+  const { item, error } = parseLineItemInput(req.body || {});
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    const quote = await getQuoteById(id);
+    if (!quote) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    const created = await createLineItem(id, item);
+    await recordAudit(req.user, { entityType: 'line_item', entityId: created.id, action: 'create', after: created });
+    await publishChange('quote', id, { actor: req.user });
+    await sendLineItemsState(res, id, 201);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error creating line item' });
+  }
+});
+
+app.put('/api/quotes/:id/items/:itemId', authMiddleware, requirePermission('write'), async (req, res) => {
+  const { id, itemId } = req.params;
+  const { item, error } = parseLineItemInput(req.body || {}, { partial: true });
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    const before = (await getLineItemsByQuoteId(id)).find((existing) => existing.id === itemId) || null;
+    const updated = await updateLineItem(id, itemId, item);
+    if (!updated) {
+      return res.status(404).json({ message: 'Line item not found' });
+    }
+    await recordAudit(req.user, { entityType: 'line_item', entityId: itemId, action: 'update', before, after: updated });
+    await publishChange('quote', id, { actor: req.user });
+    await sendLineItemsState(res, id);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error updating line item' });
+  }
+});
+
+app.delete('/api/quotes/:id/items/:itemId', authMiddleware, requirePermission('write'), async (req, res) => {
+  const { id, itemId } = req.params;
+  try {
+    const before = (await getLineItemsByQuoteId(id)).find((existing) => existing.id === itemId) || null;
+    const deleted = await deleteLineItem(id, itemId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Line item not found' });
+    }
+    await recordAudit(req.user, { entityType: 'line_item', entityId: itemId, action: 'delete', before });
+    await publishChange('quote', id, { actor: req.user });
+    await sendLineItemsState(res, id);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error deleting line item' });
+  }
+});
+
+// Quote attachments. Every upload is kept; uploading with `supersedesId`
+// adds the file as the next version of an earlier one, e.g. "Rev B" of a
+// drawing. The most recent upload is also the quote's attachmentUrl.
+
+// Removes multer's temporary copy of an upload
+function discardUpload(file) {
+  try {
+    if (file) fs.unlinkSync(file.path);
+  } catch (err) {
+    if (err.code !== 'ENOENT') {
+      console.error('[upload] Error deleting file:', err);
+    }
+  }
+}
+
+// Checks a received file against an allow-list (see fileTypes.js) by its
+// content and the size limit for its type. Responds and returns null when
+// the file is refused; otherwise returns the type and gives req.file that
+// type's mimetype and a filename with its extension, which is the key the
+// file is stored under.
+async function acceptUpload(req, res, allowedTypes) {
+  if (!req.file) {
+    res.status(400).json({ message: 'File is required' });
+    return null;
+  }
+  try {
+    const type = await identifyFile(req.file.path, req.file.originalname, allowedTypes);
+    if (!type) {
+      discardUpload(req.file);
+      res.status(400).json({ message: `This type of file is not allowed. Allowed: ${describeTypes(allowedTypes)}` });
+      return null;
+    }
+    if (req.file.size > type.maxBytes) {
+      discardUpload(req.file);
+      res.status(413).json({ message: `${type.label} files are limited to ${formatMegabytes(type.maxBytes)}` });
+      return null;
+    }
+    Object.assign(req.file, { filename: `${req.file.filename}${type.extensions[0]}`, mimetype: type.mimeType });
+    return type;
+  } catch (err) {
+    console.error('[upload] Error checking file:', err);
+    discardUpload(req.file);
+    res.status(500).json({ message: 'Error saving attachment' });
+    return null;
+  }
+}
+
+// Scans an accepted upload for viruses (see virusScanner.js) and returns the
+// result. Responds and returns null when the scan failed: with a scanner
+// configured, files it could not check are not stored.
+async function scanUpload(req, res) {
+  try {
+    return await scanFile(req.file.path);
+  } catch (err) {
+    console.error('[upload] Error scanning file:', err);
+    discardUpload(req.file);
+    res.status(503).json({ message: 'The file could not be checked for viruses. Please try again later.' });
+    return null;
+  }
+}
+
+const blockedUploadMessage = (scan) =>
+  `The file was blocked because it contains a virus (${scan.signature}) and has been quarantined`;
+
+// Emails the uploader of a blocked file at the address they registered
+// with; req.user.email is their username
+async function notifyBlockedUpload(actor, { originalname, attachedTo, signature }) {
+  const uploader = await findUserById(actor.sub);
+  if (!uploader?.contact_email) {
+    console.warn(`[upload] ${actor.email} has no email address; not notified of their blocked upload`);
+    return;
+  }
+  await sendEmail({
+    kind: 'virus_alert',
+    to: uploader.contact_email,
+    subject: `Your upload "${originalname}" was blocked`,
+    text:
+      `The file "${originalname}" you uploaded to ${attachedTo} on ${new Date().toUTCString()} ` +
+      `was found to contain ${signature}.\n\n` +
+      'It has been quarantined and was not attached; nobody can download it. If you believe this is a mistake, ' +
+      'please contact an administrator.'
+  });
+}
+
+// Moves an infected upload to the quarantine store and lets the uploader
+// know by email. Returns the /uploads/... URL that identifies the blocked
+// file in records, although nothing is served from it.
+async function quarantineUpload(req, scan, { attachedTo }) {
+  const { filename, originalname, mimetype } = req.file;
+  await quarantine.put(filename, req.file.path, { contentType: mimetype });
+  console.warn(
+    `[upload] Quarantined ${filename} ("${originalname}") uploaded by ${req.user.email} to ${attachedTo}: ${scan.signature}`
+  );
+  notifyBlockedUpload(req.user, { originalname, attachedTo, signature: scan.signature })
+    .catch((err) => console.error('[upload] Error notifying uploader of a blocked file:', err));
+  return `/uploads/${filename}`;
+}
+
+// Copies an accepted upload into storage and returns its /uploads/... URL
+async function storeUpload(file) {
+  await storage.put(file.filename, file.path, { contentType: file.mimetype });
+  return `/uploads/${file.filename}`;
+}
+
+// Stores a thumbnail of an uploaded image, or returns null when the image
+// cannot be read
+async function storeThumbnail(file) {
+  const key = `${path.parse(file.filename).name}-thumb.jpg`;
+  let thumbnail;
+  try {
+    thumbnail = await createThumbnail(file.path);
+  } catch (err) {
+    console.error('[upload] Error creating thumbnail:', err);
+    return null;
+  }
+  await storage.put(key, thumbnail, { contentType: 'image/jpeg' });
+  return `/uploads/${key}`;
+}
+
+async function saveQuoteAttachment(req, res, { respondWithQuote = false } = {}) {
+  const { id } = req.params;
+  const fileType = await acceptUpload(req, res, QUOTE_ATTACHMENT_TYPES);
+  if (!fileType) return;
+  const scan = await scanUpload(req, res);
+  if (!scan) return;
+  const label = sanitizeInput(req.body?.label) || null;
+  const supersedesId = req.body?.supersedesId || null;
+
+  // Files stored for this upload, removed again if it is not saved
+  let stored = [];
+  try {
+    if (supersedesId && !UUID_PATTERN.test(supersedesId)) {
+      return res.status(400).json({ message: 'supersedesId must be an attachment ID' });
+    }
+    const quote = await getQuoteById(id);
+    if (!quote) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    if (supersedesId) {
+      const previous = await getQuoteAttachmentById(id, supersedesId);
+      if (!previous) {
+        return res.status(400).json({ message: 'The attachment being replaced was not found' });
+      }
+      if (!previous.latest) {
+        return res.status(409).json({ message: 'A newer version of this file has already been uploaded' });
+      }
+    }
+    // Infected files are listed as blocked, outside any version chain
+    if (scan.status === 'infected') {
+      const attachment = await createQuoteAttachment(id, {
+        fileUrl: await quarantineUpload(req, scan, { attachedTo: `quote "${quote.title}"` }),
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        sizeBytes: req.file.size,
+        label,
+        uploadedBy: req.user.sub,
+        scanStatus: 'blocked',
+        scanSignature: scan.signature
+      });
+      await recordAudit(req.user, { entityType: 'attachment', entityId: attachment.id, action: 'block', after: attachment });
+      await publishChange('quote', id, { actor: req.user });
+      return res.status(422).json({ message: blockedUploadMessage(scan), attachment });
+    }
+    const fileUrl = await storeUpload(req.file);
+    stored.push(fileUrl);
+    const thumbnailUrl = fileType.image ? await storeThumbnail(req.file) : null;
+    if (thumbnailUrl) stored.push(thumbnailUrl);
+    const attachment = await createQuoteAttachment(id, {
+      fileUrl,
+      thumbnailUrl,
+      originalName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      sizeBytes: req.file.size,
+      label,
+      supersedesId,
+      uploadedBy: req.user.sub,
+      scanStatus: scan.status
+    });
+    if (!attachment) {
+      await removeUploads(stored);
+      return res.status(400).json({ message: 'The attachment being replaced was not found' });
+    }
+    stored = [];
+    const updated = await getQuoteById(id);
+    await recordAudit(req.user, [
+      { entityType: 'attachment', entityId: attachment.id, action: 'create', after: attachment },
+      { entityType: 'quote', entityId: id, action: 'update', before: quote, after: updated }
+    ]);
+    await publishChange('quote', id, { actor: req.user });
+    if (respondWithQuote) {
+      return res.json(updated);
+    }
+    res.status(201).json({ attachment, quote: updated });
+  } catch (err) {
+    await removeUploads(stored);
+    if (err.code === '23505') {
+      return res.status(409).json({ message: 'A newer version of this file has already been uploaded' });
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Error saving attachment' });
+  } finally {
+    discardUpload(req.file);
+  }
+}
+
+// Allowed file types and their size limits, for upload forms
+app.get('/api/attachment-types', authMiddleware, requirePermission('read'), (_req, res) => {
+  const describe = (types) =>
+    types.map(({ id, label, extensions, maxBytes, image }) => ({ id, label, extensions, maxBytes, image }));
+  res.json({ quote: describe(QUOTE_ATTACHMENT_TYPES), activity: describe(ACTIVITY_ATTACHMENT_TYPES) });
+});
+
+app.get('/api/quotes/:id/attachments', authMiddleware, requirePermission('read'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const quote = await getQuoteById(id);
+    if (!quote) {
+      return res.status(404).json({ message: 'Quote not found' });
+    }
+    res.json(await getQuoteAttachments(id));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading attachments' });
+  }
+});
+
+// Responds with { attachment, quote }
+app.post('/api/quotes/:id/attachments', authMiddleware, requirePermission('write'), receiveUpload, (req, res) =>
+  saveQuoteAttachment(req, res)
+);
+
+// Single-file upload kept for existing clients; responds with the quote
+app.post('/api/quotes/:id/attachment', authMiddleware, requirePermission('write'), receiveUpload, (req, res) =>
+  saveQuoteAttachment(req, res, { respondWithQuote: true })
+);
+
+// Deleting one version keeps the rest of its chain
+app.delete('/api/quotes/:id/attachments/:attachmentId', authMiddleware, requirePermission('write'), async (req, res) => {
+  const { id, attachmentId } = req.params;
+  if (!UUID_PATTERN.test(attachmentId)) {
+    return res.status(404).json({ message: 'Attachment not found' });
+  }
+  try {
+    const quote = await getQuoteById(id);
+    const deleted = quote ? await deleteQuoteAttachment(id, attachmentId) : null;
+    if (!deleted) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+    // Blocked files stay in quarantine for inspection
+    if (deleted.scanStatus !== 'blocked') {
+      await removeUploads([deleted.url, deleted.thumbnailUrl].filter(Boolean));
+    }
+    const updated = await getQuoteById(id);
+    await recordAudit(req.user, [
+      { entityType: 'attachment', entityId: attachmentId, action: 'delete', before: deleted },
+      { entityType: 'quote', entityId: id, action: 'update', before: quote, after: updated }
+    ]);
+    await publishChange('quote', id, { actor: req.user });
+    res.json({ quote: updated });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error deleting attachment' });
+  }
+});
+
+// File downloads
+//
+// Uploaded files are only served to signed-in users who can see the quote or
+// activity they belong to. Records refer to files by their /uploads/... URL.
+// Browsers do not send the Authorization header for iframes, images or plain
+// links, so the app asks for short-lived signed URLs instead: their token
+// names the user and the file, and is signed with a key of its own so it
+// cannot be used as a session token.
+const FILE_URL_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('file-urls').digest('hex');
+const SIGNED_FILE_URL_TTL_SECONDS = 5 * 60;
+const MAX_SIGNED_FILES = 100;
+
+// Types a browser can show itself; everything else is always downloaded
+const INLINE_MIME_TYPES = new Set(['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+function signFileUrl(user, filename, { inline = false } = {}) {
+  const token = jwt.sign(
+    { sub: user.sub, sid: user.sid, file: filename, inline },
+    FILE_URL_SECRET,
+    { expiresIn: SIGNED_FILE_URL_TTL_SECONDS }
+  );
+  return `/api/files/${encodeURIComponent(filename)}?token=${token}`;
+}
+
+// authMiddleware, or the token of a signed URL for the requested file
+async function fileAuthMiddleware(req, res, next) {
+  if (!req.query.token) {
+    return authMiddleware(req, res, next);
+  }
+  let grant;
+  try {
+    grant = jwt.verify(String(req.query.token), FILE_URL_SECRET);
+  } catch (err) {
+    if (err.name === 'TokenExpiredError') {
+      return res.status(401).json({ message: 'This link has expired' });
+    }
+    return res.status(401).json({ message: 'Invalid link' });
+  }
+  if (grant.file !== req.params.filename) {
+    return res.status(401).json({ message: 'Invalid link' });
+  }
+  try {
+    const [user, session] = await Promise.all([findUserById(grant.sub), getActiveSession(grant.sid)]);
+    if (!user || user.status !== 'approved') {
+      return res.status(401).json({ message: 'Account is not active' });
+    }
+    // Links stop working when the session that made them ends
+    if (!session || session.userId !== user.id) {
+      return res.status(401).json({ message: 'Session has ended' });
+    }
+    req.user = { sub: user.id, email: user.email, role: user.role, sid: session.id };
+    req.fileGrant = grant;
+    next();
+  } catch (err) {
+    console.error('[auth] Error loading user:', err);
+    res.status(500).json({ message: 'Error verifying session' });
+  }
+}
 
-// Quote model helper
-function createQuote(payload) {
-  const now = new Date().toISOString();
-  return {
-    id: payload.id || `q_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-    title: payload.title ?? 'Untitled quote',
-    clientName: payload.clientName ?? 'Unknown client',
-    customerId: payload.customerId ?? null,
-    createdBy: payload.createdBy ?? null,
-    value: payload.value ?? null,
-    stage: payload.stage ?? 'new',
-    soNumber: payload.soNumber ?? null,
-    lastChasedAt: payload.lastChasedAt ?? null,
-    nextChaseAt: payload.nextChaseAt ?? null,
-    reminderEmail: payload.reminderEmail ?? null,
-    attachmentUrl: payload.attachmentUrl ?? null,
-    status: payload.status ?? null,
-    notes: payload.notes ?? null,
-    createdAt: payload.createdAt || now,
-    updatedAt: payload.updatedAt || now
-  };
+// RFC 6266 header with an ASCII fallback for older clients
+function contentDisposition(type, filename) {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
 }
 
-// Get all quotes (requires auth)
-app.get('/api/quotes', authMiddleware, async (_req, res) => {
+// Signed URLs for files the user can see. Takes { urls, inline }, with the
+// files' /uploads/... URLs; returns { urls: { [url]: signedUrl }, expiresAt },
+// leaving out files that do not belong to any record.
+app.post('/api/files/sign', authMiddleware, requirePermission('read'), async (req, res) => {
+  const { urls, inline = false } = req.body || {};
+  if (!Array.isArray(urls) || urls.length === 0 || !urls.every((url) => typeof url === 'string')) {
+    return res.status(400).json({ message: 'urls must be a list of file URLs' });
+  }
+  if (urls.length > MAX_SIGNED_FILES) {
+    return res.status(400).json({ message: `At most ${MAX_SIGNED_FILES} files can be signed at once` });
+  }
   try {
-    const quotes = await getAllQuotes();
-    res.json(quotes);
+    const signed = {};
+    for (const url of new Set(urls)) {
+      const filename = path.basename(url);
+      if (url !== `/uploads/${filename}`) continue;
+      const owner = await findUploadOwner(url);
+      if (!owner || owner.blocked) continue;
+      signed[url] = signFileUrl(req.user, filename, { inline: inline === true });
+    }
+    res.json({
+      urls: signed,
+      expiresAt: new Date(Date.now() + SIGNED_FILE_URL_TTL_SECONDS * 1000).toISOString()
+    });
   } catch (err) {
     console.error(err);
-    res.status(500).json({ message: 'Error loading quotes' });
+    res.status(500).json({ message: 'Error signing file URLs' });
   }
 });
 
-// Create new quote
-app.post('/api/quotes', authMiddleware, async (req, res) => {
+// Downloads a file with its original name. Signed URLs made with `inline`,
+// and requests with ?disposition=inline, show PDFs and images in the browser.
+app.get('/api/files/:filename', fileAuthMiddleware, requirePermission('read'), async (req, res) => {
+  const { filename } = req.params;
+  if (filename !== path.basename(filename)) {
+    return res.status(404).json({ message: 'File not found' });
+  }
   try {
-    const body = req.body || {};
-    let customerId = body.customerId;
-    
-    // Get user ID from JWT token (req.user.sub is the user ID)
-    const userId = req.user?.sub || null;
-    
-    // If customer name is provided but no customerId, find or create customer
-    if (body.customerName && !customerId) {
-      const customer = await findOrCreateCustomer(body.customerName);
-      customerId = customer.id;
+    const owner = await findUploadOwner(`/uploads/${filename}`);
+    if (!owner) {
+      return res.status(404).json({ message: 'File not found' });
     }
-    
-    const quote = createQuote({ ...body, customerId, createdBy: userId });
-    await insertQuote(quote);
-    
-    // Fetch the full quote with customer info
-    const fullQuote = await getQuoteById(quote.id);
-    res.status(201).json(fullQuote || quote);
-  } catch (err) {
-    console.error('[create quote] Error:', err);
-    console.error('[create quote] Error details:', {
-      message: err?.message,
-      code: err?.code,
-      detail: err?.detail,
-      constraint: err?.constraint,
-      stack: err?.stack
+    if (owner.blocked) {
+      return res.status(403).json({ message: 'This file was blocked by the virus scan and cannot be downloaded' });
+    }
+    const file = await storage.get(filename);
+    if (!file) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+    const contentType = owner.mimeType || express.static.mime.lookup(filename);
+    const inline = (req.fileGrant ? req.fileGrant.inline : req.query.disposition === 'inline') &&
+      INLINE_MIME_TYPES.has(contentType);
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': contentDisposition(inline ? 'inline' : 'attachment', owner.originalName || filename),
+      'Cache-Control': 'private, max-age=300'
     });
-    const errorMessage = err?.message || 'Error creating quote';
-    res.status(500).json({ 
-      message: 'Error creating quote',
-      error: errorMessage,
-      details: err?.detail || err?.code
+    if (file.size != null) {
+      res.set('Content-Length', String(file.size));
+    }
+    pipeline(file.stream, res, (err) => {
+      if (err && err.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+        console.error('[files] Error sending file:', filename, err);
+      }
     });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error downloading file' });
   }
 });
 
-// Update quote
-app.put('/api/quotes/:id', authMiddleware, async (req, res) => {
+// Generate a branded PDF quote document from the quote, its customer and its
+// line items. Each generation is stored as a new version of the quote's
+// generated PDF attachment and becomes its current attachment.
+app.post('/api/quotes/:id/pdf', authMiddleware, requirePermission('write'), async (req, res) => {
   const { id } = req.params;
   try {
-    const updated = await updateQuote(id, req.body || {});
-    if (!updated) {
+    const quote = await getQuoteById(id);
+    if (!quote) {
       return res.status(404).json({ message: 'Quote not found' });
     }
-    res.json(updated);
+    const [customer, items] = await Promise.all([
+      quote.customerId ? getCustomerById(quote.customerId) : null,
+      getLineItemsByQuoteId(id)
+    ]);
+    const version = await nextQuotePdfVersion(id);
+    const pdf = await renderQuotePdf({
+      quote,
+      customer,
+      items,
+      totals: calculateQuoteTotals(items),
+      version
+    });
+
+    const safeId = id.replace(/[^a-zA-Z0-9_-]/g, '');
+    const filename = `quote-${safeId}-v${version}.pdf`;
+    await storage.put(filename, pdf, { contentType: 'application/pdf' });
+
+    // Each generated PDF is the next version of the previous one
+    const previous = (await getQuoteAttachments(id)).find((a) => a.source === 'generated' && a.latest);
+    const attachment = await createQuoteAttachment(id, {
+      fileUrl: `/uploads/${filename}`,
+      originalName: filename,
+      mimeType: 'application/pdf',
+      sizeBytes: pdf.length,
+      label: `Quote PDF v${version}`,
+      supersedesId: previous ? previous.id : null,
+      source: 'generated',
+      uploadedBy: req.user.sub
+    });
+    const updated = await getQuoteById(id);
+    await recordAudit(req.user, [
+      { entityType: 'attachment', entityId: attachment.id, action: 'create', after: attachment },
+      { entityType: 'quote', entityId: id, action: 'update', before: quote, after: updated }
+    ]);
+    await publishChange('quote', id, { actor: req.user });
+    res.status(201).json(updated);
+  } catch (err) {
+    console.error('[generate pdf] Error:', err);
+    res.status(500).json({ message: 'Error generating PDF' });
+  }
+});
+
+// Pipeline analytics
+const ANALYTICS_PERIODS = ['week', 'month', 'quarter', 'year'];
+const ANALYTICS_BREAKDOWNS = ['customer', 'industry', 'creator'];
+
+// Reads ?from=&to= (ISO dates). Defaults to the last 12 months; `to` is inclusive of that day.
+function parseDateRange(query) {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from ? new Date(query.from) : new Date(new Date(to).setFullYear(to.getFullYear() - 1));
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return null;
+  }
+  if (query.to) {
+    to.setDate(to.getDate() + 1);
+  }
+  return { from, to };
+}
+
+app.get('/api/analytics/win-rate', authMiddleware, requirePermission('read'), async (req, res) => {
+  const period = req.query.period || 'month';
+  if (!ANALYTICS_PERIODS.includes(period)) {
+    return res.status(400).json({ message: `Period must be one of: ${ANALYTICS_PERIODS.join(', ')}` });
+  }
+  const range = parseDateRange(req.query);
+  if (!range) {
+    return res.status(400).json({ message: 'Invalid date range' });
+  }
+  try {
+    res.json(await getWinLossByPeriod({ period, ...range }));
   } catch (err) {
     console.error(err);
-    res.status(500).json({ message: 'Error updating quote' });
+    res.status(500).json({ message: 'Error loading win rate' });
   }
 });
 
-// Update stage only (for drag and drop)
-app.patch('/api/quotes/:id/stage', authMiddleware, async (req, res) => {
-  const { id } = req.params;
-  const { stage } = req.body;
-  if (!stage) {
-    return res.status(400).json({ message: 'Stage is required' });
+app.get('/api/analytics/cycle-time', authMiddleware, requirePermission('read'), async (req, res) => {
+  const range = parseDateRange(req.query);
+  if (!range) {
+    return res.status(400).json({ message: 'Invalid date range' });
   }
   try {
-    const updated = await updateQuote(id, { stage });
-    if (!updated) {
-      return res.status(404).json({ message: 'Quote not found' });
-    }
-    res.json(updated);
+    res.json(await getCycleTime(range));
   } catch (err) {
     console.error(err);
-    res.status(500).json({ message: 'Error updating stage' });
+    res.status(500).json({ message: 'Error loading cycle time' });
   }
 });
 
-// Update multiple quote positions (for reordering within/between columns)
-app.patch('/api/quotes/positions', authMiddleware, async (req, res) => {
-  const { updates } = req.body;
-  if (!Array.isArray(updates) || updates.length === 0) {
-    return res.status(400).json({ message: 'Updates array is required' });
+app.get('/api/analytics/pipeline', authMiddleware, requirePermission('read'), async (_req, res) => {
+  try {
+    res.json(await getPipelineByStage());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading pipeline' });
   }
+});
+
+app.get('/api/analytics/forecast', authMiddleware, requirePermission('read'), async (_req, res) => {
   try {
-    await updateQuotePositions(updates);
-    // Fetch updated quotes
-    const allQuotes = await getAllQuotes();
-    res.json(allQuotes);
+    res.json(await getWeightedForecast());
   } catch (err) {
     console.error(err);
-    res.status(500).json({ message: 'Error updating positions' });
+    res.status(500).json({ message: 'Error loading forecast' });
   }
 });
 
-// Upload quote attachment (PDF etc.)
-app.post('/api/quotes/:id/attachment', authMiddleware, upload.single('file'), async (req, res) => {
-  const { id } = req.params;
-  if (!req.file) {
-    return res.status(400).json({ message: 'File is required' });
+app.get('/api/analytics/breakdown', authMiddleware, requirePermission('read'), async (req, res) => {
+  const by = req.query.by || 'customer';
+  if (!ANALYTICS_BREAKDOWNS.includes(by)) {
+    return res.status(400).json({ message: `Breakdown must be one of: ${ANALYTICS_BREAKDOWNS.join(', ')}` });
   }
-  
-  // Validate file type
-  if (req.file.mimetype !== 'application/pdf') {
-    // Delete the uploaded file if it's not a PDF
-    const fs = require('fs');
+  const range = parseDateRange(req.query);
+  if (!range) {
+    return res.status(400).json({ message: 'Invalid date range' });
+  }
+  try {
+    res.json(await getPipelineBreakdown({ by, ...range }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading breakdown' });
+  }
+});
+
+// Archive, restore and permanent delete
+//
+// Archiving hides a record from the normal views until it is restored from
+// the Archived view. Permanent deletion is admin-only and also removes the
+// record's files from storage.
+
+// Removes /uploads/... files from storage, ignoring ones that are already
+// gone. Failures are logged rather than thrown.
+async function removeUploads(urls) {
+  for (const url of urls) {
     try {
-      fs.unlinkSync(req.file.path);
+      await storage.remove(storageKey(url));
     } catch (err) {
-      console.error('[upload] Error deleting invalid file:', err);
+      console.error('[delete] Error removing upload:', url, err);
     }
-    return res.status(400).json({ message: 'Only PDF files are allowed' });
   }
-  
-  try {
-    const quote = await getQuoteById(id);
-    if (!quote) {
-      // Delete uploaded file if quote not found
-      const fs = require('fs');
-      try {
-        fs.unlinkSync(req.file.path);
-      } catch (err) {
-        console.error('[upload] Error deleting file:', err);
+}
+
+// Generated PDFs are kept per version (see POST /api/quotes/:id/pdf)
+async function quotePdfUploads(id) {
+  const prefix = `quote-${id.replace(/[^a-zA-Z0-9_-]/g, '')}-v`;
+  const keys = await storage.list(prefix).catch((err) => {
+    console.error('[delete] Error listing generated PDFs:', err);
+    return [];
+  });
+  return keys.filter((key) => key.endsWith('.pdf')).map((key) => `/uploads/${key}`);
+}
+
+// `load` fetches the record, archived or not, for the audit log
+const ARCHIVE_ROUTES = [
+  { entity: 'quote', basePath: '/api/quotes', label: 'Quote', load: getQuoteById, remove: deleteQuote },
+  { entity: 'customer', basePath: '/api/customers', label: 'Customer', load: getCustomerById, remove: deleteCustomer },
+  {
+    entity: 'task',
+    basePath: '/api/tasks',
+    label: 'Task',
+    load: async (id) => (await getTasksByIds([id]))[0] || null,
+    remove: deleteTask
+  },
+  {
+    entity: 'activity',
+    basePath: '/api/activities',
+    label: 'Activity',
+    load: async (id) => (await getActivitiesByIds([id]))[0] || null,
+    remove: deleteActivity
+  }
+];
+
+// Archiving or restoring a customer does the same to its quotes, tasks and
+// activities (see setArchived), so those lists are reloaded rather than patched.
+async function publishArchiveChange(entity, id, actor, { removed = false } = {}) {
+  if (entity === 'customer') {
+    for (const related of ['quote', 'task', 'activity']) {
+      await publishChange(related, [], { action: 'reload', actor });
+    }
+    return;
+  }
+  await publishChange(entity, id, { action: removed ? 'remove' : 'upsert', actor });
+}
+
+for (const { entity, basePath, label, load, remove } of ARCHIVE_ROUTES) {
+  app.post(`${basePath}/:id/:action(archive|restore)`, authMiddleware, requirePermission('write'), async (req, res) => {
+    const { id, action } = req.params;
+    try {
+      const before = await load(id);
+      const found = await setArchived(entity, id, {
+        archived: action === 'archive',
+        archivedBy: req.user.sub
+      });
+      if (!found) {
+        return res.status(404).json({ message: `${label} not found` });
       }
-      return res.status(404).json({ message: 'Quote not found' });
+      const changes = diffRecords(before, await load(id));
+      // Archiving something already archived changes nothing
+      if (Object.keys(changes).length > 0) {
+        await recordAudit(req.user, { entityType: entity, entityId: id, action, changes });
+      }
+      await publishArchiveChange(entity, id, req.user);
+      res.json({ message: `${label} ${action === 'archive' ? 'archived' : 'restored'}` });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: `Error updating ${label.toLowerCase()}` });
     }
-    const attachmentUrl = `/uploads/${req.file.filename}`;
-    const updated = await updateQuote(id, { attachmentUrl });
-    res.json(updated);
-  } catch (err) {
-    console.error(err);
-    // Delete uploaded file on error
-    const fs = require('fs');
+  });
+
+  app.delete(`${basePath}/:id`, authMiddleware, requirePermission('manage_users'), async (req, res) => {
+    const { id } = req.params;
     try {
-      if (req.file) fs.unlinkSync(req.file.path);
-    } catch (unlinkErr) {
-      console.error('[upload] Error deleting file on error:', unlinkErr);
+      const extraUploads = entity === 'quote' ? await quotePdfUploads(id) : [];
+      const before = await load(id);
+      const deleted = await remove(id);
+      if (!deleted) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      await recordAudit(req.user, { entityType: entity, entityId: id, action: 'delete', before });
+      await removeUploads([...new Set([...deleted.attachmentUrls, ...extraUploads])]);
+      await publishArchiveChange(entity, id, req.user, { removed: true });
+      res.json({ message: `${label} permanently deleted` });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: `Error deleting ${label.toLowerCase()}` });
     }
-    res.status(500).json({ message: 'Error saving attachment' });
+  });
+}
+
+app.get('/api/archive', authMiddleware, requirePermission('read'), async (_req, res) => {
+  try {
+    res.json(await getArchivedItems());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error loading archived items' });
+  }
+});
+
+// CSV/XLSX exports. ?search= applies the board's keyword filter to quotes.
+app.get('/api/export/:dataset', authMiddleware, requirePermission('read'), async (req, res) => {
+  const { dataset } = req.params;
+  const format = req.query.format || 'csv';
+  if (!EXPORT_DATASETS.includes(dataset)) {
+    return res.status(404).json({ message: 'Unknown export' });
+  }
+  if (!EXPORT_FORMATS[format]) {
+    return res.status(400).json({ message: `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+  }
+  try {
+    const file = await exportDataset(dataset, format, { search: req.query.search || '' });
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error exporting data' });
   }
 });
 
 // Get all customers
-app.get('/api/customers', authMiddleware, async (_req, res) => {
+app.get('/api/customers', authMiddleware, requirePermission('read'), async (_req, res) => {
   try {
     const customers = await getAllCustomers();
     res.json(customers);
@@ -465,8 +2291,195 @@ app.get('/api/customers', authMiddleware, async (_req, res) => {
   }
 });
 
+// Likely duplicate customers, scored 0-100 on name, email/website domain and phone
+app.get('/api/customers/duplicates', authMiddleware, requirePermission('read'), async (req, res) => {
+  const threshold = req.query.threshold != null ? Number(req.query.threshold) : DEFAULT_THRESHOLD;
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    return res.status(400).json({ message: 'threshold must be between 0 and 100' });
+  }
+  try {
+    const customers = await getAllCustomers();
+    res.json(findDuplicateCustomers(customers, { threshold }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error finding duplicate customers' });
+  }
+});
+
+// Merge duplicates into this customer
+app.post('/api/customers/:id/merge', authMiddleware, requirePermission('manage_team'), async (req, res) => {
+  const { id } = req.params;
+  const { duplicateIds } = req.body || {};
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(404).json({ message: 'Customer not found' });
+  }
+  if (
+    !Array.isArray(duplicateIds) ||
+    duplicateIds.length === 0 ||
+    duplicateIds.some((dupId) => typeof dupId !== 'string' || !UUID_PATTERN.test(dupId))
+  ) {
+    return res.status(400).json({ message: 'duplicateIds must be a non-empty list of customer IDs' });
+  }
+  if (duplicateIds.includes(id) || new Set(duplicateIds).size !== duplicateIds.length) {
+    return res.status(400).json({ message: 'Each customer can only appear once in a merge' });
+  }
+  try {
+    const [before, ...duplicates] = await Promise.all([id, ...duplicateIds].map((customerId) => getCustomerById(customerId)));
+    const merged = await mergeCustomers(id, duplicateIds);
+    if (!merged) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+    await recordAudit(req.user, [
+      { entityType: 'customer', entityId: id, action: 'merge', before, after: merged.customer },
+      ...duplicates.map((duplicate) => ({
+        entityType: 'customer',
+        entityId: duplicate.id,
+        action: 'merge',
+        changes: { ...diffRecords(duplicate, null), mergedInto: { from: null, to: id } }
+      }))
+    ]);
+    for (const entity of ['quote', 'task', 'activity']) {
+      await publishChange(entity, [], { action: 'reload', actor: req.user });
+    }
+    res.json(merged);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: 'Error merging customers' });
+  }
+});
+
+// CSV import. /parse reads the headers and suggests a column mapping,
+// /preview runs the import and rolls it back, and POST /api/import commits
+// it. Files are parsed in memory and never written to uploads/.
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  }
+});
+
+function readImportFile(req) {
+  if (!req.file) {
+    return { error: 'File is required' };
+  }
+  if (path.extname(req.file.originalname).toLowerCase() !== '.csv') {
+    return { error: 'Only CSV files are allowed' };
+  }
+  const { headers, records } = parseCsv(req.file.buffer.toString('utf8'));
+  if (headers.length === 0) {
+    return { error: 'The file is empty' };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and import each part` };
+  }
+  return { headers, records };
+}
+
+// Customers and quotes the import created, and existing customers it matched
+// (and may have filled in). Imported contacts are not returned with IDs, so
+// they are not listed individually.
+function importAuditEntries(rows, results) {
+  const entries = [];
+  const seenCustomers = new Set();
+  results.forEach((result, index) => {
+    const row = rows[index];
+    if (result.customer && !seenCustomers.has(result.customer.id)) {
+      seenCustomers.add(result.customer.id);
+      entries.push(
+        result.customer.action === 'new'
+          ? { entityType: 'customer', entityId: result.customer.id, action: 'create', after: row.customer }
+          : { entityType: 'customer', entityId: result.customer.id, action: 'import', changes: {} }
+      );
+    }
+    if (result.quote === 'new') {
+      entries.push({
+        entityType: 'quote',
+        entityId: row.quote.id,
+        action: 'create',
+        after: { ...row.quote, customerId: result.customer.id, clientName: result.customer.name }
+      });
+    }
+  });
+  return entries;
+}
+
+async function runImport(req, res, { dryRun }) {
+  const file = readImportFile(req);
+  if (file.error) {
+    return res.status(400).json({ message: file.error });
+  }
+  let mapping;
+  try {
+    mapping = JSON.parse(req.body?.mapping || 'null');
+  } catch (err) {
+    return res.status(400).json({ message: 'Column mapping is not valid JSON' });
+  }
+  const { error } = validateMapping(mapping, file.headers);
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+
+  const rows = buildImportRows(file.records, mapping).map((row) =>
+    row.quote ? { ...row, quote: createQuote(row.quote) } : row
+  );
+  try {
+    const results = await importRows(rows, { createdBy: req.user.sub, dryRun });
+    if (!dryRun) {
+      await recordAudit(req.user, importAuditEntries(rows, results));
+    }
+    if (!dryRun && results.some((r) => r.quote === 'new')) {
+      await publishChange('quote', [], { action: 'reload', actor: req.user });
+    }
+    const count = (predicate) => results.filter(predicate).length;
+    const customerIds = (action) =>
+      new Set(results.filter((r) => r.customer?.action === action).map((r) => r.customer.id)).size;
+    res.json({
+      dryRun,
+      summary: {
+        rows: results.length,
+        failed: count((r) => r.errors.length > 0),
+        customersCreated: customerIds('new'),
+        customersMatched: customerIds('existing'),
+        contactsCreated: count((r) => r.contact === 'new'),
+        quotesCreated: count((r) => r.quote === 'new'),
+        quotesSkipped: count((r) => r.quote === 'duplicate')
+      },
+      rows: results,
+      errorReport: buildErrorReport(
+        file.headers,
+        results.map((result, index) => ({ ...result, record: file.records[index] }))
+      )
+    });
+  } catch (err) {
+    console.error('[import] Error:', err);
+    res.status(500).json({ message: dryRun ? 'Error previewing import' : 'Error importing file' });
+  }
+}
+
+app.post('/api/import/parse', authMiddleware, requirePermission('manage_team'), csvUpload.single('file'), (req, res) => {
+  const file = readImportFile(req);
+  if (file.error) {
+    return res.status(400).json({ message: file.error });
+  }
+  res.json({
+    headers: file.headers,
+    rowCount: file.records.length,
+    sampleRows: file.records.slice(0, 5),
+    fields: IMPORT_FIELDS.map(({ key, label, required = false }) => ({ key, label, required })),
+    suggestedMapping: suggestMapping(file.headers)
+  });
+});
+
+app.post('/api/import/preview', authMiddleware, requirePermission('manage_team'), csvUpload.single('file'), (req, res) =>
+  runImport(req, res, { dryRun: true })
+);
+
+app.post('/api/import', authMiddleware, requirePermission('manage_team'), csvUpload.single('file'), (req, res) =>
+  runImport(req, res, { dryRun: false })
+);
+
 // Get customer by ID with all quotes
-app.get('/api/customers/:id', authMiddleware, async (req, res) => {
+app.get('/api/customers/:id', authMiddleware, requirePermission('read'), async (req, res) => {
   const { id } = req.params;
   try {
     const customer = await getCustomerById(id);
@@ -482,18 +2495,19 @@ app.get('/api/customers/:id', authMiddleware, async (req, res) => {
 });
 
 // Create or find customer
-app.post('/api/customers', authMiddleware, async (req, res) => {
+app.post('/api/customers', authMiddleware, requirePermission('write'), async (req, res) => {
   const { name, email, phone, website, address, industry, notes } = req.body || {};
   if (!name || !name.trim()) {
     return res.status(400).json({ message: 'Customer name is required' });
   }
   try {
-    const customer = await findOrCreateCustomer(name.trim());
+    const customer = await findOrCreateCustomerAudited(name.trim(), req.user);
     // Update customer with additional CRM fields if provided
     if (email || phone || website || address || industry || notes) {
       const updated = await updateCustomer(customer.id, {
         email, phone, website, address, industry, notes
       });
+      await recordAudit(req.user, { entityType: 'customer', entityId: customer.id, action: 'update', before: customer, after: updated });
       return res.status(201).json(updated);
     }
     res.status(201).json(customer);
@@ -504,22 +2518,36 @@ app.post('/api/customers', authMiddleware, async (req, res) => {
 });
 
 // Update customer
-app.put('/api/customers/:id', authMiddleware, async (req, res) => {
+app.put('/api/customers/:id', authMiddleware, requirePermission('write'), async (req, res) => {
   const { id } = req.params;
+  const { version, ...patch } = req.body || {};
+  const { expectedVersion, error } = parseExpectedVersion(version);
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
   try {
-    const updated = await updateCustomer(id, req.body);
+    const before = await getCustomerById(id);
+    const updated = await updateCustomer(id, patch, { expectedVersion });
     if (!updated) {
       return res.status(404).json({ message: 'Customer not found' });
     }
+    await recordAudit(req.user, { entityType: 'customer', entityId: id, action: 'update', before, after: updated });
+    // Quote cards, tasks and activities show the customer's name
+    for (const entity of ['quote', 'task', 'activity']) {
+      await publishChange(entity, [], { action: 'reload', actor: req.user });
+    }
     res.json(updated);
   } catch (err) {
+    if (err.code === 'VERSION_CONFLICT') {
+      return sendVersionConflict(res, err, 'customer');
+    }
     console.error(err);
     res.status(500).json({ message: 'Error updating customer' });
   }
 });
 
 // Contacts endpoints
-app.get('/api/customers/:id/contacts', authMiddleware, async (req, res) => {
+app.get('/api/customers/:id/contacts', authMiddleware, requirePermission('read'), async (req, res) => {
   const { id } = req.params;
   try {
     const contacts = await getContactsByCustomerId(id);
@@ -530,7 +2558,7 @@ app.get('/api/customers/:id/contacts', authMiddleware, async (req, res) => {
   }
 });
 
-app.post('/api/customers/:id/contacts', authMiddleware, async (req, res) => {
+app.post('/api/customers/:id/contacts', authMiddleware, requirePermission('write'), async (req, res) => {
   const { id } = req.params;
   const { firstName, lastName, email, phone, jobTitle, notes } = req.body || {};
   if (!firstName || !lastName) {
@@ -546,6 +2574,7 @@ app.post('/api/customers/:id/contacts', authMiddleware, async (req, res) => {
       jobTitle,
       notes
     });
+    await recordAudit(req.user, { entityType: 'contact', entityId: contact.id, action: 'create', after: contact });
     res.status(201).json(contact);
   } catch (err) {
     console.error(err);
@@ -553,13 +2582,15 @@ app.post('/api/customers/:id/contacts', authMiddleware, async (req, res) => {
   }
 });
 
-app.put('/api/contacts/:id', authMiddleware, async (req, res) => {
+app.put('/api/contacts/:id', authMiddleware, requirePermission('write'), async (req, res) => {
   const { id } = req.params;
   try {
+    const before = await getContactById(id);
     const updated = await updateContact(id, req.body);
     if (!updated) {
       return res.status(404).json({ message: 'Contact not found' });
     }
+    await recordAudit(req.user, { entityType: 'contact', entityId: id, action: 'update', before, after: updated });
     res.json(updated);
   } catch (err) {
     console.error(err);
@@ -567,10 +2598,13 @@ app.put('/api/contacts/:id', authMiddleware, async (req, res) => {
   }
 });
 
-app.delete('/api/contacts/:id', authMiddleware, async (req, res) => {
+app.delete('/api/contacts/:id', authMiddleware, requirePermission('write'), async (req, res) => {
   const { id } = req.params;
   try {
-    await deleteContact(id);
+    const deleted = await deleteContact(id);
+    if (deleted) {
+      await recordAudit(req.user, { entityType: 'contact', entityId: id, action: 'delete', before: deleted });
+    }
     res.json({ message: 'Contact deleted' });
   } catch (err) {
     console.error(err);
@@ -579,7 +2613,7 @@ app.delete('/api/contacts/:id', authMiddleware, async (req, res) => {
 });
 
 // Activities endpoints
-app.get('/api/customers/:id/activities', authMiddleware, async (req, res) => {
+app.get('/api/customers/:id/activities', authMiddleware, requirePermission('read'), async (req, res) => {
   const { id } = req.params;
   try {
     const activities = await getActivitiesByCustomerId(id);
@@ -590,7 +2624,7 @@ app.get('/api/customers/:id/activities', authMiddleware, async (req, res) => {
   }
 });
 
-app.post('/api/customers/:id/activities', authMiddleware, async (req, res) => {
+app.post('/api/customers/:id/activities', authMiddleware, requirePermission('write'), async (req, res) => {
   const { id } = req.params;
   const { contactId, quoteId, type, subject, description, activityDate, attachmentUrl } = req.body || {};
   if (!type) {
@@ -608,6 +2642,8 @@ app.post('/api/customers/:id/activities', authMiddleware, async (req, res) => {
       attachmentUrl: attachmentUrl || null,
       activityDate: activityDate || new Date().toISOString()
     });
+    await recordAudit(req.user, { entityType: 'activity', entityId: activity.id, action: 'create', after: activity });
+    await publishChange('activity', activity.id, { actor: req.user });
     res.status(201).json(activity);
   } catch (err) {
     console.error('[create activity] Error:', err);
@@ -628,46 +2664,52 @@ app.post('/api/customers/:id/activities', authMiddleware, async (req, res) => {
 });
 
 // Upload activity attachment (email files)
-app.post('/api/customers/:id/activities/:activityId/attachment', authMiddleware, upload.single('file'), async (req, res) => {
+app.post('/api/customers/:id/activities/:activityId/attachment', authMiddleware, requirePermission('write'), receiveUpload, async (req, res) => {
   const { id, activityId } = req.params;
-  if (!req.file) {
-    return res.status(400).json({ message: 'File is required' });
-  }
-  
-  // Validate file type - allow email files (.eml, .msg) and PDFs
-  const allowedMimes = ['message/rfc822', 'application/vnd.ms-outlook', 'application/pdf', 'text/plain'];
-  const allowedExtensions = ['.eml', '.msg', '.pdf', '.txt'];
-  const fileExt = path.extname(req.file.originalname).toLowerCase();
-  
-  if (!allowedMimes.includes(req.file.mimetype) && !allowedExtensions.includes(fileExt)) {
-    // Delete the uploaded file if it's not allowed
-    const fs = require('fs');
-    try {
-      fs.unlinkSync(req.file.path);
-    } catch (err) {
-      console.error('[upload] Error deleting invalid file:', err);
-    }
-    return res.status(400).json({ message: 'Only email files (.eml, .msg), PDF, or text files are allowed' });
-  }
-  
+  if (!(await acceptUpload(req, res, ACTIVITY_ATTACHMENT_TYPES))) return;
+  const scan = await scanUpload(req, res);
+  if (!scan) return;
+
+  // Removed again from storage if the activity is not updated
+  let stored = [];
   try {
-    const attachmentUrl = `/uploads/${req.file.filename}`;
+    const [before = null] = await getActivitiesByIds([activityId]);
+    // An infected file is quarantined and recorded as the activity's blocked
+    // attachment; the activity keeps its own attachment
+    if (scan.status === 'infected') {
+      if (!before || before.customerId !== id) {
+        return res.status(404).json({ message: 'Activity not found' });
+      }
+      const fileUrl = await quarantineUpload(req, scan, {
+        attachedTo: before.customerName ? `an activity for ${before.customerName}` : 'a customer activity'
+      });
+      await pool.query(
+        `update activities
+         set blocked_attachment_url = $1, blocked_attachment_name = $2, blocked_attachment_signature = $3, updated_at = now()
+         where id = $4`,
+        [fileUrl, req.file.originalname, scan.signature, activityId]
+      );
+      const [activity] = await getActivitiesByIds([activityId]);
+      await recordAudit(req.user, { entityType: 'activity', entityId: activityId, action: 'block', before, after: activity });
+      await publishChange('activity', activityId, { actor: req.user });
+      return res.status(422).json({ message: blockedUploadMessage(scan), activity });
+    }
+    const attachmentUrl = await storeUpload(req.file);
+    stored.push(attachmentUrl);
     // Update the activity with the attachment URL
     const { rows } = await pool.query(
-      'update activities set attachment_url = $1, updated_at = now() where id = $2 and customer_id = $3 returning *',
+      `update activities
+       set attachment_url = $1, blocked_attachment_url = null, blocked_attachment_name = null,
+           blocked_attachment_signature = null, updated_at = now()
+       where id = $2 and customer_id = $3 returning *`,
       [attachmentUrl, activityId, id]
     );
     
     if (!rows[0]) {
-      // Delete uploaded file if activity not found
-      const fs = require('fs');
-      try {
-        fs.unlinkSync(req.file.path);
-      } catch (err) {
-        console.error('[upload] Error deleting file:', err);
-      }
+      await removeUploads(stored);
       return res.status(404).json({ message: 'Activity not found' });
     }
+    stored = [];
     
     // Fetch updated activity using the db function
     const activities = await getActivitiesByCustomerId(id);
@@ -677,22 +2719,20 @@ app.post('/api/customers/:id/activities/:activityId/attachment', authMiddleware,
       return res.status(404).json({ message: 'Activity not found after update' });
     }
     
+    await recordAudit(req.user, { entityType: 'activity', entityId: activityId, action: 'update', before, after: updatedActivity });
+    await publishChange('activity', activityId, { actor: req.user });
     res.json(updatedActivity);
   } catch (err) {
     console.error(err);
-    // Delete uploaded file on error
-    const fs = require('fs');
-    try {
-      if (req.file) fs.unlinkSync(req.file.path);
-    } catch (unlinkErr) {
-      console.error('[upload] Error deleting file on error:', unlinkErr);
-    }
+    await removeUploads(stored);
     res.status(500).json({ message: 'Error saving attachment' });
+  } finally {
+    discardUpload(req.file);
   }
 });
 
 // Tasks endpoints
-app.get('/api/tasks', authMiddleware, async (req, res) => {
+app.get('/api/tasks', authMiddleware, requirePermission('read'), async (req, res) => {
   try {
     const tasks = await getAllTasks();
     res.json(tasks);
@@ -703,7 +2743,7 @@ app.get('/api/tasks', authMiddleware, async (req, res) => {
 });
 
 // Get tasks for current user
-app.get('/api/tasks/my', authMiddleware, async (req, res) => {
+app.get('/api/tasks/my', authMiddleware, requirePermission('read'), async (req, res) => {
   try {
     const userId = req.user?.sub || null;
     if (!userId) {
@@ -717,7 +2757,7 @@ app.get('/api/tasks/my', authMiddleware, async (req, res) => {
   }
 });
 
-app.get('/api/customers/:id/tasks', authMiddleware, async (req, res) => {
+app.get('/api/customers/:id/tasks', authMiddleware, requirePermission('read'), async (req, res) => {
   const { id } = req.params;
   try {
     const tasks = await getTasksByCustomerId(id);
@@ -728,14 +2768,17 @@ app.get('/api/customers/:id/tasks', authMiddleware, async (req, res) => {
   }
 });
 
-app.post('/api/tasks', authMiddleware, async (req, res) => {
+app.post('/api/tasks', authMiddleware, requirePermission('write'), async (req, res) => {
   const { customerId, contactId, quoteId, assignedTo, title, description, dueDate, priority } = req.body || {};
   if (!title) {
     return res.status(400).json({ message: 'Title is required' });
   }
+  // If assignedTo is not provided, default to current user
+  const userId = req.user?.sub || null;
+  if (assignedTo && assignedTo !== userId && !hasPermission(req.user.role, 'manage_team')) {
+    return res.status(403).json({ message: 'Only managers can assign tasks to other users' });
+  }
   try {
-    // If assignedTo is not provided, default to current user
-    const userId = req.user?.sub || null;
     const task = await createTask({
       customerId: customerId || null,
       contactId: contactId || null,
@@ -746,6 +2789,8 @@ app.post('/api/tasks', authMiddleware, async (req, res) => {
       dueDate,
       priority
     });
+    await recordAudit(req.user, { entityType: 'task', entityId: task.id, action: 'create', after: task });
+    await publishChange('task', task.id, { actor: req.user });
     res.status(201).json(task);
   } catch (err) {
     console.error(err);
@@ -753,15 +2798,26 @@ app.post('/api/tasks', authMiddleware, async (req, res) => {
   }
 });
 
-app.put('/api/tasks/:id', authMiddleware, async (req, res) => {
+app.put('/api/tasks/:id', authMiddleware, requirePermission('write'), async (req, res) => {
   const { id } = req.params;
+  const { version, ...patch } = req.body || {};
+  const { expectedVersion, error } = parseExpectedVersion(version);
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
   try {
-    const updated = await updateTask(id, req.body);
+    const [before = null] = await getTasksByIds([id]);
+    const updated = await updateTask(id, patch, { expectedVersion });
     if (!updated) {
       return res.status(404).json({ message: 'Task not found' });
     }
+    await recordAudit(req.user, { entityType: 'task', entityId: id, action: 'update', before, after: updated });
+    await publishChange('task', id, { actor: req.user });
     res.json(updated);
   } catch (err) {
+    if (err.code === 'VERSION_CONFLICT') {
+      return sendVersionConflict(res, err, 'task');
+    }
     console.error(err);
     res.status(500).json({ message: 'Error updating task' });
   }
@@ -791,7 +2847,12 @@ app.get('/', (req, res) => {
             health: '/api/health',
             auth: {
               register: 'POST /api/auth/register',
-              login: 'POST /api/auth/login'
+              login: 'POST /api/auth/login',
+              refresh: 'POST /api/auth/refresh',
+              logout: 'POST /api/auth/logout',
+              forgotPassword: 'POST /api/auth/forgot-password',
+              resetPassword: 'POST /api/auth/reset-password',
+              changePassword: 'POST /api/auth/change-password'
             }
           }
         });
@@ -806,7 +2867,12 @@ app.get('/', (req, res) => {
         health: '/api/health',
         auth: {
           register: 'POST /api/auth/register',
-          login: 'POST /api/auth/login'
+          login: 'POST /api/auth/login',
+          refresh: 'POST /api/auth/refresh',
+          logout: 'POST /api/auth/logout',
+          forgotPassword: 'POST /api/auth/forgot-password',
+          resetPassword: 'POST /api/auth/reset-password',
+          changePassword: 'POST /api/auth/change-password'
         },
         quotes: {
           list: 'GET /api/quotes',
@@ -857,7 +2923,7 @@ if (isProduction) {
       availableEndpoints: {
         root: 'GET /',
         health: 'GET /api/health',
-        auth: 'POST /api/auth/login, POST /api/auth/register',
+        auth: 'POST /api/auth/login, POST /api/auth/register, POST /api/auth/refresh, POST /api/auth/logout',
         quotes: 'GET /api/quotes, POST /api/quotes, PUT /api/quotes/:id, PATCH /api/quotes/:id/stage',
         customers: 'GET /api/customers, GET /api/customers/:id, POST /api/customers'
       }
@@ -873,10 +2939,14 @@ app.listen(PORT, () => {
   
   // Initialize database in background
   initDb()
-    .then(() => ensureAdminUser())
+    .then(() => bootstrapAdminUser())
     .then(() => {
       console.log('[db] Database initialized successfully');
-      startReminderScheduler();
+      startRealtime();
+      // Set RUN_SCHEDULER=false when reminders are handled by worker.js
+      if (process.env.RUN_SCHEDULER !== 'false') {
+        startReminderScheduler();
+      }
     })
     .catch((err) => {
       console.error('[db] Failed to initialise database:', err);
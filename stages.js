@@ -0,0 +1,33 @@
+// Pipeline stages, in board order, with their display titles. Stage keys are
+// what is stored in quotes.stage.
+
+const STAGE_TITLES = {
+  new: 'New',
+  follow_up: 'Follow-up',
+  tender: 'Tender',
+  otp: 'OTP',
+  won: 'Won',
+  lost: 'Lost'
+};
+
+// A quote is closed once won or lost; it is open in every other stage
+const CLOSED_STAGES = ['won', 'lost'];
+const OPEN_STAGES = Object.keys(STAGE_TITLES).filter((stage) => !CLOSED_STAGES.includes(stage));
+
+// Likelihood that a quote in each stage is eventually won, used for the
+// weighted forecast.
+const STAGE_PROBABILITIES = {
+  new: 0.1,
+  follow_up: 0.25,
+  tender: 0.4,
+  otp: 0.75,
+  won: 1,
+  lost: 0
+};
+
+module.exports = {
+  STAGE_TITLES,
+  CLOSED_STAGES,
+  OPEN_STAGES,
+  STAGE_PROBABILITIES
+};
@@ -0,0 +1,215 @@
+const fs = require('fs');
+const path = require('path');
+const {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command
+} = require('@aws-sdk/client-s3');
+
+// Where uploaded files are kept. Records refer to a file by its
+// /uploads/<key> URL and the store maps the key to the file's bytes.
+//
+// STORAGE_DRIVER=local (the default) keeps files in uploads/, which does not
+// survive a redeploy on hosts with ephemeral disks such as Railway.
+// STORAGE_DRIVER=s3 keeps them in an S3-compatible bucket (AWS S3, MinIO,
+// Cloudflare R2, ...), configured with:
+//
+//   S3_BUCKET                 bucket name (required)
+//   S3_REGION                 defaults to us-east-1
+//   S3_ENDPOINT               for services other than AWS, e.g. http://localhost:9000
+//   S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY
+//                             otherwise the AWS SDK's default credentials
+//   S3_PREFIX                 optional key prefix, e.g. uploads/
+//   S3_FORCE_PATH_STYLE       defaults to true when S3_ENDPOINT is set
+//
+// Every driver provides:
+//
+//   put(key, source, { contentType })  source is a Buffer or a local file path
+//   get(key)                           { stream, size }, or null when missing
+//   exists(key)
+//   remove(key)                        files that are already gone are ignored
+//   list(prefix)                       keys starting with prefix
+//
+// Infected uploads (see virusScanner.js) are moved to a separate quarantine
+// store instead: quarantine/ with the local driver, or the quarantine/ prefix
+// within S3_PREFIX in the bucket. Nothing is ever served from it.
+
+const UPLOADS_DIR = path.join(__dirname, 'uploads');
+const QUARANTINE_DIR = path.join(__dirname, 'quarantine');
+
+// Keys are plain file names, as generated by multer or the PDF route
+function checkKey(key) {
+  if (!key || key !== path.basename(key) || key.startsWith('.')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return key;
+}
+
+function createLocalStorage(dir = UPLOADS_DIR) {
+  const filePath = (key) => path.join(dir, checkKey(key));
+  return {
+    driver: 'local',
+    async put(key, source) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      if (Buffer.isBuffer(source)) {
+        await fs.promises.writeFile(filePath(key), source);
+      } else {
+        await fs.promises.copyFile(source, filePath(key));
+      }
+    },
+    async get(key) {
+      try {
+        const { size } = await fs.promises.stat(filePath(key));
+        return { stream: fs.createReadStream(filePath(key)), size };
+      } catch (err) {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async exists(key) {
+      try {
+        await fs.promises.access(filePath(key));
+        return true;
+      } catch (err) {
+        if (err.code === 'ENOENT') return false;
+        throw err;
+      }
+    },
+    async remove(key) {
+      try {
+        await fs.promises.unlink(filePath(key));
+      } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+      }
+    },
+    async list(prefix = '') {
+      const files = await fs.promises.readdir(dir).catch((err) => {
+        if (err.code === 'ENOENT') return [];
+        throw err;
+      });
+      return files.filter((file) => file.startsWith(prefix) && !file.startsWith('.'));
+    }
+  };
+}
+
+const isNotFound = (err) => err.name === 'NoSuchKey' || err.name === 'NotFound' || err.$metadata?.httpStatusCode === 404;
+
+function createS3Storage({
+  bucket,
+  region = 'us-east-1',
+  endpoint,
+  accessKeyId,
+  secretAccessKey,
+  prefix = '',
+  forcePathStyle = !!endpoint
+}) {
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+  }
+  const client = new S3Client({
+    region,
+    endpoint: endpoint || undefined,
+    forcePathStyle,
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    // Not every S3-compatible service supports the SDK's default checksums
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    responseChecksumValidation: 'WHEN_REQUIRED'
+  });
+  const objectKey = (key) => `${prefix}${checkKey(key)}`;
+
+  return {
+    driver: 's3',
+    async put(key, source, { contentType } = {}) {
+      const body = Buffer.isBuffer(source)
+        ? { Body: source }
+        : { Body: fs.createReadStream(source), ContentLength: (await fs.promises.stat(source)).size };
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: objectKey(key),
+        ContentType: contentType,
+        ...body
+      }));
+    },
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        return { stream: object.Body, size: object.ContentLength };
+      } catch (err) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+    async exists(key) {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        return true;
+      } catch (err) {
+        if (isNotFound(err)) return false;
+        throw err;
+      }
+    },
+    async remove(key) {
+      // Deleting a missing object succeeds
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+    },
+    async list(keyPrefix = '') {
+      const keys = [];
+      let ContinuationToken;
+      do {
+        const page = await client.send(new ListObjectsV2Command({
+          Bucket: bucket,
+          Prefix: `${prefix}${keyPrefix}`,
+          ContinuationToken
+        }));
+        for (const object of page.Contents || []) {
+          keys.push(object.Key.slice(prefix.length));
+        }
+        ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (ContinuationToken);
+      return keys;
+    }
+  };
+}
+
+// The store configured by STORAGE_DRIVER and the S3_* settings, or with
+// `quarantine` its quarantine store
+function createStorage(env = process.env, { quarantine = false } = {}) {
+  const driver = (env.STORAGE_DRIVER || 'local').toLowerCase();
+  if (driver === 'local') {
+    return createLocalStorage(quarantine ? QUARANTINE_DIR : UPLOADS_DIR);
+  }
+  if (driver === 's3') {
+    return createS3Storage({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION || undefined,
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      prefix: `${env.S3_PREFIX || ''}${quarantine ? 'quarantine/' : ''}`,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === 'true' : !!env.S3_ENDPOINT
+    });
+  }
+  throw new Error(`Unknown STORAGE_DRIVER "${env.STORAGE_DRIVER}"; use local or s3`);
+}
+
+const storage = createStorage();
+const quarantine = createStorage(process.env, { quarantine: true });
+
+// The storage key of an /uploads/<key> URL
+function storageKey(fileUrl) {
+  return path.basename(fileUrl);
+}
+
+module.exports = {
+  UPLOADS_DIR,
+  QUARANTINE_DIR,
+  storage,
+  quarantine,
+  storageKey,
+  createStorage,
+  createLocalStorage,
+  createS3Storage
+};
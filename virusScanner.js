@@ -0,0 +1,166 @@
+const fs = require('fs');
+const net = require('net');
+const { once } = require('events');
+const { execFile } = require('child_process');
+
+// Virus scanning of uploaded files, before they are stored (see
+// scanUpload in server.js). Infected files are moved to quarantine instead.
+//
+// VIRUS_SCANNER picks the scanner:
+//
+//   none      the default; files are stored unscanned
+//   clamav    a ClamAV daemon (clamd), streamed to over TCP:
+//               CLAMAV_HOST        defaults to localhost
+//               CLAMAV_PORT        defaults to 3310
+//               CLAMAV_TIMEOUT_MS  defaults to 60000
+//   command   any scanner with a command-line interface, run with the file's
+//             path as its last argument. Exit code 0 means clean and 1
+//             infected (as with clamdscan); anything else is an error:
+//               VIRUS_SCAN_COMMAND e.g. "clamdscan --no-summary --fdpass"
+//
+// Every scanner provides scan(filePath), which resolves with
+// { infected, signature } and rejects when the file could not be scanned.
+// Other scanners can be plugged in with setScanner.
+
+const CLAMAV_CHUNK_BYTES = 64 * 1024;
+
+// clamd replies "stream: OK", "stream: <signature> FOUND" or "<reason> ERROR"
+function parseClamavReply(reply) {
+  const text = reply.replace(/\0/g, '').trim();
+  if (text === 'stream: OK') {
+    return { infected: false, signature: null };
+  }
+  const found = /^stream: (.+) FOUND$/.exec(text);
+  if (found) {
+    return { infected: true, signature: found[1] };
+  }
+  throw new Error(`ClamAV could not scan the file: ${text || 'no reply'}`);
+}
+
+function createClamavScanner({ host = 'localhost', port = 3310, timeoutMs = 60000 } = {}) {
+  return {
+    name: 'clamav',
+    scan(filePath) {
+      return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port });
+        let reply = '';
+        let failure = null;
+        socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`ClamAV did not reply within ${timeoutMs} ms`)));
+        socket.on('data', (data) => {
+          reply += data.toString('utf8');
+        });
+        socket.on('error', (err) => {
+          failure = err;
+        });
+        // clamd may reply and hang up before the whole file is sent, e.g.
+        // when it exceeds StreamMaxLength, so the reply wins over write errors
+        socket.on('close', () => {
+          if (!reply && failure) return reject(failure);
+          try {
+            resolve(parseClamavReply(reply));
+          } catch (err) {
+            reject(err);
+          }
+        });
+        socket.once('connect', async () => {
+          try {
+            socket.write('zINSTREAM\0');
+            const file = fs.createReadStream(filePath, { highWaterMark: CLAMAV_CHUNK_BYTES });
+            for await (const chunk of file) {
+              const length = Buffer.alloc(4);
+              length.writeUInt32BE(chunk.length);
+              if (!socket.write(Buffer.concat([length, chunk]))) {
+                await once(socket, 'drain');
+              }
+            }
+            // A zero-length chunk ends the stream
+            socket.end(Buffer.alloc(4));
+          } catch (err) {
+            socket.destroy(err);
+          }
+        });
+      });
+    }
+  };
+}
+
+function createCommandScanner(command) {
+  const [program, ...args] = String(command || '').trim().split(/\s+/).filter(Boolean);
+  if (!program) {
+    throw new Error('VIRUS_SCAN_COMMAND is required when VIRUS_SCANNER=command');
+  }
+  return {
+    name: 'command',
+    scan(filePath) {
+      return new Promise((resolve, reject) => {
+        execFile(program, [...args, filePath], { timeout: 5 * 60 * 1000 }, (err, stdout, stderr) => {
+          if (!err) {
+            return resolve({ infected: false, signature: null });
+          }
+          if (err.code === 1) {
+            // e.g. "/tmp/upload: Eicar-Test-Signature FOUND"
+            const line = stdout.split('\n').find((l) => l.trim()) || '';
+            const signature = line.replace(/^.*?:\s*/, '').replace(/\s+FOUND$/, '').trim();
+            return resolve({ infected: true, signature: signature || 'Unknown' });
+          }
+          reject(new Error(`${program} could not scan the file: ${(stderr || err.message).trim()}`));
+        });
+      });
+    }
+  };
+}
+
+const noScanner = {
+  name: 'none',
+  async scan() {
+    return null;
+  }
+};
+
+// The scanner configured by VIRUS_SCANNER and its settings
+function createScanner(env = process.env) {
+  const name = (env.VIRUS_SCANNER || 'none').toLowerCase();
+  if (name === 'none') {
+    return noScanner;
+  }
+  if (name === 'clamav') {
+    return createClamavScanner({
+      host: env.CLAMAV_HOST || undefined,
+      port: env.CLAMAV_PORT ? Number(env.CLAMAV_PORT) : undefined,
+      timeoutMs: env.CLAMAV_TIMEOUT_MS ? Number(env.CLAMAV_TIMEOUT_MS) : undefined
+    });
+  }
+  if (name === 'command') {
+    return createCommandScanner(env.VIRUS_SCAN_COMMAND);
+  }
+  throw new Error(`Unknown VIRUS_SCANNER "${env.VIRUS_SCANNER}"; use none, clamav or command`);
+}
+
+let scanner = createScanner();
+
+// Replaces the configured scanner with any object providing name and scan(filePath)
+function setScanner(next) {
+  scanner = next || noScanner;
+}
+
+// Scans a file: status is 'clean', 'infected' (with the signature found) or
+// 'unscanned' when no scanner is configured. Rejects when scanning failed.
+async function scanFile(filePath) {
+  const result = await scanner.scan(filePath);
+  if (!result) {
+    return { status: 'unscanned', signature: null, scanner: scanner.name };
+  }
+  return {
+    status: result.infected ? 'infected' : 'clean',
+    signature: result.infected ? result.signature || 'Unknown' : null,
+    scanner: scanner.name
+  };
+}
+
+module.exports = {
+  scanFile,
+  setScanner,
+  createScanner,
+  createClamavScanner,
+  createCommandScanner
+};
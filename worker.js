@@ -0,0 +1,30 @@
+// Standalone reminder worker.
+//
+// Runs the reminder scheduler without the web server, so web replicas can be
+// started with RUN_SCHEDULER=false and scale independently:
+//
+//   node worker.js        (or: npm run worker)
+//
+// Running several workers, or workers alongside web processes that still
+// schedule, is safe: reminders are claimed in Postgres before sending.
+
+const { initDb, pool } = require('./db');
+const { startReminderScheduler } = require('./reminderService');
+
+initDb()
+  .then(() => {
+    console.log('[worker] Database ready');
+    startReminderScheduler();
+  })
+  .catch((err) => {
+    console.error('[worker] Failed to initialise database:', err);
+    process.exit(1);
+  });
+
+function shutdown(signal) {
+  console.log(`[worker] ${signal} received, shutting down`);
+  pool.end().finally(() => process.exit(0));
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));